@@ -1,5 +1,6 @@
 /**
- * Copies static assets (HTML, CSS) from src/ to dist/ that tsc doesn't handle.
+ * Copies static assets (HTML, CSS, and the optional denoiser model) from
+ * src/ to dist/ that tsc doesn't handle.
  */
 
 import { cpSync, mkdirSync } from "node:fs";
@@ -18,4 +19,14 @@ cpSync(src, dest, {
     filter: (source) => !source.endsWith(".ts"),
 });
 
-console.log("✅ Static assets copied to dist/renderer");
+// Audio worklets are compiled by tsc; only their binary assets (rnnoise.wasm) need copying
+const workletSrc = resolve(__dirname, "../src/worklets");
+const workletDest = resolve(__dirname, "../dist/worklets");
+
+mkdirSync(workletDest, { recursive: true });
+cpSync(workletSrc, workletDest, {
+    recursive: true,
+    filter: (source) => !source.endsWith(".ts"),
+});
+
+console.log("✅ Static assets copied to dist/renderer and dist/worklets");
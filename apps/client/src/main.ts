@@ -5,13 +5,21 @@
  * This is the entry point for the Electron desktop client.
  */
 
-import { app, BrowserWindow, session, ipcMain, globalShortcut, Menu } from "electron";
+import { app, BrowserWindow, session, ipcMain, globalShortcut, Menu, powerMonitor } from "electron";
 import path from "node:path";
 import { getInstanceId } from "./instance-id.js";
 
 let mainWindow: BrowserWindow | null = null;
 let pttKey: string | null = null;
 
+/** System idle time after which the user is marked away (seconds). */
+const AWAY_IDLE_SECONDS = 5 * 60;
+/** How often the system idle time is checked (ms). */
+const IDLE_POLL_INTERVAL = 15 * 1000;
+let isSystemIdle = false;
+/** Set while the screen is locked, which keeps the user away regardless of idle time. */
+let screenLocked = false;
+
 function createWindow(): void {
     // Grant mic/camera permission requests automatically
     session.defaultSession.setPermissionRequestHandler(
@@ -73,6 +81,31 @@ function unregisterPttShortcut(): void {
     }
 }
 
+// ── Idle detection ───────────────────────────────────────────────────────
+
+/** Tells the renderer when the system goes idle or becomes active again. */
+function setSystemIdle(idle: boolean): void {
+    if (idle === isSystemIdle) return;
+    isSystemIdle = idle;
+    mainWindow?.webContents.send(idle ? "system-idle" : "system-active");
+}
+
+function startIdleDetection(): void {
+    setInterval(() => {
+        setSystemIdle(screenLocked || powerMonitor.getSystemIdleTime() >= AWAY_IDLE_SECONDS);
+    }, IDLE_POLL_INTERVAL);
+
+    // A locked screen means away right now, without waiting for the threshold
+    powerMonitor.on("lock-screen", () => {
+        screenLocked = true;
+        setSystemIdle(true);
+    });
+    powerMonitor.on("unlock-screen", () => {
+        screenLocked = false;
+        setSystemIdle(false);
+    });
+}
+
 // ── App lifecycle ────────────────────────────────────────────────────────
 
 app.whenReady().then(() => {
@@ -95,6 +128,7 @@ app.whenReady().then(() => {
     });
 
     createWindow();
+    startIdleDetection();
 });
 
 app.on("window-all-closed", () => {
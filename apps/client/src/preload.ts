@@ -7,19 +7,81 @@
  */
 
 import { contextBridge, ipcRenderer } from "electron";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
 import { io, Socket } from "socket.io-client";
 import type {
     ClientToServerEvents,
     ServerToClientEvents,
+    IAuthResponse,
+    IBan,
+    IChannelAudioSettings,
+    IChannelTreeNode,
+    IConversation,
+    IDirectMessage,
     IMessage,
+    IMessageRevision,
+    IMessageSearchResult,
+    IUploadResponse,
+    SocketAuth,
 } from "@reson8/shared-types";
-import { VoiceService, VoiceSignaling } from "./services/voice.service";
+import {
+    DEFAULT_AUDIO_PROCESSING,
+    DEFAULT_VOICE_ACTIVATION,
+    VoiceService,
+} from "./services/voice.service";
+import type {
+    AudioProcessingSettings,
+    UserAudioSettings,
+    VoiceActivationSettings,
+    VoiceSignaling,
+} from "./services/voice.service";
+import { DEFAULT_AUDIO_PIPELINE, MIN_LEVEL_DB, MicTest } from "./services/audio-pipeline";
+import type { AudioPipelineSettings, DenoiserAssets } from "./services/audio-pipeline";
 
 type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 let socket: TypedSocket | null = null;
 let instanceId: string = "";
 let voiceService: VoiceService | null = null;
+let voiceActivation: VoiceActivationSettings = { ...DEFAULT_VOICE_ACTIVATION };
+/** Per-user playback preferences and master volume, re-applied to each new VoiceService. */
+const userAudio = new Map<string, UserAudioSettings>();
+let masterVolume = 1;
+/** Chosen mic (null = system default) and its browser-side processing. */
+let audioInputDeviceId: string | null = null;
+let audioProcessing: AudioProcessingSettings = { ...DEFAULT_AUDIO_PROCESSING };
+/** Processing chain for the chosen mic (the renderer keeps one per device). */
+let audioPipeline: AudioPipelineSettings = structuredClone(DEFAULT_AUDIO_PIPELINE);
+/** Chosen speaker (null = system default), and the one actually in use while it's unplugged. */
+let audioOutputDeviceId: string | null = null;
+let activeOutputDeviceId: string | null = null;
+
+/** Standalone mic capture for the settings calibration meter when not in voice. */
+let micTest: MicTest | null = null;
+let micTestLoopback = false;
+
+/** The RNNoise model isn't bundled; the denoiser only exists if one was dropped in. */
+const denoiserWasmPath = path.join(__dirname, "worklets", "rnnoise.wasm");
+
+/** The denoiser worklet and model, copied next to the build output (null without a model). */
+const denoiserAssets: DenoiserAssets | null = existsSync(denoiserWasmPath)
+    ? {
+        workletUrl: pathToFileURL(path.join(__dirname, "worklets", "rnnoise-processor.js")).href,
+        loadWasm: async () => {
+            const data = await readFile(denoiserWasmPath);
+            return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+        },
+    }
+    : null;
+
+/** Account session — null when connected as a guest. */
+let session: { serverUrl: string; token: string } | null = null;
+let userId: string = "";
+/** HTTP address of the connected server (for attachment URLs). */
+let currentServerUrl: string = "";
 
 // Eagerly fetch instance ID so it's available before any connection
 ipcRenderer.invoke("get-instance-id").then((id: string) => {
@@ -44,6 +106,102 @@ function emit(event: string, data: any): void {
     }
 }
 
+/** Account credentials for the login flow. Omit to connect as a guest. */
+interface Credentials {
+    username: string;
+    password: string;
+    /** Create a new account instead of logging in. */
+    register?: boolean;
+}
+
+/**
+ * Registers or logs in over HTTP and returns the issued session token.
+ */
+async function authenticate(
+    serverUrl: string,
+    credentials: Credentials,
+    nickname: string,
+): Promise<IAuthResponse> {
+    const route = credentials.register ? "register" : "login";
+    try {
+        const res = await fetch(`${serverUrl}/auth/${route}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                username: credentials.username,
+                password: credentials.password,
+                nickname,
+            }),
+        });
+        return (await res.json()) as IAuthResponse;
+    } catch (err: any) {
+        return { success: false, error: err.message };
+    }
+}
+
+/** Revokes the current account session (fire-and-forget). */
+function revokeSession(): void {
+    if (!session) return;
+    const { serverUrl, token } = session;
+    session = null;
+    fetch(`${serverUrl}/auth/logout`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+    }).catch(() => { });
+}
+
+/**
+ * Reports the local mute/deafen state so other users see it next to our
+ * name (fire-and-forget).
+ */
+function reportVoiceState(): void {
+    if (!socket?.connected || !voiceService) return;
+    socket.emit(
+        "SET_VOICE_STATE",
+        { isMuted: voiceService.isMuted, isDeafened: voiceService.isDeafened },
+        () => { },
+    );
+}
+
+/** Creates a VoiceService with the current audio settings applied. */
+function createVoiceService(): VoiceService {
+    const service = new VoiceService(createSignaling(), denoiserAssets);
+    service.setVoiceActivation(voiceActivation);
+    for (const [id, settings] of userAudio) service.setUserAudio(id, settings);
+    service.setMasterVolume(masterVolume);
+    service.setAudioOutputDevice(activeOutputDeviceId);
+    service.setAudioDeviceId(audioInputDeviceId);
+    service.setAudioProcessing(audioProcessing);
+    service.setAudioPipeline(audioPipeline);
+    service.onInputDeviceLost = () => emit("input-device-lost", null);
+    return service;
+}
+
+/**
+ * Applies the chosen speaker, or the system default while it isn't
+ * connected. Resolves false when falling back.
+ */
+async function applyAudioOutputDevice(): Promise<boolean> {
+    let available = true;
+    if (audioOutputDeviceId) {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        available = devices.some(
+            (d) => d.kind === "audiooutput" && d.deviceId === audioOutputDeviceId,
+        );
+    }
+
+    activeOutputDeviceId = available ? audioOutputDeviceId : null;
+    const applied = await (voiceService?.setAudioOutputDevice(activeOutputDeviceId) ?? Promise.resolve(true));
+    return available && applied;
+}
+
+// Plugging or unplugging a device: re-route output, then let the renderer refresh its lists
+navigator.mediaDevices.addEventListener("devicechange", async () => {
+    const outputAvailable = await applyAudioOutputDevice();
+    emit("audio-devices-changed", { outputAvailable });
+});
+
 /**
  * Creates a VoiceSignaling adapter that wraps Socket.io events
  * into Promise-based calls for the VoiceService.
@@ -102,20 +260,53 @@ const api = {
         return instanceId;
     },
 
+    /** The database user ID of the current session (empty when disconnected). */
+    getUserId(): string {
+        return userId;
+    },
+
     // ── Connection ──────────────────────────────────────────────────────────
 
-    async connect(host: string, port: number | undefined, nickname: string): Promise<void> {
+    /**
+     * Connects to a server. With `credentials` the user logs in (or registers)
+     * first; without them the client connects as a guest using its instance ID.
+     */
+    async connect(
+        host: string,
+        port: number | undefined,
+        nickname: string,
+        credentials?: Credentials,
+    ): Promise<void> {
         if (socket?.connected) {
             socket.disconnect();
         }
+        revokeSession();
 
-        // Ensure we have instance ID (should already be fetched eagerly)
-        if (!instanceId) {
-            instanceId = await ipcRenderer.invoke("get-instance-id");
+        const serverUrl = port ? `http://${host}:${port}` : `http://${host}`;
+        currentServerUrl = serverUrl;
+
+        let auth: SocketAuth;
+        if (credentials) {
+            const res = await authenticate(serverUrl, credentials, nickname);
+            if (!res.success || !res.token) {
+                emit("error", {
+                    code: "AUTH_FAILED",
+                    message: res.error ?? "Authentication failed",
+                });
+                return;
+            }
+            session = { serverUrl, token: res.token };
+            auth = { token: res.token };
+        } else {
+            // Ensure we have instance ID (should already be fetched eagerly)
+            if (!instanceId) {
+                instanceId = await ipcRenderer.invoke("get-instance-id");
+            }
+            auth = { instanceId };
         }
 
-        const serverUrl = port ? `http://${host}:${port}` : `http://${host}`;
         socket = io(serverUrl, {
+            auth,
             transports: ["websocket"],
             reconnection: true,
             reconnectionAttempts: 5,
@@ -123,19 +314,25 @@ const api = {
         }) as TypedSocket;
 
         // Initialize voice service with signaling adapter
-        voiceService = new VoiceService(createSignaling());
+        voiceService = createVoiceService();
 
         socket.on("connect", () => {
             // Join the server — let the server decide the serverId
             socket!.emit(
                 "USER_JOIN_SERVER",
-                { nickname, instanceId },
+                { nickname },
                 (res) => {
                     if (res.success && res.serverId) {
-                        emit("connected", { serverId: res.serverId, instanceId });
+                        userId = res.userId ?? "";
+                        emit("connected", {
+                            serverId: res.serverId,
+                            userId,
+                            nickname: res.nickname ?? nickname,
+                            isGuest: !credentials,
+                        });
                     } else {
                         emit("error", {
-                            code: "JOIN_FAILED",
+                            code: res.code ?? "JOIN_FAILED",
                             message: res.error ?? "Failed to join server",
                         });
                     }
@@ -145,6 +342,7 @@ const api = {
 
         socket.on("disconnect", (reason) => {
             voiceService?.cleanup();
+            userId = "";
             emit("disconnected", { reason });
         });
 
@@ -156,15 +354,49 @@ const api = {
         socket.on("USER_JOINED", (payload) => emit("user-joined", payload));
         socket.on("USER_LEFT", (payload) => emit("user-left", payload));
         socket.on("CHANNEL_TREE_UPDATE", (payload) => emit("channel-tree", payload));
+        socket.on("CHANNEL_ADDED", (payload) => emit("channel-added", payload));
+        socket.on("CHANNEL_UPDATED", (payload) => emit("channel-updated", payload));
+        socket.on("CHANNEL_REMOVED", (payload) => emit("channel-removed", payload));
+        socket.on("CHANNEL_JOIN_MESSAGE", (payload) => emit("channel-join-message", payload));
         socket.on("PRESENCE_UPDATE", (payload) => emit("presence", payload));
         socket.on("MESSAGE_RECEIVED", (payload) => emit("message", payload));
-        socket.on("CHANNEL_DELETED", (payload) => emit("channel-deleted", payload));
+        socket.on("MESSAGE_NOTIFICATION", (payload) => emit("message-notification", payload));
+        socket.on("MESSAGE_UPDATED", (payload) => emit("message-updated", payload));
+        socket.on("MESSAGE_DELETED", (payload) => emit("message-deleted", payload));
+        socket.on("REACTIONS_UPDATED", (payload) => emit("reactions-updated", payload));
+        socket.on("DIRECT_MESSAGE_RECEIVED", (payload) => emit("direct-message", payload));
         socket.on("ERROR", (payload) => emit("error", payload));
+        socket.on("USER_KICKED", (payload) => emit("user-kicked", payload));
+        socket.on("ROLES_UPDATED", (payload) => emit("roles-updated", payload));
+
+        // A moderator moved us: the server already switched our channel, so
+        // only the voice handshake has to be redone
+        socket.on("VOICE_MOVED", async (payload) => {
+            voiceService?.cleanup();
+            voiceService = createVoiceService();
+            try {
+                await voiceService.joinVoiceChannel(payload.channelId, !payload.canSpeak);
+                reportVoiceState();
+            } catch (err) {
+                console.error("[Reson8] Failed to reconnect voice after move:", err);
+            }
+            emit("voice-moved", payload);
+        });
 
         // Voice-specific events
         socket.on("NEW_PRODUCER", (payload) => {
             emit("new-producer", payload);
-            voiceService?.queueConsumeProducer(payload.producerId);
+            voiceService?.queueConsumeProducer(payload.producerId, payload.userId);
+        });
+
+        socket.on("ACTIVE_SPEAKERS", (payload) => emit("active-speakers", payload));
+
+        // An admin changed the channel's Opus settings — produce again with them
+        socket.on("CHANNEL_AUDIO_UPDATED", (payload) => {
+            if (voiceService?.currentChannelId !== payload.channelId) return;
+            voiceService.setChannelAudio(payload.audio).catch((err) => {
+                console.error("[Reson8] Failed to apply channel audio settings:", err);
+            });
         });
 
         socket.on("PRODUCER_CLOSED", (payload) => {
@@ -174,7 +406,7 @@ const api = {
 
         socket.on("EXISTING_PRODUCERS", (payload) => {
             for (const p of payload.producers) {
-                voiceService?.queueConsumeProducer(p.producerId);
+                voiceService?.queueConsumeProducer(p.producerId, p.userId);
             }
         });
     },
@@ -184,6 +416,7 @@ const api = {
         voiceService = null;
         socket?.disconnect();
         socket = null;
+        revokeSession();
     },
 
     on(event: string, callback: Callback): void {
@@ -197,25 +430,34 @@ const api = {
 
     async joinVoiceChannel(
         channelId: string,
-    ): Promise<{ success: boolean; error?: string }> {
+    ): Promise<{ success: boolean; canSpeak?: boolean; error?: string; code?: string }> {
         try {
             if (!voiceService || !socket?.connected) {
                 return { success: false, error: "Not connected" };
             }
 
             // First, join the channel via Socket.io so the server sets currentChannelId
-            const joinRes = await new Promise<{ success: boolean; error?: string }>(
-                (resolve) => {
-                    socket!.emit("USER_JOIN_CHANNEL", { channelId }, resolve);
-                },
-            );
+            const joinRes = await new Promise<{
+                success: boolean;
+                canSpeak?: boolean;
+                error?: string;
+                code?: string;
+            }>((resolve) => {
+                socket!.emit("USER_JOIN_CHANNEL", { channelId }, resolve);
+            });
             if (!joinRes.success) {
-                return { success: false, error: joinRes.error ?? "Failed to join channel" };
+                return {
+                    success: false,
+                    error: joinRes.error ?? "Failed to join channel",
+                    code: joinRes.code,
+                };
             }
 
-            // Now do the mediasoup voice handshake
-            await voiceService.joinVoiceChannel(channelId);
-            return { success: true };
+            // Now do the mediasoup voice handshake (receive-only without SPEAK)
+            const canSpeak = joinRes.canSpeak !== false;
+            await voiceService.joinVoiceChannel(channelId, !canSpeak);
+            reportVoiceState();
+            return { success: true, canSpeak };
         } catch (err: any) {
             return { success: false, error: err.message };
         }
@@ -238,20 +480,123 @@ const api = {
         voiceService?.cleanup();
         // Reinitialize voice service for next join
         if (socket?.connected) {
-            voiceService = new VoiceService(createSignaling());
+            voiceService = createVoiceService();
         }
     },
 
     toggleMute(): boolean {
-        return voiceService?.toggleMute() ?? false;
+        const muted = voiceService?.toggleMute() ?? false;
+        reportVoiceState();
+        return muted;
     },
 
     setMuted(muted: boolean): boolean {
-        return voiceService?.setMuted(muted) ?? false;
+        const result = voiceService?.setMuted(muted) ?? false;
+        reportVoiceState();
+        return result;
     },
 
     toggleDeafen(): boolean {
-        return voiceService?.toggleDeafen() ?? false;
+        const deafened = voiceService?.toggleDeafen() ?? false;
+        reportVoiceState();
+        return deafened;
+    },
+
+    /** Own mic level from 0 to 1, for the voice panel meter. */
+    getMicLevel(): number {
+        return voiceService?.micLevel ?? 0;
+    },
+
+    /** Sets another user's volume (0–2) and "mute for me" state. */
+    setUserAudio(targetUserId: string, settings: UserAudioSettings): void {
+        userAudio.set(targetUserId, { ...settings });
+        voiceService?.setUserAudio(targetUserId, settings);
+    },
+
+    /** Sets the master output volume (0–1). */
+    setMasterVolume(volume: number): void {
+        masterVolume = volume;
+        voiceService?.setMasterVolume(volume);
+    },
+
+    /** Switches voice activation on/off and updates its threshold, hold and release. */
+    setVoiceActivation(settings: VoiceActivationSettings): void {
+        voiceActivation = { ...settings };
+        voiceService?.setVoiceActivation(voiceActivation);
+    },
+
+    /**
+     * Starts capturing the mic for the calibration meter. Not needed (and
+     * skipped) while in voice, where the live session's level is used.
+     */
+    async startMicTest(deviceId: string | null): Promise<{ success: boolean; error?: string }> {
+        if (micTest || voiceService?.inputLevelDb != null) return { success: true };
+        try {
+            const constraints: MediaTrackConstraints = { ...audioProcessing };
+            if (deviceId) constraints.deviceId = { exact: deviceId };
+            const test = await MicTest.open(constraints, denoiserAssets);
+            if (micTest) {
+                // Started twice while getUserMedia was pending
+                test.close();
+                return { success: true };
+            }
+            micTest = test;
+            await test.configure(audioPipeline);
+            if (micTestLoopback) await test.setLoopback(true, activeOutputDeviceId ?? "");
+            return { success: true };
+        } catch (err: any) {
+            return { success: false, error: err.message };
+        }
+    },
+
+    stopMicTest(): void {
+        micTest?.close();
+        micTest = null;
+    },
+
+    /** Raw mic input level in dBFS (ignores mute), for calibration. */
+    getInputLevelDb(): number {
+        const live = voiceService?.inputLevelDb;
+        if (live != null) return live;
+        return micTest?.levelDb ?? MIN_LEVEL_DB;
+    },
+
+    /** Whether an RNNoise model is installed, i.e. the denoiser can be offered. */
+    isDenoiserAvailable(): boolean {
+        return denoiserAssets !== null;
+    },
+
+    /**
+     * Sets the processing chain (denoiser, gate, compressor, gain, limiter)
+     * for the current mic, live in voice and in the mic test. Resolves
+     * whether the denoiser is running, or null when no mic is open.
+     */
+    async setAudioPipeline(settings: AudioPipelineSettings): Promise<boolean | null> {
+        audioPipeline = structuredClone(settings);
+        if (voiceService?.isProducing) return voiceService.setAudioPipeline(audioPipeline);
+        voiceService?.setAudioPipeline(audioPipeline);
+        return micTest ? micTest.configure(audioPipeline) : null;
+    },
+
+    /** "Hear myself": plays the processed mic back on the output device. */
+    async setLoopback(enabled: boolean): Promise<void> {
+        micTestLoopback = enabled;
+        if (voiceService?.isProducing) {
+            await voiceService.setLoopback(enabled);
+            return;
+        }
+        await micTest?.setLoopback(enabled, activeOutputDeviceId ?? "");
+    },
+
+    /** Marks us away (or back) for everyone on the server. */
+    setAway(isAway: boolean): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("SET_AWAY", { isAway }, resolve);
+        });
     },
 
     // ── Audio Settings ──────────────────────────────────────────────────────
@@ -267,16 +612,52 @@ const api = {
         return { inputs, outputs };
     },
 
-    setAudioInputDevice(deviceId: string | null): void {
-        voiceService?.setAudioDeviceId(deviceId);
+    /**
+     * Sets the mic (null = system default), switching live while in voice.
+     * Resolves false if the device isn't available and the default is used.
+     */
+    setAudioInputDevice(deviceId: string | null): Promise<boolean> {
+        audioInputDeviceId = deviceId;
+        return voiceService?.setAudioDeviceId(deviceId) ?? Promise.resolve(true);
+    },
+
+    /** Toggles echo cancellation, noise suppression and AGC (live while in voice). */
+    setAudioProcessing(settings: AudioProcessingSettings): Promise<boolean> {
+        audioProcessing = { ...settings };
+        return voiceService?.setAudioProcessing(settings) ?? Promise.resolve(true);
+    },
+
+    /**
+     * Sets the speaker for all voice audio (null = system default).
+     * Resolves false if the device isn't available and the default is used.
+     */
+    setAudioOutputDevice(deviceId: string | null): Promise<boolean> {
+        audioOutputDeviceId = deviceId;
+        return applyAudioOutputDevice();
     },
 
     // ── Channel CRUD ────────────────────────────────────────────────────────
 
+    /** Fetches the full channel tree, for resyncing after a missed patch. */
+    getChannelTree(): Promise<{
+        success: boolean;
+        tree?: IChannelTreeNode[];
+        revision?: number;
+        error?: string;
+    }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("GET_CHANNEL_TREE", {}, resolve);
+        });
+    },
+
     createChannel(
         serverId: string,
         name: string,
-        type: "TEXT" | "VOICE",
+        type: "TEXT" | "VOICE" | "CATEGORY",
         parentId?: string | null,
     ): Promise<{ success: boolean; channelId?: string; error?: string }> {
         return new Promise((resolve) => {
@@ -292,6 +673,49 @@ const api = {
         });
     },
 
+    /**
+     * Edits a channel's name, position, topic, description, join message,
+     * user limit or voice Opus settings (MANAGE_CHANNELS).
+     */
+    updateChannel(
+        channelId: string,
+        changes: {
+            name?: string;
+            position?: number;
+            topic?: string | null;
+            description?: string | null;
+            joinMessage?: string | null;
+            maxUsers?: number | null;
+            audio?: Partial<IChannelAudioSettings>;
+        },
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("UPDATE_CHANNEL", { channelId, ...changes }, resolve);
+        });
+    },
+
+    /**
+     * Moves a channel under `newParentId` (null = root) at index
+     * `newPosition` among its new siblings (MANAGE_CHANNELS).
+     */
+    moveChannel(
+        channelId: string,
+        newParentId: string | null,
+        newPosition: number,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("CHANNEL_MOVED", { channelId, newParentId, newPosition }, resolve);
+        });
+    },
+
     deleteChannel(
         channelId: string,
     ): Promise<{ success: boolean; error?: string }> {
@@ -306,19 +730,76 @@ const api = {
 
     // ── Text Chat ────────────────────────────────────────────────────────
 
+    subscribeChannel(
+        channelId: string,
+    ): Promise<{ success: boolean; canManageMessages?: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("SUBSCRIBE_CHANNEL", { channelId }, resolve);
+        });
+    },
+
+    unsubscribeChannel(channelId: string): void {
+        if (socket?.connected) {
+            socket.emit("UNSUBSCRIBE_CHANNEL", { channelId });
+        }
+    },
+
     sendMessage(
         channelId: string,
         content: string,
+        replyToId?: string,
+        attachmentIds?: string[],
     ): Promise<{ success: boolean; messageId?: string }> {
         return new Promise((resolve) => {
             if (!socket?.connected) {
                 resolve({ success: false });
                 return;
             }
-            socket.emit("SEND_MESSAGE", { channelId, content }, resolve);
+            socket.emit("SEND_MESSAGE", { channelId, content, replyToId, attachmentIds }, resolve);
         });
     },
 
+    /**
+     * Uploads files to a channel over HTTP. The returned attachment IDs are
+     * then passed to `sendMessage`. Requires an account session.
+     */
+    async uploadAttachments(
+        channelId: string,
+        files: Array<{ name: string; type: string; data: ArrayBuffer }>,
+    ): Promise<IUploadResponse> {
+        if (!session) {
+            return { success: false, error: "Log in to upload files" };
+        }
+
+        const form = new FormData();
+        for (const file of files) {
+            form.append("files", new Blob([file.data], { type: file.type || "application/octet-stream" }), file.name);
+        }
+
+        try {
+            const res = await fetch(
+                `${session.serverUrl}/channels/${encodeURIComponent(channelId)}/attachments`,
+                {
+                    method: "POST",
+                    headers: { Authorization: `Bearer ${session.token}` },
+                    body: form,
+                },
+            );
+            return (await res.json()) as IUploadResponse;
+        } catch (err: any) {
+            return { success: false, error: err.message };
+        }
+    },
+
+    /** Resolves an attachment's server-relative URL to an absolute one. */
+    getAttachmentUrl(url: string, download = false): string {
+        return `${currentServerUrl}${url}${download ? "?download" : ""}`;
+    },
+
     fetchMessages(
         channelId: string,
         before?: string,
@@ -337,6 +818,201 @@ const api = {
         });
     },
 
+    /** Fetches a page of history centred on `messageId` (jump to a search result). */
+    fetchMessagesAround(
+        channelId: string,
+        messageId: string,
+        limit?: number,
+    ): Promise<{ success: boolean; messages?: IMessage[]; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit(
+                "FETCH_MESSAGES",
+                { channelId, around: messageId, limit },
+                resolve,
+            );
+        });
+    },
+
+    searchMessages(filters: {
+        query?: string;
+        author?: string;
+        channelId?: string;
+        after?: string;
+        before?: string;
+        limit?: number;
+        offset?: number;
+    }): Promise<{
+        success: boolean;
+        results?: IMessageSearchResult[];
+        hasMore?: boolean;
+        error?: string;
+    }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("SEARCH_MESSAGES", filters, resolve);
+        });
+    },
+
+    editMessage(
+        messageId: string,
+        content: string,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("EDIT_MESSAGE", { messageId, content }, resolve);
+        });
+    },
+
+    deleteMessage(
+        messageId: string,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("DELETE_MESSAGE", { messageId }, resolve);
+        });
+    },
+
+    addReaction(
+        messageId: string,
+        emoji: string,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("ADD_REACTION", { messageId, emoji }, resolve);
+        });
+    },
+
+    removeReaction(
+        messageId: string,
+        emoji: string,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("REMOVE_REACTION", { messageId, emoji }, resolve);
+        });
+    },
+
+    getMessageHistory(
+        messageId: string,
+    ): Promise<{
+        success: boolean;
+        content?: string;
+        deletedAt?: string | null;
+        revisions?: IMessageRevision[];
+        error?: string;
+    }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("GET_MESSAGE_HISTORY", { messageId }, resolve);
+        });
+    },
+
+    // ── Direct Messages ──────────────────────────────────────────────────
+
+    getConversations(): Promise<{
+        success: boolean;
+        conversations?: IConversation[];
+        error?: string;
+    }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("GET_CONVERSATIONS", {}, resolve);
+        });
+    },
+
+    /** Sends to an existing conversation, or to a set of recipients. */
+    sendDirectMessage(
+        target: { conversationId: string } | { recipientIds: string[] },
+        content: string,
+    ): Promise<{
+        success: boolean;
+        conversation?: IConversation;
+        message?: IDirectMessage;
+        error?: string;
+        code?: string;
+    }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("SEND_DIRECT_MESSAGE", { ...target, content }, resolve);
+        });
+    },
+
+    fetchDirectMessages(
+        conversationId: string,
+        before?: string,
+        limit?: number,
+    ): Promise<{ success: boolean; messages?: IDirectMessage[]; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("FETCH_DIRECT_MESSAGES", { conversationId, before, limit }, resolve);
+        });
+    },
+
+    blockUser(userId: string): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("BLOCK_USER", { userId }, resolve);
+        });
+    },
+
+    unblockUser(userId: string): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("UNBLOCK_USER", { userId }, resolve);
+        });
+    },
+
+    getBlockedUsers(): Promise<{
+        success: boolean;
+        users?: Array<{ userId: string; nickname: string }>;
+        error?: string;
+    }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("GET_BLOCKED_USERS", {}, resolve);
+        });
+    },
+
     // ── Admin / Role Management ──────────────────────────────────────────
 
     getAllUsers(
@@ -376,6 +1052,168 @@ const api = {
             socket.emit("ASSIGN_ROLE", { userId, roleId, action }, resolve);
         });
     },
+
+    createRole(role: {
+        name: string;
+        color?: string | null;
+        permissions: string;
+        powerLevel: number;
+    }): Promise<{ success: boolean; role?: any; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("CREATE_ROLE", role, resolve);
+        });
+    },
+
+    updateRole(
+        roleId: string,
+        changes: {
+            name?: string;
+            color?: string | null;
+            permissions?: string;
+            powerLevel?: number;
+        },
+    ): Promise<{ success: boolean; role?: any; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("UPDATE_ROLE", { roleId, ...changes }, resolve);
+        });
+    },
+
+    deleteRole(
+        roleId: string,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("DELETE_ROLE", { roleId }, resolve);
+        });
+    },
+
+    getChannelPermissions(
+        channelId: string,
+    ): Promise<{ success: boolean; overrides?: any[]; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("GET_CHANNEL_PERMISSIONS", { channelId }, resolve);
+        });
+    },
+
+    setChannelPermission(
+        channelId: string,
+        target: { roleId?: string; userId?: string },
+        allow: string,
+        deny: string,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("SET_CHANNEL_PERMISSION", { channelId, ...target, allow, deny }, resolve);
+        });
+    },
+
+    // ── Moderation ───────────────────────────────────────────────────────
+
+    kickUser(
+        userId: string,
+        reason?: string,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("KICK_USER", { userId, reason }, resolve);
+        });
+    },
+
+    banUser(
+        userId: string,
+        reason?: string,
+        durationMinutes?: number | null,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("BAN_USER", { userId, reason, durationMinutes }, resolve);
+        });
+    },
+
+    serverMuteUser(
+        userId: string,
+        muted: boolean,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("SERVER_MUTE_USER", { userId, muted }, resolve);
+        });
+    },
+
+    serverDeafenUser(
+        userId: string,
+        deafened: boolean,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("SERVER_DEAFEN_USER", { userId, deafened }, resolve);
+        });
+    },
+
+    moveUser(
+        userId: string,
+        channelId: string,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("MOVE_USER", { userId, channelId }, resolve);
+        });
+    },
+
+    unbanUser(
+        userId: string,
+    ): Promise<{ success: boolean; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("UNBAN_USER", { userId }, resolve);
+        });
+    },
+
+    getBans(): Promise<{ success: boolean; bans?: IBan[]; error?: string }> {
+        return new Promise((resolve) => {
+            if (!socket?.connected) {
+                resolve({ success: false, error: "Not connected" });
+                return;
+            }
+            socket.emit("GET_BANS", {}, resolve);
+        });
+    },
 };
 
 contextBridge.exposeInMainWorld("reson8Api", api);
@@ -383,3 +1221,7 @@ contextBridge.exposeInMainWorld("reson8Api", api);
 // ── PTT IPC from main process ─────────────────────────────────────────────
 ipcRenderer.on("ptt-pressed", () => emit("ptt-pressed", null));
 ipcRenderer.on("ptt-released", () => emit("ptt-released", null));
+
+// ── Idle detection from main process (auto-away) ──────────────────────────
+ipcRenderer.on("system-idle", () => emit("system-idle", null));
+ipcRenderer.on("system-active", () => emit("system-active", null));
@@ -14,31 +14,184 @@ interface ChatMessage {
     nickname: string;
     content: string;
     createdAt: string;
+    editedAt: string | null;
+    replyTo: { id: string; userId: string; nickname: string; content: string; deleted: boolean } | null;
+    reactions: ReactionSummary[];
+    attachments: ChatAttachment[];
+}
+
+interface ChatAttachment {
+    id: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+    url: string;
+}
+
+interface SearchFilters {
+    query?: string;
+    author?: string;
+    channelId?: string;
+    after?: string;
+    before?: string;
+    limit?: number;
+    offset?: number;
+}
+
+interface SearchResult {
+    message: ChatMessage;
+    snippet: Array<{ text: string; match: boolean }>;
+}
+
+interface ReactionSummary {
+    emoji: string;
+    count: number;
+    userIds: string[];
+}
+
+interface Conversation {
+    id: string;
+    members: Array<{ userId: string; nickname: string }>;
+    lastActivityAt: string;
+}
+
+interface DirectMessage {
+    id: string;
+    conversationId: string;
+    userId: string;
+    nickname: string;
+    content: string;
+    createdAt: string;
+}
+
+interface Credentials {
+    username: string;
+    password: string;
+    register?: boolean;
+}
+
+/** Mirrors UserAudioSettings in the voice service. */
+interface UserAudioSettings {
+    volume: number; // 0–2
+    muted: boolean; // muted just for us
+}
+
+/** Mirrors AudioProcessingSettings in the voice service. */
+interface AudioProcessingSettings {
+    echoCancellation: boolean;
+    noiseSuppression: boolean;
+    autoGainControl: boolean;
+}
+
+/** Mirrors IChannelAudioSettings — a channel's Opus settings. */
+interface ChannelAudioSettings {
+    maxBitrate: number; // bps
+    stereo: boolean;
+    ptime: number; // ms
+    fec: boolean;
+    dtx: boolean;
+}
+
+/** What UPDATE_CHANNEL can change; blank texts clear the field. */
+interface ChannelChanges {
+    name?: string;
+    position?: number;
+    topic?: string | null;
+    description?: string | null;
+    joinMessage?: string | null;
+    maxUsers?: number | null;
+    audio?: Partial<ChannelAudioSettings>;
+}
+
+/** Mirrors AudioPipelineSettings in the audio pipeline. */
+interface AudioPipelineSettings {
+    denoiser: boolean;
+    noiseGate: { enabled: boolean; thresholdDb: number };
+    compressor: { enabled: boolean; thresholdDb: number; ratio: number };
+    gainDb: number;
+    limiter: boolean;
+}
+
+/** Mirrors VoiceActivationSettings in the voice service. */
+interface VoiceActivationSettings {
+    enabled: boolean;
+    thresholdDb: number;
+    holdMs: number;
+    releaseMs: number;
 }
 
 interface Reson8Api {
     getInstanceId(): string;
-    connect(host: string, port: number | undefined, nickname: string): Promise<void>;
+    getUserId(): string;
+    connect(host: string, port: number | undefined, nickname: string, credentials?: Credentials): Promise<void>;
     disconnect(): void;
-    joinVoiceChannel(channelId: string): Promise<{ success: boolean; error?: string }>;
+    joinVoiceChannel(channelId: string): Promise<{ success: boolean; canSpeak?: boolean; error?: string; code?: string }>;
     leaveVoiceChannel(joiningNext?: boolean): void;
     toggleMute(): boolean;
     setMuted(muted: boolean): boolean;
     toggleDeafen(): boolean;
+    getMicLevel(): number;
+    setUserAudio(userId: string, settings: UserAudioSettings): void;
+    setMasterVolume(volume: number): void;
+    setVoiceActivation(settings: VoiceActivationSettings): void;
+    startMicTest(deviceId: string | null): Promise<{ success: boolean; error?: string }>;
+    stopMicTest(): void;
+    getInputLevelDb(): number;
+    setAway(isAway: boolean): Promise<{ success: boolean; error?: string }>;
     createChannel(
         serverId: string,
         name: string,
-        type: "TEXT" | "VOICE",
+        type: "TEXT" | "VOICE" | "CATEGORY",
         parentId?: string | null,
     ): Promise<{ success: boolean; channelId?: string; error?: string }>;
     deleteChannel(channelId: string): Promise<{ success: boolean; error?: string }>;
-    sendMessage(channelId: string, content: string): Promise<{ success: boolean; messageId?: string }>;
+    getChannelTree(): Promise<{ success: boolean; tree?: TreeNode[]; revision?: number; error?: string }>;
+    moveChannel(channelId: string, newParentId: string | null, newPosition: number): Promise<{ success: boolean; error?: string }>;
+    updateChannel(
+        channelId: string,
+        changes: ChannelChanges,
+    ): Promise<{ success: boolean; error?: string }>;
+    sendMessage(channelId: string, content: string, replyToId?: string, attachmentIds?: string[]): Promise<{ success: boolean; messageId?: string }>;
+    uploadAttachments(channelId: string, files: Array<{ name: string; type: string; data: ArrayBuffer }>): Promise<{ success: boolean; attachments?: ChatAttachment[]; error?: string }>;
+    getAttachmentUrl(url: string, download?: boolean): string;
     fetchMessages(channelId: string, before?: string, limit?: number): Promise<{ success: boolean; messages?: ChatMessage[]; error?: string }>;
+    fetchMessagesAround(channelId: string, messageId: string, limit?: number): Promise<{ success: boolean; messages?: ChatMessage[]; error?: string }>;
+    searchMessages(filters: SearchFilters): Promise<{ success: boolean; results?: SearchResult[]; hasMore?: boolean; error?: string }>;
+    subscribeChannel(channelId: string): Promise<{ success: boolean; canManageMessages?: boolean; error?: string }>;
+    unsubscribeChannel(channelId: string): void;
+    editMessage(messageId: string, content: string): Promise<{ success: boolean; error?: string }>;
+    deleteMessage(messageId: string): Promise<{ success: boolean; error?: string }>;
+    addReaction(messageId: string, emoji: string): Promise<{ success: boolean; error?: string }>;
+    removeReaction(messageId: string, emoji: string): Promise<{ success: boolean; error?: string }>;
+    getMessageHistory(messageId: string): Promise<{ success: boolean; content?: string; deletedAt?: string | null; revisions?: any[]; error?: string }>;
+    getConversations(): Promise<{ success: boolean; conversations?: Conversation[]; error?: string }>;
+    sendDirectMessage(target: { conversationId: string } | { recipientIds: string[] }, content: string): Promise<{ success: boolean; conversation?: Conversation; message?: DirectMessage; error?: string; code?: string }>;
+    fetchDirectMessages(conversationId: string, before?: string, limit?: number): Promise<{ success: boolean; messages?: DirectMessage[]; error?: string }>;
+    blockUser(userId: string): Promise<{ success: boolean; error?: string }>;
+    unblockUser(userId: string): Promise<{ success: boolean; error?: string }>;
+    getBlockedUsers(): Promise<{ success: boolean; users?: Array<{ userId: string; nickname: string }>; error?: string }>;
     getAllUsers(serverId: string): Promise<{ success: boolean; users?: any[]; error?: string }>;
     getRoles(serverId: string): Promise<{ success: boolean; roles?: any[]; error?: string }>;
     assignRole(userId: string, roleId: string, action: "add" | "remove"): Promise<{ success: boolean; error?: string }>;
+    createRole(role: { name: string; color?: string | null; permissions: string; powerLevel: number }): Promise<{ success: boolean; role?: any; error?: string }>;
+    updateRole(roleId: string, changes: { name?: string; color?: string | null; permissions?: string; powerLevel?: number }): Promise<{ success: boolean; role?: any; error?: string }>;
+    deleteRole(roleId: string): Promise<{ success: boolean; error?: string }>;
+    getChannelPermissions(channelId: string): Promise<{ success: boolean; overrides?: any[]; error?: string }>;
+    setChannelPermission(channelId: string, target: { roleId?: string; userId?: string }, allow: string, deny: string): Promise<{ success: boolean; error?: string }>;
+    kickUser(userId: string, reason?: string): Promise<{ success: boolean; error?: string }>;
+    serverMuteUser(userId: string, muted: boolean): Promise<{ success: boolean; error?: string }>;
+    serverDeafenUser(userId: string, deafened: boolean): Promise<{ success: boolean; error?: string }>;
+    moveUser(userId: string, channelId: string): Promise<{ success: boolean; error?: string }>;
+    banUser(userId: string, reason?: string, durationMinutes?: number | null): Promise<{ success: boolean; error?: string }>;
+    unbanUser(userId: string): Promise<{ success: boolean; error?: string }>;
+    getBans(): Promise<{ success: boolean; bans?: any[]; error?: string }>;
     enumerateAudioDevices(): Promise<{ inputs: { deviceId: string; label: string }[]; outputs: { deviceId: string; label: string }[] }>;
-    setAudioInputDevice(deviceId: string | null): void;
+    setAudioInputDevice(deviceId: string | null): Promise<boolean>;
+    setAudioProcessing(settings: AudioProcessingSettings): Promise<boolean>;
+    isDenoiserAvailable(): boolean;
+    setAudioPipeline(settings: AudioPipelineSettings): Promise<boolean | null>;
+    setLoopback(enabled: boolean): Promise<void>;
+    setAudioOutputDevice(deviceId: string | null): Promise<boolean>;
     on(event: string, callback: (...args: any[]) => void): void;
 }
 
@@ -48,16 +201,29 @@ const api = (window as any).reson8Api as Reson8Api;
 
 let isConnected = false;
 let currentServerId = "";
+let currentUserId = "";
 let currentChannelId: string | null = null;
 let isInVoice = false;
 let isMuted = false;
 let isDeafened = false;
+let isListenOnly = false; // joined voice without SPEAK permission
+let activeSpeakers: { channelId: string; userIds: Set<string> } | null = null; // from ACTIVE_SPEAKERS
+let micMeterTimer: ReturnType<typeof setInterval> | null = null;
 let isJoiningVoice = false;
 let isPttMode = false;
+let isAway = false;
+let isAutoAway = false; // away was set by system idle, so activity clears it
 
 // Store the current tree for parent selection in the modal
 let currentTree: any[] = [];
 
+// Tree patches are applied to this flat copy of the channels, at treeRevision;
+// the tree is rebuilt from it (see receiveTreePatch)
+const treeChannels = new Map<string, TreeChannel>();
+let treeRevision = 0;
+let isResyncingTree = false;
+let pendingTreePatches: TreePatch[] = [];
+
 // ── DOM Elements ──────────────────────────────────────────────────────────
 
 const serverUrlInput = document.getElementById("server-url") as HTMLInputElement;
@@ -71,18 +237,36 @@ const tabBar = document.getElementById("tab-bar") as HTMLDivElement;
 const tabContentArea = document.getElementById("tab-content-area") as HTMLDivElement;
 const chatInputBar = document.getElementById("chat-input-bar") as HTMLDivElement;
 const chatInput = document.getElementById("chat-input") as HTMLInputElement;
+const dmListTab = document.getElementById("tab-dm-list") as HTMLDivElement;
+const dmListEl = document.getElementById("dm-list") as HTMLDivElement;
 const btnSend = document.getElementById("btn-send") as HTMLButtonElement;
+const chatReplyIndicator = document.getElementById("chat-reply-indicator") as HTMLDivElement;
+const chatReplyText = document.getElementById("chat-reply-text") as HTMLSpanElement;
+const btnCancelReply = document.getElementById("btn-cancel-reply") as HTMLButtonElement;
+const btnAttach = document.getElementById("btn-attach") as HTMLButtonElement;
+const chatFileInput = document.getElementById("chat-file-input") as HTMLInputElement;
+const chatPendingFiles = document.getElementById("chat-pending-files") as HTMLDivElement;
 
 const voicePanel = document.getElementById("voice-panel") as HTMLDivElement;
 const voiceChannelName = document.getElementById("voice-channel-name") as HTMLSpanElement;
+const voiceChannelTopic = document.getElementById("voice-channel-topic") as HTMLDivElement;
 const btnMute = document.getElementById("btn-mute") as HTMLButtonElement;
 const btnDeafen = document.getElementById("btn-deafen") as HTMLButtonElement;
 const btnLeaveVoice = document.getElementById("btn-leave-voice") as HTMLButtonElement;
+const micMeterFill = document.getElementById("mic-meter-fill") as HTMLDivElement;
+const occupantMenu = document.getElementById("occupant-menu") as HTMLDivElement;
+const occupantMenuName = document.getElementById("occupant-menu-name") as HTMLDivElement;
+const occupantVolume = document.getElementById("occupant-volume") as HTMLInputElement;
+const occupantVolumeValue = document.getElementById("occupant-volume-value") as HTMLSpanElement;
+const occupantLocalMute = document.getElementById("occupant-local-mute") as HTMLInputElement;
+const occupantMenuMessage = document.getElementById("occupant-menu-message") as HTMLButtonElement;
+const occupantMenuModerate = document.getElementById("occupant-menu-moderate") as HTMLButtonElement;
 
 const statusDot = document.getElementById("status-dot") as HTMLSpanElement;
 const statusText = document.getElementById("status-text") as HTMLSpanElement;
 const statusInstance = document.getElementById("status-instance") as HTMLSpanElement;
 const btnCopyId = document.getElementById("btn-copy-id") as HTMLButtonElement;
+const btnAway = document.getElementById("btn-away") as HTMLButtonElement;
 
 // Show instance ID immediately on page load
 setTimeout(() => {
@@ -90,9 +274,9 @@ setTimeout(() => {
     if (id) statusInstance.textContent = `ID: ${id}`;
 }, 100);
 
-// Copy instance ID to clipboard
+// Copy user ID (or instance ID before connecting) to clipboard
 btnCopyId.addEventListener("click", () => {
-    const id = api.getInstanceId();
+    const id = currentUserId || api.getInstanceId();
     if (id) {
         // Use a hidden textarea to copy (Electron renderer doesn't support navigator.clipboard)
         const textarea = document.createElement("textarea");
@@ -108,6 +292,15 @@ btnCopyId.addEventListener("click", () => {
     }
 });
 
+const loginModal = document.getElementById("login-modal") as HTMLDivElement;
+const loginUsername = document.getElementById("login-username") as HTMLInputElement;
+const loginPassword = document.getElementById("login-password") as HTMLInputElement;
+const loginError = document.getElementById("login-error") as HTMLDivElement;
+const btnLoginCancel = document.getElementById("btn-login-cancel") as HTMLButtonElement;
+const btnLoginGuest = document.getElementById("btn-login-guest") as HTMLButtonElement;
+const btnLoginRegister = document.getElementById("btn-login-register") as HTMLButtonElement;
+const btnLoginSubmit = document.getElementById("btn-login-submit") as HTMLButtonElement;
+
 const btnCreateChannel = document.getElementById("btn-create-channel") as HTMLButtonElement;
 const createChannelModal = document.getElementById("create-channel-modal") as HTMLDivElement;
 const newChannelName = document.getElementById("new-channel-name") as HTMLInputElement;
@@ -121,12 +314,67 @@ const deleteChannelNameEl = document.getElementById("delete-channel-name") as HT
 const btnDeleteCancel = document.getElementById("btn-delete-cancel") as HTMLButtonElement;
 const btnDeleteConfirm = document.getElementById("btn-delete-confirm") as HTMLButtonElement;
 
+const channelMenu = document.getElementById("channel-menu") as HTMLDivElement;
+const channelMenuName = document.getElementById("channel-menu-name") as HTMLDivElement;
+const channelMenuSettings = document.getElementById("channel-menu-settings") as HTMLButtonElement;
+const channelMenuDelete = document.getElementById("channel-menu-delete") as HTMLButtonElement;
+
+const channelSettingsModal = document.getElementById("channel-settings-modal") as HTMLDivElement;
+const channelSettingsName = document.getElementById("channel-settings-name") as HTMLSpanElement;
+const channelTopicInput = document.getElementById("channel-topic") as HTMLInputElement;
+const channelDescriptionInput = document.getElementById("channel-description") as HTMLTextAreaElement;
+const channelSettingsVoice = document.getElementById("channel-settings-voice") as HTMLDivElement;
+const channelJoinMessageInput = document.getElementById("channel-join-message") as HTMLTextAreaElement;
+const channelMaxUsersInput = document.getElementById("channel-max-users") as HTMLInputElement;
+const channelSettingsAudio = document.getElementById("channel-settings-audio") as HTMLDivElement;
+const channelAudioBitrate = document.getElementById("channel-audio-bitrate") as HTMLInputElement;
+const channelAudioPtime = document.getElementById("channel-audio-ptime") as HTMLSelectElement;
+const channelAudioStereo = document.getElementById("channel-audio-stereo") as HTMLInputElement;
+const channelAudioFec = document.getElementById("channel-audio-fec") as HTMLInputElement;
+const channelAudioDtx = document.getElementById("channel-audio-dtx") as HTMLInputElement;
+const btnChannelSettingsCancel = document.getElementById("btn-channel-settings-cancel") as HTMLButtonElement;
+const btnChannelSettingsSave = document.getElementById("btn-channel-settings-save") as HTMLButtonElement;
+
 // Admin modal
 const btnServerSettings = document.getElementById("btn-server-settings") as HTMLButtonElement;
 const adminModal = document.getElementById("admin-modal") as HTMLDivElement;
 const adminUserList = document.getElementById("admin-user-list") as HTMLDivElement;
 const btnAdminClose = document.getElementById("btn-admin-close") as HTMLButtonElement;
 const settingsTabRoles = document.getElementById("settings-tab-roles") as HTMLButtonElement;
+const settingsTabBans = document.getElementById("settings-tab-bans") as HTMLButtonElement;
+const adminRoleList = document.getElementById("admin-role-list") as HTMLDivElement;
+const btnNewRole = document.getElementById("btn-new-role") as HTMLButtonElement;
+const roleEditor = document.getElementById("role-editor") as HTMLDivElement;
+const roleNameInput = document.getElementById("role-name-input") as HTMLInputElement;
+const roleColorInput = document.getElementById("role-color-input") as HTMLInputElement;
+const rolePowerInput = document.getElementById("role-power-input") as HTMLInputElement;
+const roleFlagList = document.getElementById("role-flag-list") as HTMLDivElement;
+const btnRoleDelete = document.getElementById("btn-role-delete") as HTMLButtonElement;
+const btnRoleCancel = document.getElementById("btn-role-cancel") as HTMLButtonElement;
+const btnRoleSave = document.getElementById("btn-role-save") as HTMLButtonElement;
+const settingsTabChannelPerms = document.getElementById("settings-tab-channel-perms") as HTMLButtonElement;
+const channelPermChannel = document.getElementById("channel-perm-channel") as HTMLSelectElement;
+const channelPermTarget = document.getElementById("channel-perm-target") as HTMLSelectElement;
+const channelPermFlags = document.getElementById("channel-perm-flags") as HTMLDivElement;
+const btnChannelPermClear = document.getElementById("btn-channel-perm-clear") as HTMLButtonElement;
+const btnChannelPermSave = document.getElementById("btn-channel-perm-save") as HTMLButtonElement;
+const adminBanList = document.getElementById("admin-ban-list") as HTMLDivElement;
+
+// Moderation modal
+const moderateUserModal = document.getElementById("moderate-user-modal") as HTMLDivElement;
+const moderateUserName = document.getElementById("moderate-user-name") as HTMLElement;
+const moderateReason = document.getElementById("moderate-reason") as HTMLInputElement;
+const moderateBanDuration = document.getElementById("moderate-ban-duration") as HTMLSelectElement;
+const btnModerateCancel = document.getElementById("btn-moderate-cancel") as HTMLButtonElement;
+const btnModerateKick = document.getElementById("btn-moderate-kick") as HTMLButtonElement;
+const btnModerateBan = document.getElementById("btn-moderate-ban") as HTMLButtonElement;
+const btnModerateMessage = document.getElementById("btn-moderate-message") as HTMLButtonElement;
+const btnModerateBlock = document.getElementById("btn-moderate-block") as HTMLButtonElement;
+const moderateVoiceSection = document.getElementById("moderate-voice-section") as HTMLDivElement;
+const moderateMoveChannel = document.getElementById("moderate-move-channel") as HTMLSelectElement;
+const btnModerateMove = document.getElementById("btn-moderate-move") as HTMLButtonElement;
+const btnModerateServerMute = document.getElementById("btn-moderate-server-mute") as HTMLButtonElement;
+const btnModerateServerDeafen = document.getElementById("btn-moderate-server-deafen") as HTMLButtonElement;
 
 // Audio device selects (inside settings modal voice tab)
 const audioInputSelect = document.getElementById("audio-input-select") as HTMLSelectElement;
@@ -137,18 +385,68 @@ const voiceDeviceUnsaved = document.getElementById("voice-device-unsaved") as HT
 // State for pending delete
 let pendingDeleteChannelId: string | null = null;
 
+// State for the moderation modal target
+let pendingModerationTarget: { userId: string; nickname: string } | null = null;
+
 // State for tabs: map of channelId → { tabEl, contentEl, messagesEl }
 interface ChatTab {
     channelId: string;
     channelName: string;
     tabEl: HTMLDivElement;
     contentEl: HTMLDivElement;
+    /** Channel topic above the messages. */
+    headerEl: HTMLDivElement;
     messagesEl: HTMLDivElement;
     loaded: boolean;
+    /** Whether we may delete others' messages and view edit history here. */
+    canManageMessages: boolean;
+    /** Showing older history around a search result instead of the live tail. */
+    viewingContext: boolean;
 }
 const chatTabs = new Map<string, ChatTab>();
+
+// Direct message tabs, keyed by tab ID: `dm:{conversationId}`, or
+// `dm:new:{userId}` for a draft whose conversation doesn't exist yet
+interface DmTab {
+    conversation: Conversation | null;
+    /** Set on draft tabs only. */
+    recipient: { userId: string; nickname: string } | null;
+    tabEl: HTMLDivElement;
+    contentEl: HTMLDivElement;
+    messagesEl: HTMLDivElement;
+    loaded: boolean;
+}
+const dmTabs = new Map<string, DmTab>();
+let conversations: Conversation[] = []; // most recently active first
+const unreadConversations = new Set<string>(); // conversations with no open tab
+let blockedUsers: Array<{ userId: string; nickname: string }> = [];
+// Unread messages in text channels we have no tab open for
+const unreadChannels = new Map<string, { count: number; mentions: number }>();
 let activeTabId = "server-log"; // default active tab
+let replyingTo: ChatMessage | null = null; // message quoted by the next send
+let pendingFiles: File[] = []; // files attached to the next send
 let allServerRoles: any[] = []; // cached roles for the admin panel
+let editingRoleId: string | null = null; // role open in the editor (null = new role)
+let allServerUsers: any[] = []; // cached users for the channel permissions panel
+let channelPermOverrides: any[] = []; // overrides on the channel selected in the permissions panel
+
+/** Permission bits shown in the role editor — mirrors PermissionFlags in shared-types. */
+const PERMISSION_FLAGS: Array<{ bit: number; label: string }> = [
+    { bit: 1 << 0, label: "Connect" },
+    { bit: 1 << 1, label: "Speak" },
+    { bit: 1 << 2, label: "Send Messages" },
+    { bit: 1 << 3, label: "Create Channels" },
+    { bit: 1 << 4, label: "Manage Channels" },
+    { bit: 1 << 5, label: "Manage Roles" },
+    { bit: 1 << 6, label: "Kick Users" },
+    { bit: 1 << 7, label: "Ban Users" },
+    { bit: 1 << 8, label: "Administrator" },
+    { bit: 1 << 9, label: "Manage Messages" },
+    { bit: 1 << 10, label: "Attach Files" },
+    { bit: 1 << 11, label: "Mute Members" },
+    { bit: 1 << 12, label: "Deafen Members" },
+    { bit: 1 << 13, label: "Move Members" },
+];
 
 // ── Logging ───────────────────────────────────────────────────────────────
 
@@ -179,16 +477,54 @@ function parseServerUrl(raw: string): { host: string; port: number | undefined }
 }
 
 btnConnect.addEventListener("click", () => {
-    const { host, port } = parseServerUrl(serverUrlInput.value);
-    const nickname = nicknameInput.value.trim() || "User";
-
+    const { host } = parseServerUrl(serverUrlInput.value);
     if (!host) {
         log("Please enter a server URL", "error");
         return;
     }
 
-    log(`Connecting to ${host}${port ? `:${port}` : ""} as "${nickname}"...`, "info");
-    api.connect(host, port, nickname);
+    loginUsername.value = localStorage.getItem("reson8-username") || "";
+    loginPassword.value = "";
+    loginError.textContent = "";
+    loginModal.classList.add("visible");
+    (loginUsername.value ? loginPassword : loginUsername).focus();
+});
+
+/** Connects with the given credentials, or as a guest when omitted. */
+function connectWith(credentials?: Credentials): void {
+    const { host, port } = parseServerUrl(serverUrlInput.value);
+    const nickname = nicknameInput.value.trim() || credentials?.username || "User";
+
+    if (credentials) {
+        if (!credentials.username || !credentials.password) {
+            loginError.textContent = "Enter a username and password";
+            return;
+        }
+        localStorage.setItem("reson8-username", credentials.username);
+    }
+
+    loginModal.classList.remove("visible");
+    const as = credentials ? credentials.username : `"${nickname}" (guest)`;
+    log(`Connecting to ${host}${port ? `:${port}` : ""} as ${escapeHtml(as)}...`, "info");
+    api.connect(host, port, nickname, credentials);
+}
+
+btnLoginSubmit.addEventListener("click", () => {
+    connectWith({ username: loginUsername.value.trim(), password: loginPassword.value });
+});
+
+btnLoginRegister.addEventListener("click", () => {
+    connectWith({ username: loginUsername.value.trim(), password: loginPassword.value, register: true });
+});
+
+btnLoginGuest.addEventListener("click", () => connectWith());
+
+btnLoginCancel.addEventListener("click", () => {
+    loginModal.classList.remove("visible");
+});
+
+loginPassword.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") btnLoginSubmit.click();
 });
 
 btnDisconnect.addEventListener("click", () => {
@@ -197,15 +533,39 @@ btnDisconnect.addEventListener("click", () => {
 
 // ── Channel Tree Rendering ────────────────────────────────────────────────
 
+interface Occupant {
+    userId: string;
+    nickname: string;
+    isMuted: boolean;
+    isDeafened: boolean;
+    isAway: boolean;
+    isServerMuted: boolean;
+    isServerDeafened: boolean;
+}
+
 interface TreeNode {
     id: string;
     name: string;
-    type: "TEXT" | "VOICE";
+    type: "TEXT" | "VOICE" | "CATEGORY";
     parentId: string | null;
+    position: number;
+    maxUsers: number | null;
+    topic: string | null;
+    description: string | null;
+    joinMessage: string | null;
+    audio: ChannelAudioSettings;
     children: TreeNode[];
-    occupants: { userId: string; nickname: string }[];
+    occupants: Occupant[];
 }
 
+/** A channel without its tree links, as sent in tree patches. */
+type TreeChannel = Omit<TreeNode, "children" | "occupants">;
+
+type TreePatch =
+    | { kind: "added"; revision: number; channel: TreeChannel }
+    | { kind: "updated"; revision: number; channels: TreeChannel[] }
+    | { kind: "removed"; revision: number; channelId: string };
+
 function renderTree(tree: TreeNode[]): void {
     currentTree = tree;
     channelTree.innerHTML = "";
@@ -220,45 +580,81 @@ function renderTree(tree: TreeNode[]): void {
     }
 
     for (const node of tree) {
-        if (node.children.length > 0) {
-            // This node has children — render as a category
-            channelTree.appendChild(renderCategory(node));
-        } else {
-            // Leaf channel at root level
-            channelTree.appendChild(renderChannel(node));
-            renderOccupants(channelTree, node);
-        }
+        renderNode(channelTree, node);
     }
 
     updateParentSelect(tree);
+    updateChannelHeaders();
+}
+
+/** Shows channel topics atop open chat tabs and in the voice panel. */
+function updateChannelHeaders(): void {
+    for (const tab of chatTabs.values()) {
+        setChannelHeader(tab.headerEl, findNode(currentTree, tab.channelId));
+    }
+    const voiceChannel = isInVoice && currentChannelId ? findNode(currentTree, currentChannelId) : null;
+    setChannelHeader(voiceChannelTopic, voiceChannel);
+}
+
+/** Fills a header with a channel's topic, with its description as the tooltip. */
+function setChannelHeader(el: HTMLElement, node: TreeNode | null): void {
+    const topic = node?.topic ?? (node?.description ? "ℹ About this channel" : "");
+    el.textContent = topic;
+    el.title = node?.description ?? "";
+    el.style.display = topic ? "" : "none";
+}
+
+/** Renders a category, or a channel with its occupants and sub-channels. */
+function renderNode(container: HTMLElement, node: TreeNode): void {
+    if (node.type === "CATEGORY") {
+        container.appendChild(renderCategory(node));
+        return;
+    }
+
+    container.appendChild(renderChannel(node));
+    renderOccupants(container, node);
+
+    if (node.children.length > 0) {
+        const children = document.createElement("div");
+        children.className = "tree-children sub-channels";
+        for (const child of node.children) renderNode(children, child);
+        container.appendChild(children);
+    }
 }
 
+/** Categories the user has collapsed — kept across tree updates and restarts. */
+const collapsedCategories = new Set<string>((() => {
+    try {
+        return JSON.parse(localStorage.getItem("reson8-collapsed-categories") ?? "[]") as string[];
+    } catch {
+        return []; // ignore corrupt data
+    }
+})());
+
 function renderCategory(node: TreeNode): HTMLDivElement {
     const category = document.createElement("div");
     category.className = "tree-category";
+    category.classList.toggle("collapsed", collapsedCategories.has(node.id));
 
     const label = document.createElement("div");
     label.className = "tree-category-label";
     label.innerHTML = `<span class="arrow">▾</span> ${escapeHtml(node.name)}`;
     label.addEventListener("click", () => {
-        category.classList.toggle("collapsed");
+        const collapsed = category.classList.toggle("collapsed");
+        if (collapsed) collapsedCategories.add(node.id);
+        else collapsedCategories.delete(node.id);
+        localStorage.setItem("reson8-collapsed-categories", JSON.stringify([...collapsedCategories]));
+    });
+    label.addEventListener("contextmenu", (e) => {
+        e.preventDefault();
+        showChannelMenu(node, e.clientX, e.clientY);
     });
+    enableChannelDrag(label, node);
     category.appendChild(label);
 
     const children = document.createElement("div");
     children.className = "tree-children";
-
-    for (const child of node.children) {
-        if (child.children.length > 0) {
-            children.appendChild(renderCategory(child));
-        } else {
-            children.appendChild(renderChannel(child));
-            renderOccupants(children, child);
-        }
-    }
-
-    // Also render the category itself as a joinable channel if it's a voice channel
-    // (categories can also be voice channels that users can join)
+    for (const child of node.children) renderNode(children, child);
 
     category.appendChild(children);
     return category;
@@ -276,34 +672,213 @@ function renderChannel(node: TreeNode): HTMLDivElement {
     const icon = isVoice ? "🔊" : "💬";
 
     const count = node.occupants.length;
-    const countBadge = count > 0 ? `<span class="ch-count">${count}</span>` : "";
+    const isFull = node.maxUsers !== null && count >= node.maxUsers;
+    let countBadge = "";
+    if (node.maxUsers !== null) {
+        countBadge = `<span class="ch-count${isFull ? " full" : ""}"${isFull ? ' title="Channel is full"' : ""}>${count}/${node.maxUsers}</span>`;
+    } else if (count > 0) {
+        countBadge = `<span class="ch-count">${count}</span>`;
+    }
+    if (isFull) {
+        channel.classList.add("full");
+    }
+
+    // Unread badge for text channels without an open tab
+    const unread = unreadChannels.get(node.id);
+    const unreadBadge = unread
+        ? `<span class="ch-unread${unread.mentions > 0 ? " mention" : ""}" title="${unread.count} unread${unread.mentions > 0 ? `, ${unread.mentions} mention(s)` : ""}">${unread.mentions > 0 ? "@" : unread.count}</span>`
+        : "";
+
+    // Mark the channel we're in when we can only listen there
+    const listenOnlyBadge = isInVoice && isListenOnly && currentChannelId === node.id
+        ? '<span class="ch-listen-only" title="Listen-only — you cannot speak in this channel">🎧</span>'
+        : "";
 
     channel.innerHTML = `
         <span class="ch-icon ${iconClass}">${icon}</span>
         <span class="ch-name">${escapeHtml(node.name)}</span>
+        ${listenOnlyBadge}
+        ${unreadBadge}
         ${countBadge}
     `;
+    if (node.topic) channel.title = node.topic;
 
     channel.addEventListener("click", () => handleChannelClick(node));
 
-    // Right-click to delete
+    // Right-click for channel settings and deletion
     channel.addEventListener("contextmenu", (e) => {
         e.preventDefault();
-        showDeleteModal(node.id, node.name);
+        showChannelMenu(node, e.clientX, e.clientY);
     });
 
+    enableChannelDrag(channel, node);
+
     return channel;
 }
 
+// ── Channel Drag-and-Drop ─────────────────────────────────────────────────
+
+type DropZone = "before" | "after" | "inside";
+
+/** The channel being dragged, if any. */
+let draggedChannelId: string | null = null;
+
+/** Finds a channel's parent and index among its siblings in the current tree. */
+function findTreeLocation(
+    nodes: TreeNode[],
+    channelId: string,
+    parentId: string | null = null,
+): { node: TreeNode; parentId: string | null; index: number } | null {
+    for (let index = 0; index < nodes.length; index++) {
+        const node = nodes[index];
+        if (node.id === channelId) return { node, parentId, index };
+        const found = findTreeLocation(node.children, channelId, node.id);
+        if (found) return found;
+    }
+    return null;
+}
+
+/** Top and bottom quarters drop beside the target, the middle nests inside it. */
+function getDropZone(el: HTMLElement, clientY: number): DropZone {
+    const { top, height } = el.getBoundingClientRect();
+    const offset = (clientY - top) / height;
+    if (offset < 0.25) return "before";
+    if (offset > 0.75) return "after";
+    return "inside";
+}
+
+function clearDropIndicators(): void {
+    channelTree.querySelectorAll(".drop-before, .drop-after, .drop-inside, .dragging").forEach((el) => {
+        el.classList.remove("drop-before", "drop-after", "drop-inside", "dragging");
+    });
+}
+
+/** Sends the move; the server renumbers siblings and broadcasts the new tree. */
+async function moveChannelTo(channelId: string, newParentId: string | null, newPosition: number): Promise<void> {
+    const result = await api.moveChannel(channelId, newParentId, newPosition);
+    if (!result.success) log(`Failed to move channel: ${result.error}`, "error");
+}
+
+/** Makes a tree row draggable and a drop target for other channels. */
+function enableChannelDrag(el: HTMLElement, node: TreeNode): void {
+    el.draggable = true;
+
+    el.addEventListener("dragstart", (e) => {
+        draggedChannelId = node.id;
+        e.dataTransfer?.setData("text/plain", node.id);
+        if (e.dataTransfer) e.dataTransfer.effectAllowed = "move";
+        el.classList.add("dragging");
+        e.stopPropagation();
+    });
+
+    el.addEventListener("dragend", () => {
+        draggedChannelId = null;
+        clearDropIndicators();
+    });
+
+    el.addEventListener("dragover", (e) => {
+        if (!draggedChannelId || draggedChannelId === node.id) return;
+        e.preventDefault();
+        e.stopPropagation();
+        const zone = getDropZone(el, e.clientY);
+        el.classList.toggle("drop-before", zone === "before");
+        el.classList.toggle("drop-after", zone === "after");
+        el.classList.toggle("drop-inside", zone === "inside");
+    });
+
+    el.addEventListener("dragleave", () => {
+        el.classList.remove("drop-before", "drop-after", "drop-inside");
+    });
+
+    el.addEventListener("drop", (e) => {
+        if (!draggedChannelId || draggedChannelId === node.id) return;
+        e.preventDefault();
+        e.stopPropagation();
+        const channelId = draggedChannelId;
+        const zone = getDropZone(el, e.clientY);
+        draggedChannelId = null;
+        clearDropIndicators();
+
+        const target = findTreeLocation(currentTree, node.id);
+        const dragged = findTreeLocation(currentTree, channelId);
+        if (!target || !dragged) return;
+
+        if (zone === "inside") {
+            moveChannelTo(channelId, node.id, node.children.length);
+            return;
+        }
+
+        // Positions are indexes among the siblings once the channel is taken out
+        let index = zone === "before" ? target.index : target.index + 1;
+        if (dragged.parentId === target.parentId && dragged.index < index) index--;
+        moveChannelTo(channelId, target.parentId, index);
+    });
+}
+
+// Dropping on empty space below the tree moves the channel to the end of the root
+channelTree.addEventListener("dragover", (e) => {
+    if (draggedChannelId) e.preventDefault();
+});
+
+channelTree.addEventListener("drop", (e) => {
+    if (!draggedChannelId) return;
+    e.preventDefault();
+    const channelId = draggedChannelId;
+    draggedChannelId = null;
+    clearDropIndicators();
+    moveChannelTo(channelId, null, currentTree.length);
+});
+
 function renderOccupants(container: HTMLElement, node: TreeNode): void {
     for (const occ of node.occupants) {
         const el = document.createElement("div");
         el.className = "tree-occupant";
-        el.innerHTML = `<span class="occ-dot"></span>${escapeHtml(occ.nickname)}`;
+        el.dataset.channelId = node.id;
+        el.dataset.userId = occ.userId;
+        el.classList.toggle("away", occ.isAway);
+        el.classList.toggle("speaking", isSpeaking(node.id, occ.userId));
+
+        // Deafened implies not hearing anything, so it takes precedence over
+        // muted; a moderator's restriction over the user's own
+        const voiceIcon = occ.isServerDeafened
+            ? '<span class="occ-icon server" title="Server deafened">🙉</span>'
+            : occ.isDeafened
+                ? '<span class="occ-icon" title="Deafened">🙉</span>'
+                : occ.isServerMuted
+                    ? '<span class="occ-icon server" title="Server muted">🔇</span>'
+                    : occ.isMuted
+                        ? '<span class="occ-icon" title="Muted">🔇</span>'
+                        : "";
+        const awayIcon = occ.isAway ? '<span class="occ-icon" title="Away">💤</span>' : "";
+        const localMuteIcon = userAudio[occ.userId]?.muted
+            ? '<span class="occ-icon" title="Muted for you">🔕</span>'
+            : "";
+        el.innerHTML = `<span class="occ-dot"></span><span class="occ-name">${escapeHtml(occ.nickname)}</span>${voiceIcon}${localMuteIcon}${awayIcon}`;
+
+        // Right-click another user for volume, messaging and moderation, double-click to message them
+        if (occ.userId !== currentUserId) {
+            el.addEventListener("contextmenu", (e) => {
+                e.preventDefault();
+                showOccupantMenu(occ.userId, occ.nickname, e.clientX, e.clientY);
+            });
+            el.addEventListener("dblclick", () => openDmWith(occ.userId, occ.nickname));
+        }
+
         container.appendChild(el);
     }
 }
 
+function isSpeaking(channelId: string, userId: string): boolean {
+    return activeSpeakers?.channelId === channelId && activeSpeakers.userIds.has(userId);
+}
+
+/** Re-applies the speaking highlight without re-rendering the tree. */
+function updateSpeakingHighlights(): void {
+    channelTree.querySelectorAll<HTMLElement>(".tree-occupant").forEach((el) => {
+        el.classList.toggle("speaking", isSpeaking(el.dataset.channelId ?? "", el.dataset.userId ?? ""));
+    });
+}
+
 function updateParentSelect(tree: TreeNode[]): void {
     newChannelParent.innerHTML = '<option value="">— None (root) —</option>';
     addParentOptions(tree, 0);
@@ -326,7 +901,7 @@ function addParentOptions(nodes: TreeNode[], depth: number): void {
 // ── Channel Interaction ───────────────────────────────────────────────────
 
 async function handleChannelClick(node: TreeNode): Promise<void> {
-    if (!isConnected) return;
+    if (!isConnected || node.type === "CATEGORY") return;
 
     if (node.type === "VOICE") {
         // If already in this voice channel, do nothing
@@ -352,6 +927,7 @@ async function handleChannelClick(node: TreeNode): Promise<void> {
 
         if (result.success) {
             isInVoice = true;
+            isListenOnly = result.canSpeak === false;
             isDeafened = false;
             // If PTT Mode is on, force-mute the mic immediately on join
             if (isPttMode) {
@@ -361,7 +937,7 @@ async function handleChannelClick(node: TreeNode): Promise<void> {
                 isMuted = false;
             }
             updateVoiceUI(node.name);
-            log(`Joined voice channel: ${node.name}`, "success");
+            log(`Joined voice channel: ${escapeHtml(node.name)}${isListenOnly ? " (listen-only)" : ""}`, "success");
         } else {
             log(`Failed to join voice: ${result.error}`, "error");
             currentChannelId = null;
@@ -394,13 +970,30 @@ function updateVoiceUI(channelName?: string): void {
         if (channelName) {
             voiceChannelName.textContent = `Voice: ${channelName}`;
         }
-        btnMute.textContent = isMuted ? "🔇 Unmute" : "🎤 Mute";
-        btnMute.classList.toggle("active", isMuted);
+        btnMute.textContent = isListenOnly ? "🎧 Listen-only" : isMuted ? "🔇 Unmute" : "🎤 Mute";
+        btnMute.classList.toggle("active", isMuted && !isListenOnly);
+        btnMute.disabled = isListenOnly;
         btnDeafen.textContent = isDeafened ? "🔇 Undeafen" : "🔊 Deafen";
         btnDeafen.classList.toggle("active", isDeafened);
     } else {
         voicePanel.classList.remove("visible");
     }
+    updateChannelHeaders();
+    updateMicMeter();
+}
+
+/** Polls our own mic level into the voice panel meter while we can speak. */
+function updateMicMeter(): void {
+    const active = isInVoice && !isListenOnly;
+    if (active && !micMeterTimer) {
+        micMeterTimer = setInterval(() => {
+            micMeterFill.style.width = `${Math.round(api.getMicLevel() * 100)}%`;
+        }, 100);
+    } else if (!active && micMeterTimer) {
+        clearInterval(micMeterTimer);
+        micMeterTimer = null;
+        micMeterFill.style.width = "0";
+    }
 }
 
 btnMute.addEventListener("click", () => {
@@ -458,7 +1051,7 @@ btnModalCreate.addEventListener("click", async () => {
         return;
     }
 
-    const type = newChannelType.value as "TEXT" | "VOICE";
+    const type = newChannelType.value as "TEXT" | "VOICE" | "CATEGORY";
     const parentId = newChannelParent.value || null;
 
     const result = await api.createChannel(currentServerId, name, type, parentId);
@@ -498,302 +1091,1929 @@ btnDeleteConfirm.addEventListener("click", async () => {
     await deleteChannel(channelId);
 });
 
-// ── Event Listeners ───────────────────────────────────────────────────────
+// ── Channel Context Menu ──────────────────────────────────────────────────
 
-api.on("connected", (data: { serverId: string; instanceId: string }) => {
-    isConnected = true;
-    currentServerId = data.serverId;
-    btnConnect.disabled = true;
-    btnDisconnect.disabled = false;
-    serverUrlInput.disabled = true;
-    nicknameInput.disabled = true;
-    statusDot.classList.add("connected");
-    statusText.textContent = `Connected as ${nicknameInput.value.trim() || "User"}`;
-    statusText.classList.add("connected");
-    statusInstance.textContent = `ID: ${data.instanceId}`;
-    log("Connected to server", "success");
+let channelMenuTarget: TreeNode | null = null;
 
-    // Always show the settings button
-    btnServerSettings.style.display = "";
+function showChannelMenu(node: TreeNode, x: number, y: number): void {
+    channelMenuTarget = node;
+    channelMenuName.textContent = node.name;
 
-    // Check if user is admin to enable/disable the Roles tab
-    api.getAllUsers(data.serverId).then((res) => {
-        if (res.success) {
-            settingsTabRoles.disabled = false;
-        } else {
-            settingsTabRoles.disabled = true;
-        }
-    });
-});
+    // Keep the menu on screen
+    channelMenu.classList.add("visible");
+    const { width, height } = channelMenu.getBoundingClientRect();
+    channelMenu.style.left = `${Math.min(x, window.innerWidth - width - 4)}px`;
+    channelMenu.style.top = `${Math.min(y, window.innerHeight - height - 4)}px`;
+}
 
-api.on("disconnected", () => {
-    isConnected = false;
-    isInVoice = false;
-    currentChannelId = null;
-    currentServerId = "";
-    currentTree = [];
-    btnConnect.disabled = false;
-    btnDisconnect.disabled = true;
-    serverUrlInput.disabled = false;
-    nicknameInput.disabled = false;
-    statusDot.classList.remove("connected");
-    statusText.textContent = "Disconnected";
-    statusText.classList.remove("connected");
-    btnServerSettings.style.display = "none";
-    updateVoiceUI();
-    channelTree.innerHTML = `
-        <div style="padding: 20px 12px; color: var(--text-muted); font-size: 12px; text-align: center;">
-            Connect to a server to see channels
-        </div>
-    `;
-    // Close all chat tabs
-    for (const [channelId] of chatTabs) {
-        closeTab(channelId);
-    }
-    switchTab("server-log");
-    log("Disconnected from server", "error");
-});
+function closeChannelMenu(): void {
+    channelMenu.classList.remove("visible");
+    channelMenuTarget = null;
+}
 
-api.on("error", (data: { message: string }) => {
-    log(`Error: ${data.message}`, "error");
+document.addEventListener("mousedown", (e) => {
+    if (channelMenuTarget && !channelMenu.contains(e.target as Node)) closeChannelMenu();
 });
 
-api.on("channel-tree", (data: { serverId: string; tree: TreeNode[] }) => {
-    renderTree(data.tree);
+document.addEventListener("keydown", (e) => {
+    if (e.key === "Escape" && channelMenuTarget) closeChannelMenu();
 });
 
-api.on("presence", (data: { channelId: string; occupants: any[] }) => {
-    // Update occupants in the current tree
-    updateOccupants(data.channelId, data.occupants);
+channelMenuSettings.addEventListener("click", () => {
+    if (!channelMenuTarget) return;
+    const node = channelMenuTarget;
+    closeChannelMenu();
+    showChannelSettings(node);
 });
 
-api.on("user-joined", (data: { nickname: string }) => {
-    log(`${data.nickname} joined the server`, "info");
+channelMenuDelete.addEventListener("click", () => {
+    if (!channelMenuTarget) return;
+    const { id, name } = channelMenuTarget;
+    closeChannelMenu();
+    showDeleteModal(id, name);
 });
 
-api.on("user-left", (data: { userId: string }) => {
-    log(`A user left the server`, "info");
-});
+// ── Channel Settings Modal ────────────────────────────────────────────────
 
-api.on("channel-deleted", (data: { channelId: string }) => {
-    if (currentChannelId === data.channelId) {
-        currentChannelId = null;
-        if (isInVoice) {
-            api.leaveVoiceChannel();
-            isInVoice = false;
-            updateVoiceUI();
-        }
-        log("Your current channel was deleted", "error");
-    }
+let channelSettingsTarget: TreeNode | null = null;
+
+function showChannelSettings(node: TreeNode): void {
+    channelSettingsTarget = node;
+    channelSettingsName.textContent = node.name;
+
+    channelTopicInput.value = node.topic ?? "";
+    channelDescriptionInput.value = node.description ?? "";
+
+    // Join messages, user limits and Opus settings only matter for voice channels
+    channelSettingsVoice.style.display = node.type === "VOICE" ? "" : "none";
+    channelJoinMessageInput.value = node.joinMessage ?? "";
+    channelMaxUsersInput.value = node.maxUsers === null ? "" : String(node.maxUsers);
+    channelSettingsAudio.style.display = node.type === "VOICE" ? "" : "none";
+    channelAudioBitrate.value = String(Math.round(node.audio.maxBitrate / 1000));
+    channelAudioPtime.value = String(node.audio.ptime);
+    channelAudioStereo.checked = node.audio.stereo;
+    channelAudioFec.checked = node.audio.fec;
+    channelAudioDtx.checked = node.audio.dtx;
+
+    channelSettingsModal.classList.add("visible");
+}
+
+function closeChannelSettings(): void {
+    channelSettingsModal.classList.remove("visible");
+    channelSettingsTarget = null;
+}
+
+btnChannelSettingsCancel.addEventListener("click", closeChannelSettings);
+
+channelSettingsModal.addEventListener("click", (e) => {
+    if (e.target === channelSettingsModal) closeChannelSettings();
 });
 
-// ── Tree Update Helpers ───────────────────────────────────────────────────
+btnChannelSettingsSave.addEventListener("click", async () => {
+    if (!channelSettingsTarget) return;
+    const node = channelSettingsTarget;
 
-function updateOccupants(channelId: string, occupants: any[]): void {
-    // Walk the tree and update occupants for the matching channel
-    function walk(nodes: TreeNode[]): boolean {
-        for (const node of nodes) {
-            if (node.id === channelId) {
-                node.occupants = occupants.map((o) => ({
-                    userId: o.userId,
-                    nickname: o.nickname,
-                }));
-                return true;
-            }
-            if (walk(node.children)) return true;
+    const changes: ChannelChanges = {
+        topic: channelTopicInput.value,
+        description: channelDescriptionInput.value,
+    };
+    if (node.type === "VOICE") {
+        changes.joinMessage = channelJoinMessageInput.value;
+        changes.maxUsers = channelMaxUsersInput.value.trim() === ""
+            ? null
+            : Number(channelMaxUsersInput.value);
+
+        const audio: ChannelAudioSettings = {
+            maxBitrate: Math.round(parseFloat(channelAudioBitrate.value) * 1000),
+            ptime: parseInt(channelAudioPtime.value, 10),
+            stereo: channelAudioStereo.checked,
+            fec: channelAudioFec.checked,
+            dtx: channelAudioDtx.checked,
+        };
+        // Only send Opus settings when they change: occupants produce again for them
+        const audioKeys = Object.keys(audio) as Array<keyof ChannelAudioSettings>;
+        if (audioKeys.some((k) => audio[k] !== node.audio[k])) {
+            changes.audio = audio;
         }
-        return false;
     }
 
-    if (walk(currentTree)) {
-        renderTree(currentTree);
+    const result = await api.updateChannel(node.id, changes);
+    if (result.success) {
+        closeChannelSettings();
+        log(`Channel settings saved: ${escapeHtml(node.name)}`, "success");
+    } else {
+        log(`Failed to save channel settings: ${result.error}`, "error");
+    }
+});
+
+// ── Occupant Context Menu (per-user volume) ───────────────────────────────
+
+/** Per-user playback preferences, saved across sessions by userId. */
+const userAudio: Record<string, UserAudioSettings> = (() => {
+    try {
+        return JSON.parse(localStorage.getItem("reson8-audio-user-volumes") ?? "{}");
+    } catch {
+        return {}; // ignore corrupt data
     }
+})();
+for (const [userId, settings] of Object.entries(userAudio)) {
+    api.setUserAudio(userId, settings);
 }
 
-// ── Utilities ─────────────────────────────────────────────────────────────
+let occupantMenuTarget: { userId: string; nickname: string } | null = null;
 
-function escapeHtml(text: string): string {
-    const div = document.createElement("div");
-    div.textContent = text;
-    return div.innerHTML;
+function getUserAudio(userId: string): UserAudioSettings {
+    return userAudio[userId] ?? { volume: 1, muted: false };
 }
 
-// ── Admin Panel (renderAdminUsers only — open/close handled by openSettingsPanel) ──
+function saveUserAudio(userId: string, settings: UserAudioSettings): void {
+    // Defaults aren't worth keeping around
+    if (settings.volume === 1 && !settings.muted) delete userAudio[userId];
+    else userAudio[userId] = settings;
+    localStorage.setItem("reson8-audio-user-volumes", JSON.stringify(userAudio));
+    api.setUserAudio(userId, settings);
+}
 
-function renderAdminUsers(users: any[]): void {
-    adminUserList.innerHTML = "";
+function showOccupantMenu(userId: string, nickname: string, x: number, y: number): void {
+    occupantMenuTarget = { userId, nickname };
+    occupantMenuName.textContent = nickname;
 
-    if (users.length === 0) {
-        adminUserList.innerHTML = '<div class="admin-empty">No users found.</div>';
-        return;
-    }
+    const settings = getUserAudio(userId);
+    occupantVolume.value = String(Math.round(settings.volume * 100));
+    occupantVolumeValue.textContent = `${occupantVolume.value}%`;
+    occupantLocalMute.checked = settings.muted;
 
-    for (const user of users) {
-        const row = document.createElement("div");
+    // Keep the menu on screen
+    occupantMenu.classList.add("visible");
+    const { width, height } = occupantMenu.getBoundingClientRect();
+    occupantMenu.style.left = `${Math.min(x, window.innerWidth - width - 4)}px`;
+    occupantMenu.style.top = `${Math.min(y, window.innerHeight - height - 4)}px`;
+}
+
+function closeOccupantMenu(): void {
+    occupantMenu.classList.remove("visible");
+    occupantMenuTarget = null;
+}
+
+document.addEventListener("mousedown", (e) => {
+    if (occupantMenuTarget && !occupantMenu.contains(e.target as Node)) closeOccupantMenu();
+});
+
+document.addEventListener("keydown", (e) => {
+    if (e.key === "Escape" && occupantMenuTarget) closeOccupantMenu();
+});
+
+occupantVolume.addEventListener("input", () => {
+    if (!occupantMenuTarget) return;
+    occupantVolumeValue.textContent = `${occupantVolume.value}%`;
+    const { userId } = occupantMenuTarget;
+    saveUserAudio(userId, { ...getUserAudio(userId), volume: parseInt(occupantVolume.value, 10) / 100 });
+});
+
+occupantLocalMute.addEventListener("change", () => {
+    if (!occupantMenuTarget) return;
+    const { userId } = occupantMenuTarget;
+    saveUserAudio(userId, { ...getUserAudio(userId), muted: occupantLocalMute.checked });
+    if (currentTree.length > 0) renderTree(currentTree);
+});
+
+occupantMenuMessage.addEventListener("click", () => {
+    if (!occupantMenuTarget) return;
+    const { userId, nickname } = occupantMenuTarget;
+    closeOccupantMenu();
+    openDmWith(userId, nickname);
+});
+
+occupantMenuModerate.addEventListener("click", () => {
+    if (!occupantMenuTarget) return;
+    const { userId, nickname } = occupantMenuTarget;
+    closeOccupantMenu();
+    showModerationModal(userId, nickname);
+});
+
+// ── Moderation Modal ──────────────────────────────────────────────────────
+
+/** Finds the voice channel a user is in, with their occupant entry. */
+function findOccupant(nodes: TreeNode[], userId: string): { channelId: string; occupant: Occupant } | null {
+    for (const node of nodes) {
+        const occupant = node.occupants.find((o) => o.userId === userId);
+        if (occupant) return { channelId: node.id, occupant };
+        const found = findOccupant(node.children, userId);
+        if (found) return found;
+    }
+    return null;
+}
+
+/** Fills the "move to" select with every voice channel except `excludeId`. */
+function fillMoveChannelSelect(nodes: TreeNode[], excludeId: string, depth = 0): void {
+    for (const node of nodes) {
+        if (node.type === "VOICE" && node.id !== excludeId) {
+            const option = document.createElement("option");
+            option.value = node.id;
+            option.textContent = `${"\u00A0\u00A0".repeat(depth)}${node.name}`;
+            moderateMoveChannel.appendChild(option);
+        }
+        fillMoveChannelSelect(node.children, excludeId, depth + 1);
+    }
+}
+
+function showModerationModal(userId: string, nickname: string): void {
+    pendingModerationTarget = { userId, nickname };
+    moderateUserName.textContent = nickname;
+    btnModerateBlock.textContent = blockedUsers.some((u) => u.userId === userId) ? "Unblock" : "Block";
+
+    // Voice controls only apply to users currently in a channel
+    const inVoice = findOccupant(currentTree, userId);
+    moderateVoiceSection.classList.toggle("visible", inVoice !== null);
+    if (inVoice) {
+        btnModerateServerMute.textContent = inVoice.occupant.isServerMuted ? "Server Unmute" : "Server Mute";
+        btnModerateServerDeafen.textContent = inVoice.occupant.isServerDeafened ? "Server Undeafen" : "Server Deafen";
+        moderateMoveChannel.innerHTML = "";
+        fillMoveChannelSelect(currentTree, inVoice.channelId);
+        btnModerateMove.disabled = moderateMoveChannel.options.length === 0;
+    }
+
+    moderateReason.value = "";
+    moderateUserModal.classList.add("visible");
+    moderateReason.focus();
+}
+
+function closeModerationModal(): void {
+    moderateUserModal.classList.remove("visible");
+    pendingModerationTarget = null;
+}
+
+btnModerateCancel.addEventListener("click", closeModerationModal);
+
+moderateUserModal.addEventListener("click", (e) => {
+    if (e.target === moderateUserModal) closeModerationModal();
+});
+
+btnModerateKick.addEventListener("click", async () => {
+    if (!pendingModerationTarget) return;
+    const { userId, nickname } = pendingModerationTarget;
+    const reason = moderateReason.value.trim() || undefined;
+    closeModerationModal();
+
+    const result = await api.kickUser(userId, reason);
+    if (!result.success) {
+        log(`Failed to kick ${escapeHtml(nickname)}: ${result.error}`, "error");
+    }
+});
+
+btnModerateMessage.addEventListener("click", () => {
+    if (!pendingModerationTarget) return;
+    const { userId, nickname } = pendingModerationTarget;
+    closeModerationModal();
+    openDmWith(userId, nickname);
+});
+
+btnModerateBlock.addEventListener("click", async () => {
+    if (!pendingModerationTarget) return;
+    const { userId, nickname } = pendingModerationTarget;
+    const blocked = !blockedUsers.some((u) => u.userId === userId);
+    closeModerationModal();
+    await setBlocked(userId, nickname, blocked);
+});
+
+btnModerateServerMute.addEventListener("click", async () => {
+    if (!pendingModerationTarget) return;
+    const { userId, nickname } = pendingModerationTarget;
+    const muted = !(findOccupant(currentTree, userId)?.occupant.isServerMuted ?? false);
+    closeModerationModal();
+
+    const result = await api.serverMuteUser(userId, muted);
+    if (!result.success) {
+        log(`Failed to ${muted ? "mute" : "unmute"} ${escapeHtml(nickname)}: ${result.error}`, "error");
+    }
+});
+
+btnModerateServerDeafen.addEventListener("click", async () => {
+    if (!pendingModerationTarget) return;
+    const { userId, nickname } = pendingModerationTarget;
+    const deafened = !(findOccupant(currentTree, userId)?.occupant.isServerDeafened ?? false);
+    closeModerationModal();
+
+    const result = await api.serverDeafenUser(userId, deafened);
+    if (!result.success) {
+        log(`Failed to ${deafened ? "deafen" : "undeafen"} ${escapeHtml(nickname)}: ${result.error}`, "error");
+    }
+});
+
+btnModerateMove.addEventListener("click", async () => {
+    if (!pendingModerationTarget || !moderateMoveChannel.value) return;
+    const { userId, nickname } = pendingModerationTarget;
+    const channelId = moderateMoveChannel.value;
+    closeModerationModal();
+
+    const result = await api.moveUser(userId, channelId);
+    if (!result.success) {
+        log(`Failed to move ${escapeHtml(nickname)}: ${result.error}`, "error");
+    }
+});
+
+btnModerateBan.addEventListener("click", async () => {
+    if (!pendingModerationTarget) return;
+    const { userId, nickname } = pendingModerationTarget;
+    const reason = moderateReason.value.trim() || undefined;
+    const duration = moderateBanDuration.value ? parseInt(moderateBanDuration.value, 10) : null;
+    closeModerationModal();
+
+    const result = await api.banUser(userId, reason, duration);
+    if (!result.success) {
+        log(`Failed to ban ${escapeHtml(nickname)}: ${result.error}`, "error");
+    }
+});
+
+// ── Away Status ───────────────────────────────────────────────────────────
+
+async function setAway(away: boolean, auto = false): Promise<void> {
+    const result = await api.setAway(away);
+    if (!result.success) {
+        log(`Failed to update away status: ${result.error}`, "error");
+        return;
+    }
+    isAway = away;
+    isAutoAway = away && auto;
+    btnAway.classList.toggle("active", isAway);
+    btnAway.textContent = isAway ? "💤 Away" : "Set Away";
+}
+
+btnAway.addEventListener("click", () => setAway(!isAway));
+
+// Auto-away after system idle; a manual away is left alone
+api.on("system-idle", () => {
+    if (isConnected && !isAway) setAway(true, true);
+});
+
+api.on("system-active", () => {
+    if (isConnected && isAutoAway) setAway(false);
+});
+
+// ── Event Listeners ───────────────────────────────────────────────────────
+
+api.on("connected", (data: { serverId: string; userId: string; nickname: string; isGuest: boolean }) => {
+    isConnected = true;
+    currentServerId = data.serverId;
+    currentUserId = data.userId;
+    btnConnect.disabled = true;
+    btnDisconnect.disabled = false;
+    serverUrlInput.disabled = true;
+    nicknameInput.disabled = true;
+    statusDot.classList.add("connected");
+    statusText.textContent = `Connected as ${data.nickname}${data.isGuest ? " (guest)" : ""}`;
+    statusText.classList.add("connected");
+    statusInstance.textContent = `ID: ${data.userId}`;
+    log("Connected to server", "success");
+
+    // Always show the settings button
+    btnServerSettings.style.display = "";
+
+    // Every new session starts present
+    isAway = false;
+    isAutoAway = false;
+    btnAway.classList.remove("active");
+    btnAway.textContent = "Set Away";
+    btnAway.style.display = "";
+
+    loadConversations();
+
+    // Check if user is admin to enable/disable the Roles and Channels tabs
+    api.getAllUsers(data.serverId).then((res) => {
+        settingsTabRoles.disabled = !res.success;
+        settingsTabChannelPerms.disabled = !res.success;
+    });
+});
+
+api.on("disconnected", () => {
+    isConnected = false;
+    isInVoice = false;
+    currentChannelId = null;
+    currentServerId = "";
+    currentUserId = "";
+    currentTree = [];
+    treeChannels.clear();
+    treeRevision = 0;
+    pendingTreePatches = [];
+    btnConnect.disabled = false;
+    btnDisconnect.disabled = true;
+    serverUrlInput.disabled = false;
+    nicknameInput.disabled = false;
+    statusDot.classList.remove("connected");
+    statusText.textContent = "Disconnected";
+    statusText.classList.remove("connected");
+    btnServerSettings.style.display = "none";
+    btnAway.style.display = "none";
+    updateVoiceUI();
+    channelTree.innerHTML = `
+        <div style="padding: 20px 12px; color: var(--text-muted); font-size: 12px; text-align: center;">
+            Connect to a server to see channels
+        </div>
+    `;
+    // Close all chat tabs
+    for (const [channelId] of chatTabs) {
+        closeTab(channelId);
+    }
+    for (const [tabId] of dmTabs) {
+        closeDmTab(tabId);
+    }
+    unreadChannels.clear();
+    conversations = [];
+    unreadConversations.clear();
+    blockedUsers = [];
+    renderConversationList();
+    switchTab("server-log");
+    log("Disconnected from server", "error");
+});
+
+api.on("error", (data: { code?: string; message: string }) => {
+    log(`Error: ${escapeHtml(data.message)}`, "error");
+    if (data.code === "AUTH_FAILED") {
+        loginError.textContent = data.message;
+        loginModal.classList.add("visible");
+    }
+});
+
+api.on("channel-tree", (data: { serverId: string; tree: TreeNode[]; revision: number }) => {
+    loadTreeSnapshot(data.tree, data.revision);
+});
+
+api.on("channel-added", (data: { revision: number; channel: TreeChannel }) => {
+    receiveTreePatch({ kind: "added", revision: data.revision, channel: data.channel });
+});
+
+api.on("channel-updated", (data: { revision: number; channels: TreeChannel[] }) => {
+    receiveTreePatch({ kind: "updated", revision: data.revision, channels: data.channels });
+});
+
+api.on("presence", (data: { channelId: string; occupants: Occupant[] }) => {
+    // Update occupants in the current tree
+    updateOccupants(data.channelId, data.occupants);
+});
+
+api.on("user-joined", (data: { nickname: string }) => {
+    log(`${data.nickname} joined the server`, "info");
+});
+
+api.on("user-left", (data: { userId: string }) => {
+    log(`A user left the server`, "info");
+});
+
+api.on("roles-updated", (data: { serverId: string; roles: any[] }) => {
+    if (data.serverId !== currentServerId || !isAdminUser) return;
+
+    // The role being edited was deleted by someone else
+    if (editingRoleId && !data.roles.some((r) => r.id === editingRoleId)) {
+        closeRoleEditor();
+    }
+
+    allServerRoles = data.roles;
+    renderRoleList();
+
+    // Refresh the per-user role badges
+    if (adminModal.classList.contains("visible")) {
+        api.getAllUsers(currentServerId).then((res) => {
+            if (res.success) renderAdminUsers(res.users ?? []);
+        });
+    }
+});
+
+api.on("user-kicked", (data: { userId: string; nickname: string; reason: string | null; banned: boolean; expiresAt: string | null }) => {
+    const action = data.banned ? "banned" : "kicked";
+    const until = data.banned
+        ? (data.expiresAt ? ` until ${new Date(data.expiresAt).toLocaleString()}` : " permanently")
+        : "";
+    const reason = data.reason ? ` (${escapeHtml(data.reason)})` : "";
+
+    if (data.userId === currentUserId) {
+        log(`You were ${action} from the server${until}${reason}`, "error");
+    } else {
+        log(`${escapeHtml(data.nickname)} was ${action}${until}${reason}`, "info");
+    }
+});
+
+api.on("active-speakers", (data: { channelId: string; userIds: string[] }) => {
+    if (data.channelId !== currentChannelId) return;
+    activeSpeakers = { channelId: data.channelId, userIds: new Set(data.userIds) };
+    updateSpeakingHighlights();
+});
+
+api.on("voice-moved", (data: { channelId: string; canSpeak: boolean; movedBy: string }) => {
+    currentChannelId = data.channelId;
+    isInVoice = true;
+    isListenOnly = !data.canSpeak;
+    isMuted = false;
+    isDeafened = false;
+
+    const channel = findNode(currentTree, data.channelId);
+    updateVoiceUI(channel?.name);
+    if (currentTree.length > 0) {
+        renderTree(currentTree);
+    }
+    log(`${escapeHtml(data.movedBy)} moved you to ${escapeHtml(channel?.name ?? "another channel")}`, "info");
+});
+
+api.on("channel-join-message", (data: { channelId: string; message: string }) => {
+    const channelName = findNode(currentTree, data.channelId)?.name ?? "channel";
+    log(`📌 ${escapeHtml(channelName)}: ${escapeHtml(data.message)}`, "info");
+});
+
+api.on("channel-removed", (data: { revision: number; channelId: string }) => {
+    receiveTreePatch({ kind: "removed", revision: data.revision, channelId: data.channelId });
+
+    if (currentChannelId === data.channelId) {
+        currentChannelId = null;
+        if (isInVoice) {
+            api.leaveVoiceChannel();
+            isInVoice = false;
+            updateVoiceUI();
+        }
+        log("Your current channel was deleted", "error");
+    }
+});
+
+// ── Tree Update Helpers ───────────────────────────────────────────────────
+
+/** Replaces the local channels with a full tree at `revision`. */
+function loadTreeSnapshot(tree: TreeNode[], revision: number): void {
+    treeChannels.clear();
+    function collect(nodes: TreeNode[]): void {
+        for (const { children, occupants: _occupants, ...channel } of nodes) {
+            treeChannels.set(channel.id, channel);
+            collect(children);
+        }
+    }
+    collect(tree);
+    treeRevision = revision;
+    renderTree(tree);
+}
+
+/**
+ * Applies a tree patch if it's the next revision. Older ones are already
+ * in the tree; a newer one means a patch went missing, so the whole tree
+ * is fetched again.
+ */
+function receiveTreePatch(patch: TreePatch): void {
+    if (isResyncingTree) {
+        pendingTreePatches.push(patch);
+        return;
+    }
+    if (patch.revision <= treeRevision) return;
+    if (patch.revision > treeRevision + 1) {
+        pendingTreePatches.push(patch);
+        resyncTree();
+        return;
+    }
+
+    switch (patch.kind) {
+        case "added":
+            treeChannels.set(patch.channel.id, patch.channel);
+            break;
+        case "updated":
+            for (const channel of patch.channels) treeChannels.set(channel.id, channel);
+            break;
+        case "removed":
+            treeChannels.delete(patch.channelId);
+            break;
+    }
+    treeRevision = patch.revision;
+    renderTree(rebuildTree());
+}
+
+/** Fetches the full tree, then replays patches that arrived meanwhile. */
+async function resyncTree(): Promise<void> {
+    isResyncingTree = true;
+    const result = await api.getChannelTree();
+    isResyncingTree = false;
+
+    const pending = pendingTreePatches.sort((a, b) => a.revision - b.revision);
+    pendingTreePatches = [];
+    if (!result.success || !result.tree) {
+        // The next patch finds the gap again and retries
+        log(`Failed to resync channel tree: ${result.error}`, "error");
+        return;
+    }
+
+    loadTreeSnapshot(result.tree, result.revision ?? 0);
+    for (const patch of pending) receiveTreePatch(patch);
+}
+
+/** Builds the tree from treeChannels, keeping each channel's current occupants. */
+function rebuildTree(): TreeNode[] {
+    const occupantsOf = new Map<string, Occupant[]>();
+    function collect(nodes: TreeNode[]): void {
+        for (const node of nodes) {
+            occupantsOf.set(node.id, node.occupants);
+            collect(node.children);
+        }
+    }
+    collect(currentTree);
+
+    const nodes = new Map<string, TreeNode>();
+    for (const channel of treeChannels.values()) {
+        nodes.set(channel.id, { ...channel, children: [], occupants: occupantsOf.get(channel.id) ?? [] });
+    }
+
+    // Channels whose parent is gone sit at the root, as on the server
+    const roots: TreeNode[] = [];
+    for (const node of nodes.values()) {
+        const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+        (parent ? parent.children : roots).push(node);
+    }
+
+    const byPosition = (a: TreeNode, b: TreeNode): number => a.position - b.position;
+    roots.sort(byPosition);
+    for (const node of nodes.values()) node.children.sort(byPosition);
+    return roots;
+}
+
+function updateOccupants(channelId: string, occupants: Occupant[]): void {
+    // Walk the tree and update occupants for the matching channel
+    function walk(nodes: TreeNode[]): boolean {
+        for (const node of nodes) {
+            if (node.id === channelId) {
+                node.occupants = occupants.map((o) => ({
+                    userId: o.userId,
+                    nickname: o.nickname,
+                    isMuted: o.isMuted,
+                    isDeafened: o.isDeafened,
+                    isAway: o.isAway,
+                    isServerMuted: o.isServerMuted,
+                    isServerDeafened: o.isServerDeafened,
+                }));
+                return true;
+            }
+            if (walk(node.children)) return true;
+        }
+        return false;
+    }
+
+    if (walk(currentTree)) {
+        renderTree(currentTree);
+    }
+}
+
+// ── Utilities ─────────────────────────────────────────────────────────────
+
+/** Finds a channel node anywhere in the tree by ID. */
+function findNode(nodes: TreeNode[], channelId: string): TreeNode | null {
+    for (const node of nodes) {
+        if (node.id === channelId) return node;
+        const found = findNode(node.children, channelId);
+        if (found) return found;
+    }
+    return null;
+}
+
+function escapeHtml(text: string): string {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div.innerHTML;
+}
+
+// ── Admin Panel (renderAdminUsers only — open/close handled by openSettingsPanel) ──
+
+function renderAdminUsers(users: any[]): void {
+    adminUserList.innerHTML = "";
+
+    if (users.length === 0) {
+        adminUserList.innerHTML = '<div class="admin-empty">No users found.</div>';
+        return;
+    }
+
+    for (const user of users) {
+        const row = document.createElement("div");
         row.className = "admin-user-row";
 
-        const userRoleIds = new Set((user.roles ?? []).map((r: any) => r.id));
+        const userRoleIds = new Set((user.roles ?? []).map((r: any) => r.id));
+
+        // User info
+        const infoEl = document.createElement("div");
+        infoEl.className = "admin-user-info";
+        infoEl.innerHTML = `
+            <div class="admin-user-nickname">${escapeHtml(user.nickname)}</div>
+            <div class="admin-user-id">${escapeHtml(user.id)}</div>
+        `;
+        row.appendChild(infoEl);
+
+        // Role toggles
+        const badgesEl = document.createElement("div");
+        badgesEl.className = "admin-role-badges";
+
+        for (const role of allServerRoles) {
+            const badge = document.createElement("span");
+            badge.className = `role-badge${userRoleIds.has(role.id) ? " active" : ""}`;
+            badge.textContent = role.name;
+            if (role.color) {
+                badge.style.borderColor = role.color;
+                if (userRoleIds.has(role.id)) {
+                    badge.style.background = role.color;
+                    badge.style.color = "#fff";
+                }
+            }
+
+            badge.addEventListener("click", async () => {
+                const hasRole = badge.classList.contains("active");
+                const action = hasRole ? "remove" : "add";
+
+                // Block admin from removing their own admin role
+                if (action === "remove" && user.id === currentUserId && role.name === "Server Admin") {
+                    log("You cannot remove your own admin role", "error");
+                    return;
+                }
+
+                const result = await api.assignRole(user.id, role.id, action);
+                if (result.success) {
+                    // Refresh the panel
+                    openSettingsPanel();
+                } else {
+                    log(`Failed to ${action} role: ${result.error}`, "error");
+                }
+            });
+
+            badgesEl.appendChild(badge);
+        }
+
+        row.appendChild(badgesEl);
+        adminUserList.appendChild(row);
+    }
+}
+
+// ── Role Editor ───────────────────────────────────────────────────────────
+
+function renderRoleList(): void {
+    adminRoleList.innerHTML = "";
+
+    for (const role of allServerRoles) {
+        const badge = document.createElement("span");
+        badge.className = `role-badge${role.id === editingRoleId ? " active" : ""}`;
+        badge.textContent = `${role.name} (${role.powerLevel})`;
+        badge.title = "Edit role";
+        if (role.color) {
+            badge.style.borderColor = role.color;
+        }
+        badge.addEventListener("click", () => openRoleEditor(role));
+        adminRoleList.appendChild(badge);
+    }
+}
+
+/** Opens the editor for an existing role, or for a new one if `role` is omitted. */
+function openRoleEditor(role?: any): void {
+    editingRoleId = role?.id ?? null;
+    roleNameInput.value = role?.name ?? "";
+    roleColorInput.value = role?.color ?? "#5865f2";
+    rolePowerInput.value = String(role?.powerLevel ?? 0);
+    btnRoleDelete.style.display = role ? "" : "none";
+
+    const perms = BigInt(role?.permissions ?? "0");
+    roleFlagList.innerHTML = "";
+    for (const flag of PERMISSION_FLAGS) {
+        const label = document.createElement("label");
+        label.className = "role-flag";
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        checkbox.value = String(flag.bit);
+        checkbox.checked = (perms & BigInt(flag.bit)) !== 0n;
+        label.appendChild(checkbox);
+        label.appendChild(document.createTextNode(flag.label));
+        roleFlagList.appendChild(label);
+    }
+
+    roleEditor.classList.add("visible");
+    renderRoleList();
+    roleNameInput.focus();
+}
+
+function closeRoleEditor(): void {
+    editingRoleId = null;
+    roleEditor.classList.remove("visible");
+    renderRoleList();
+}
+
+btnNewRole.addEventListener("click", () => openRoleEditor());
+btnRoleCancel.addEventListener("click", closeRoleEditor);
+
+btnRoleSave.addEventListener("click", async () => {
+    let perms = 0n;
+    roleFlagList.querySelectorAll<HTMLInputElement>("input[type=checkbox]").forEach((cb) => {
+        if (cb.checked) perms |= BigInt(cb.value);
+    });
+
+    const fields = {
+        name: roleNameInput.value.trim(),
+        color: roleColorInput.value,
+        permissions: perms.toString(),
+        powerLevel: parseInt(rolePowerInput.value, 10) || 0,
+    };
+
+    const result = editingRoleId
+        ? await api.updateRole(editingRoleId, fields)
+        : await api.createRole(fields);
+
+    if (result.success) {
+        log(`Role "${escapeHtml(fields.name)}" saved`, "success");
+        closeRoleEditor();
+    } else {
+        log(`Failed to save role: ${result.error}`, "error");
+    }
+});
+
+btnRoleDelete.addEventListener("click", async () => {
+    if (!editingRoleId) return;
+    const result = await api.deleteRole(editingRoleId);
+    if (result.success) {
+        log("Role deleted", "success");
+        closeRoleEditor();
+    } else {
+        log(`Failed to delete role: ${result.error}`, "error");
+    }
+});
+
+// ── Channel Permissions Panel ─────────────────────────────────────────────
+
+function addChannelPermOptions(nodes: TreeNode[], depth: number): void {
+    for (const node of nodes) {
+        const option = document.createElement("option");
+        option.value = node.id;
+        option.textContent = `${"  ".repeat(depth)}${node.name}`;
+        channelPermChannel.appendChild(option);
+        addChannelPermOptions(node.children, depth + 1);
+    }
+}
+
+async function loadChannelPermissionsTab(): Promise<void> {
+    const selected = channelPermChannel.value;
+    channelPermChannel.innerHTML = "";
+    addChannelPermOptions(currentTree, 0);
+    if (selected) channelPermChannel.value = selected;
+
+    await loadChannelOverrides();
+}
+
+async function loadChannelOverrides(): Promise<void> {
+    channelPermOverrides = [];
+    const channelId = channelPermChannel.value;
+    if (channelId) {
+        const result = await api.getChannelPermissions(channelId);
+        if (result.success) {
+            channelPermOverrides = result.overrides ?? [];
+        } else {
+            log(`Failed to load channel permissions: ${result.error}`, "error");
+        }
+    }
+    renderChannelPermTargets();
+    renderChannelPermFlags();
+}
+
+/** Fills the role/user picker; targets with an override on this channel are marked with •. */
+function renderChannelPermTargets(): void {
+    const selected = channelPermTarget.value;
+    channelPermTarget.innerHTML = "";
+
+    const groups: Array<{ label: string; kind: "role" | "user"; items: any[]; name: (i: any) => string }> = [
+        { label: "Roles", kind: "role", items: allServerRoles, name: (r) => r.name },
+        { label: "Users", kind: "user", items: allServerUsers, name: (u) => u.nickname },
+    ];
+
+    for (const group of groups) {
+        const optgroup = document.createElement("optgroup");
+        optgroup.label = group.label;
+        for (const item of group.items) {
+            const hasOverride = channelPermOverrides.some((o) =>
+                group.kind === "role" ? o.roleId === item.id : o.userId === item.id,
+            );
+            const option = document.createElement("option");
+            option.value = `${group.kind}:${item.id}`;
+            option.textContent = `${group.name(item)}${hasOverride ? " •" : ""}`;
+            optgroup.appendChild(option);
+        }
+        channelPermTarget.appendChild(optgroup);
+    }
+
+    if (selected) channelPermTarget.value = selected;
+}
+
+/** Parses the picker value into a SET_CHANNEL_PERMISSION target. */
+function getChannelPermTarget(): { roleId?: string; userId?: string } | null {
+    const [kind, id] = channelPermTarget.value.split(":");
+    if (!id) return null;
+    return kind === "role" ? { roleId: id } : { userId: id };
+}
+
+function renderChannelPermFlags(): void {
+    const target = getChannelPermTarget();
+    const override = channelPermOverrides.find((o) =>
+        target?.roleId ? o.roleId === target.roleId : o.userId === target?.userId,
+    );
+    const allow = BigInt(override?.allow ?? "0");
+    const deny = BigInt(override?.deny ?? "0");
+
+    channelPermFlags.innerHTML = "";
+    for (const flag of PERMISSION_FLAGS) {
+        // ADMIN can't be overridden per channel
+        if (flag.label === "Administrator") continue;
+
+        const bit = BigInt(flag.bit);
+        const row = document.createElement("div");
+        row.className = "channel-perm-flag";
+        row.appendChild(document.createTextNode(flag.label));
+
+        const select = document.createElement("select");
+        select.dataset.bit = String(flag.bit);
+        select.innerHTML = `
+            <option value="inherit">Inherit</option>
+            <option value="allow">Allow</option>
+            <option value="deny">Deny</option>
+        `;
+        select.value = (allow & bit) !== 0n ? "allow" : (deny & bit) !== 0n ? "deny" : "inherit";
+        row.appendChild(select);
+
+        channelPermFlags.appendChild(row);
+    }
+}
+
+async function saveChannelOverride(clear: boolean): Promise<void> {
+    const channelId = channelPermChannel.value;
+    const target = getChannelPermTarget();
+    if (!channelId || !target) return;
+
+    let allow = 0n;
+    let deny = 0n;
+    if (!clear) {
+        channelPermFlags.querySelectorAll<HTMLSelectElement>("select").forEach((sel) => {
+            const bit = BigInt(sel.dataset.bit!);
+            if (sel.value === "allow") allow |= bit;
+            if (sel.value === "deny") deny |= bit;
+        });
+    }
+
+    const result = await api.setChannelPermission(channelId, target, allow.toString(), deny.toString());
+    if (result.success) {
+        log(clear ? "Channel override cleared" : "Channel override saved", "success");
+        await loadChannelOverrides();
+    } else {
+        log(`Failed to save channel override: ${result.error}`, "error");
+    }
+}
+
+settingsTabChannelPerms.addEventListener("click", () => {
+    if (!settingsTabChannelPerms.disabled) loadChannelPermissionsTab();
+});
+channelPermChannel.addEventListener("change", () => loadChannelOverrides());
+channelPermTarget.addEventListener("change", () => renderChannelPermFlags());
+btnChannelPermSave.addEventListener("click", () => saveChannelOverride(false));
+btnChannelPermClear.addEventListener("click", () => saveChannelOverride(true));
+
+// ── Bans Panel ────────────────────────────────────────────────────────────
+
+async function loadBans(): Promise<void> {
+    adminBanList.innerHTML = '<div class="admin-empty">Loading bans...</div>';
+    const result = await api.getBans();
+    if (!result.success) {
+        adminBanList.innerHTML = '<div class="admin-empty">You don\'t have permission to manage bans.</div>';
+        return;
+    }
+    renderBans(result.bans ?? []);
+}
+
+function renderBans(bans: any[]): void {
+    adminBanList.innerHTML = "";
+
+    if (bans.length === 0) {
+        adminBanList.innerHTML = '<div class="admin-empty">No active bans.</div>';
+        return;
+    }
+
+    for (const ban of bans) {
+        const row = document.createElement("div");
+        row.className = "admin-user-row";
+
+        const until = ban.expiresAt ? `until ${new Date(ban.expiresAt).toLocaleString()}` : "permanent";
+        const by = ban.bannedBy ? ` by ${escapeHtml(ban.bannedBy)}` : "";
+        const infoEl = document.createElement("div");
+        infoEl.className = "admin-user-info";
+        infoEl.innerHTML = `
+            <div class="admin-user-nickname">${escapeHtml(ban.nickname)}</div>
+            <div class="admin-user-id">${until}${by}${ban.reason ? ` — ${escapeHtml(ban.reason)}` : ""}</div>
+        `;
+        row.appendChild(infoEl);
+
+        const btnUnban = document.createElement("button");
+        btnUnban.className = "btn btn-cancel";
+        btnUnban.style.fontSize = "10px";
+        btnUnban.style.padding = "3px 10px";
+        btnUnban.textContent = "Unban";
+        btnUnban.addEventListener("click", async () => {
+            const result = await api.unbanUser(ban.userId);
+            if (result.success) {
+                log(`${escapeHtml(ban.nickname)} was unbanned`, "success");
+                loadBans();
+            } else {
+                log(`Failed to unban: ${result.error}`, "error");
+            }
+        });
+        row.appendChild(btnUnban);
+
+        adminBanList.appendChild(row);
+    }
+}
+
+settingsTabBans.addEventListener("click", () => loadBans());
+
+// ── Tab Management ────────────────────────────────────────────────────────
+
+function switchTab(tabId: string): void {
+    activeTabId = tabId;
+
+    // Deactivate all tabs and content
+    tabBar.querySelectorAll(".tab").forEach((t) => t.classList.remove("active"));
+    tabContentArea.querySelectorAll(".tab-content").forEach((c) => c.classList.remove("active"));
+
+    // Activate selected tab
+    const tabEl = tabBar.querySelector(`.tab[data-tab-id="${tabId}"]`);
+    const contentEl = tabContentArea.querySelector(`.tab-content[data-tab-id="${tabId}"]`);
+    tabEl?.classList.add("active");
+    tabEl?.classList.remove("unread");
+    contentEl?.classList.add("active");
+
+    // A reply only makes sense in the channel it was started in
+    if (replyingTo && replyingTo.channelId !== tabId) {
+        setReplyTarget(null);
+    }
+    setPendingFiles([]);
+
+    // Show/hide chat input bar; direct messages are text-only
+    if (tabId === "server-log" || tabId === DM_LIST_TAB_ID) {
+        chatInputBar.classList.remove("visible");
+    } else {
+        chatInputBar.classList.add("visible");
+        btnAttach.style.display = dmTabs.has(tabId) ? "none" : "";
+        chatInput.focus();
+    }
+}
+
+function openChatTab(channelId: string, channelName: string, focusMessageId?: string): void {
+    // If tab already exists, just switch to it
+    const existing = chatTabs.get(channelId);
+    if (existing) {
+        switchTab(channelId);
+        if (focusMessageId) {
+            showMessageInContext(existing, focusMessageId);
+        }
+        return;
+    }
+
+    // Create tab button
+    const tabEl = document.createElement("div");
+    tabEl.className = "tab";
+    tabEl.dataset.tabId = channelId;
+    tabEl.innerHTML = `💬 ${escapeHtml(channelName)} <span class="tab-close">✕</span>`;
+
+    tabEl.addEventListener("click", (e) => {
+        // Check if close button was clicked
+        if ((e.target as HTMLElement).classList.contains("tab-close")) {
+            closeTab(channelId);
+        } else {
+            switchTab(channelId);
+        }
+    });
+
+    tabBar.appendChild(tabEl);
+
+    // Create tab content
+    const contentEl = document.createElement("div");
+    contentEl.className = "tab-content";
+    contentEl.dataset.tabId = channelId;
+
+    const headerEl = document.createElement("div");
+    headerEl.className = "channel-header";
+    setChannelHeader(headerEl, findNode(currentTree, channelId));
+    contentEl.appendChild(headerEl);
+
+    const messagesEl = document.createElement("div");
+    messagesEl.className = "chat-messages";
+    contentEl.appendChild(messagesEl);
+
+    tabContentArea.appendChild(contentEl);
+
+    // Store tab state
+    const chatTab: ChatTab = {
+        channelId,
+        channelName,
+        tabEl,
+        contentEl,
+        headerEl,
+        messagesEl,
+        loaded: false,
+        canManageMessages: false,
+        viewingContext: false,
+    };
+    chatTabs.set(channelId, chatTab);
+
+    // Switch to the new tab
+    switchTab(channelId);
+
+    // The tab now shows every new message — drop the unread badge
+    if (unreadChannels.delete(channelId)) {
+        renderTree(currentTree);
+    }
+
+    // Subscribe to live messages, then fetch history
+    api.subscribeChannel(channelId).then((result) => {
+        if (!result.success) {
+            log(`Cannot open ${escapeHtml(channelName)}: ${result.error}`, "error");
+            closeTab(channelId);
+            return;
+        }
+        chatTab.canManageMessages = result.canManageMessages === true;
+        if (focusMessageId) {
+            showMessageInContext(chatTab, focusMessageId);
+        } else {
+            loadChatHistory(chatTab);
+        }
+    });
+}
+
+function closeTab(channelId: string): void {
+    const tab = chatTabs.get(channelId);
+    if (!tab) return;
+
+    api.unsubscribeChannel(channelId);
+    tab.tabEl.remove();
+    tab.contentEl.remove();
+    chatTabs.delete(channelId);
+
+    // If this was the active tab, switch to server log
+    if (activeTabId === channelId) {
+        switchTab("server-log");
+    }
+}
+
+async function loadChatHistory(tab: ChatTab): Promise<void> {
+    if (tab.loaded) return;
+    tab.loaded = true;
+
+    const result = await api.fetchMessages(tab.channelId);
+    if (result.success && result.messages) {
+        for (const msg of result.messages) {
+            renderChatMessage(tab, msg);
+        }
+    }
+}
+
+/**
+ * Scrolls to a message and highlights it. If it isn't loaded, the tab
+ * switches to a page of history around it with a "Jump to present" bar.
+ */
+async function showMessageInContext(tab: ChatTab, messageId: string): Promise<void> {
+    let el = tab.messagesEl.querySelector(`.chat-msg[data-message-id="${messageId}"]`);
+
+    if (!el) {
+        const result = await api.fetchMessagesAround(tab.channelId, messageId);
+        if (!result.success || !result.messages) {
+            log(`Failed to load message: ${result.error}`, "error");
+            return;
+        }
+
+        tab.loaded = true;
+        tab.viewingContext = true;
+        tab.messagesEl.innerHTML = "";
+        for (const msg of result.messages) {
+            tab.messagesEl.appendChild(buildChatMessageEl(tab, msg));
+        }
+
+        const jumpBar = document.createElement("div");
+        jumpBar.className = "chat-jump-present";
+        jumpBar.innerHTML = `Viewing older messages <button>Jump to present</button>`;
+        jumpBar.querySelector("button")!.addEventListener("click", () => {
+            tab.viewingContext = false;
+            tab.loaded = false;
+            tab.messagesEl.innerHTML = "";
+            loadChatHistory(tab);
+        });
+        tab.messagesEl.appendChild(jumpBar);
+
+        el = tab.messagesEl.querySelector(`.chat-msg[data-message-id="${messageId}"]`);
+    }
+
+    if (el) {
+        el.scrollIntoView({ block: "center" });
+        el.classList.add("highlight");
+        setTimeout(() => el!.classList.remove("highlight"), 1500);
+    }
+}
+
+function renderChatMessage(tab: ChatTab, msg: ChatMessage): void {
+    tab.messagesEl.appendChild(buildChatMessageEl(tab, msg));
+    tab.messagesEl.scrollTop = tab.messagesEl.scrollHeight;
+}
+
+function buildChatMessageEl(tab: ChatTab, msg: ChatMessage): HTMLDivElement {
+    const el = document.createElement("div");
+    el.className = "chat-msg";
+    el.dataset.messageId = msg.id;
+
+    const time = new Date(msg.createdAt).toLocaleTimeString();
+    const edited = msg.editedAt
+        ? `<span class="msg-edited" title="Edited ${new Date(msg.editedAt).toLocaleString()}">(edited)</span>`
+        : "";
+    el.innerHTML = `<span class="msg-time">${time}</span><span class="msg-nick">${escapeHtml(msg.nickname)}</span><span class="msg-text">${escapeHtml(msg.content)}</span>${edited}`;
+
+    // Quote of the replied-to message; clicking it jumps to the original if loaded
+    if (msg.replyTo) {
+        const quote = document.createElement("div");
+        quote.className = "msg-reply";
+        const replyTo = msg.replyTo;
+        quote.innerHTML = replyTo.deleted
+            ? `↪ <span class="msg-reply-nick">${escapeHtml(replyTo.nickname)}</span> <em>deleted message</em>`
+            : `↪ <span class="msg-reply-nick">${escapeHtml(replyTo.nickname)}</span> ${escapeHtml(replyTo.content)}`;
+        quote.addEventListener("click", () => {
+            const original = tab.messagesEl.querySelector(`.chat-msg[data-message-id="${replyTo.id}"]`);
+            if (original) {
+                original.scrollIntoView({ block: "center", behavior: "smooth" });
+                original.classList.add("highlight");
+                setTimeout(() => original.classList.remove("highlight"), 1500);
+            }
+        });
+        el.prepend(quote);
+    }
+
+    // Hover actions: authors edit/delete their own messages, moderators delete and review history
+    const isOwn = msg.userId === currentUserId;
+    const actions = document.createElement("span");
+    actions.className = "msg-actions";
+
+    const addAction = (icon: string, title: string, onClick: () => void): void => {
+        const btn = document.createElement("button");
+        btn.className = "msg-action";
+        btn.textContent = icon;
+        btn.title = title;
+        btn.addEventListener("click", onClick);
+        actions.appendChild(btn);
+    };
+
+    addAction("↩", "Reply", () => setReplyTarget(msg));
+    addAction("☺", "React", () => toggleReactionPicker(el, msg.id));
+    if (isOwn) {
+        addAction("✎", "Edit", () => startInlineEdit(el, msg));
+    }
+    if (isOwn || tab.canManageMessages) {
+        addAction("🗑", "Delete", async () => {
+            const result = await api.deleteMessage(msg.id);
+            if (!result.success) {
+                log(`Failed to delete message: ${result.error}`, "error");
+            }
+        });
+    }
+    if (tab.canManageMessages && msg.editedAt) {
+        addAction("🕘", "Edit history", () => toggleMessageHistory(el, msg));
+    }
+
+    el.appendChild(actions);
+
+    if (msg.attachments.length > 0) {
+        el.appendChild(buildAttachmentsEl(msg.attachments));
+    }
+
+    const reactionsEl = document.createElement("div");
+    reactionsEl.className = "msg-reactions";
+    el.appendChild(reactionsEl);
+    renderReactions(reactionsEl, msg.id, msg.reactions);
+
+    return el;
+}
+
+/** Image types rendered inline as previews (the server serves these inline). */
+const PREVIEW_MIME_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/** Human-readable file size, e.g. "1.4 MB". */
+function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Image previews and download links for a message's attachments. */
+function buildAttachmentsEl(attachments: ChatAttachment[]): HTMLDivElement {
+    const container = document.createElement("div");
+    container.className = "msg-attachments";
+
+    for (const attachment of attachments) {
+        const item = document.createElement("div");
+        item.className = "msg-attachment";
+
+        if (PREVIEW_MIME_TYPES.includes(attachment.mimeType)) {
+            const img = document.createElement("img");
+            img.className = "msg-image";
+            img.src = api.getAttachmentUrl(attachment.url);
+            img.alt = attachment.filename;
+            img.loading = "lazy";
+            item.appendChild(img);
+        }
+
+        const link = document.createElement("a");
+        link.className = "msg-file";
+        link.href = api.getAttachmentUrl(attachment.url, true);
+        link.textContent = `📄 ${attachment.filename}`;
+        link.title = `Download (${formatFileSize(attachment.size)})`;
+        item.appendChild(link);
+
+        const size = document.createElement("span");
+        size.className = "msg-file-size";
+        size.textContent = formatFileSize(attachment.size);
+        item.appendChild(size);
+
+        container.appendChild(item);
+    }
+    return container;
+}
+
+/** Emojis offered by the quick reaction picker. */
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+/** Renders reaction chips; clicking one toggles our own reaction. */
+function renderReactions(container: HTMLElement, messageId: string, reactions: ReactionSummary[]): void {
+    container.innerHTML = "";
+    for (const reaction of reactions) {
+        const mine = reaction.userIds.includes(currentUserId);
+        const chip = document.createElement("button");
+        chip.className = "msg-reaction" + (mine ? " mine" : "");
+        chip.textContent = `${reaction.emoji} ${reaction.count}`;
+        chip.addEventListener("click", async () => {
+            const result = mine
+                ? await api.removeReaction(messageId, reaction.emoji)
+                : await api.addReaction(messageId, reaction.emoji);
+            if (!result.success) {
+                log(`Failed to update reaction: ${result.error}`, "error");
+            }
+        });
+        container.appendChild(chip);
+    }
+}
+
+/** Shows (or hides) the quick reaction picker beneath a message. */
+function toggleReactionPicker(el: HTMLDivElement, messageId: string): void {
+    const existing = el.querySelector(".msg-reaction-picker");
+    if (existing) {
+        existing.remove();
+        return;
+    }
+
+    const picker = document.createElement("div");
+    picker.className = "msg-reaction-picker";
+    for (const emoji of QUICK_REACTIONS) {
+        const btn = document.createElement("button");
+        btn.textContent = emoji;
+        btn.addEventListener("click", async () => {
+            picker.remove();
+            const result = await api.addReaction(messageId, emoji);
+            if (!result.success) {
+                log(`Failed to add reaction: ${result.error}`, "error");
+            }
+        });
+        picker.appendChild(btn);
+    }
+    el.appendChild(picker);
+}
+
+/** Sets (or clears) the message quoted by the next send. */
+function setReplyTarget(msg: ChatMessage | null): void {
+    replyingTo = msg;
+    if (msg) {
+        chatReplyText.textContent = `Replying to ${msg.nickname}: ${msg.content}`;
+        chatReplyIndicator.classList.add("visible");
+        chatInput.focus();
+    } else {
+        chatReplyIndicator.classList.remove("visible");
+    }
+}
+
+btnCancelReply.addEventListener("click", () => setReplyTarget(null));
+
+/** Sets the files attached to the next send and shows them next to the input. */
+function setPendingFiles(files: File[]): void {
+    pendingFiles = files;
+    chatPendingFiles.innerHTML = "";
+    chatPendingFiles.classList.toggle("visible", files.length > 0);
+    if (files.length === 0) return;
+
+    const label = document.createElement("span");
+    label.textContent = files.length === 1
+        ? `📎 ${files[0].name}`
+        : `📎 ${files.length} files`;
+    label.title = files.map((f) => `${f.name} (${formatFileSize(f.size)})`).join("\n");
+    chatPendingFiles.appendChild(label);
+
+    const btnClear = document.createElement("button");
+    btnClear.textContent = "✕";
+    btnClear.title = "Remove attachments";
+    btnClear.addEventListener("click", () => setPendingFiles([]));
+    chatPendingFiles.appendChild(btnClear);
+}
+
+btnAttach.addEventListener("click", () => chatFileInput.click());
+
+chatFileInput.addEventListener("change", () => {
+    setPendingFiles(Array.from(chatFileInput.files ?? []));
+    chatFileInput.value = "";
+    chatInput.focus();
+});
+
+/** Swaps a message's text for an input; Enter saves, Escape cancels. */
+function startInlineEdit(el: HTMLDivElement, msg: ChatMessage): void {
+    const textEl = el.querySelector(".msg-text") as HTMLSpanElement | null;
+    if (!textEl || el.querySelector(".msg-edit-input")) return;
+
+    const input = document.createElement("input");
+    input.type = "text";
+    input.className = "msg-edit-input";
+    input.value = msg.content;
+
+    const cancel = (): void => {
+        input.replaceWith(textEl);
+    };
+
+    input.addEventListener("keydown", async (e) => {
+        if (e.key === "Escape") {
+            cancel();
+        } else if (e.key === "Enter") {
+            e.preventDefault();
+            const content = input.value.trim();
+            if (!content || content === msg.content) {
+                cancel();
+                return;
+            }
+            const result = await api.editMessage(msg.id, content);
+            if (result.success) {
+                // The MESSAGE_UPDATED broadcast re-renders the message
+                textEl.textContent = content;
+                cancel();
+            } else {
+                log(`Failed to edit message: ${result.error}`, "error");
+            }
+        }
+    });
+    input.addEventListener("blur", cancel);
+
+    textEl.replaceWith(input);
+    input.focus();
+}
+
+/** Shows (or hides) a message's previous versions beneath it. */
+async function toggleMessageHistory(el: HTMLDivElement, msg: ChatMessage): Promise<void> {
+    const existing = el.querySelector(".msg-history");
+    if (existing) {
+        existing.remove();
+        return;
+    }
+
+    const result = await api.getMessageHistory(msg.id);
+    if (!result.success) {
+        log(`Failed to load message history: ${result.error}`, "error");
+        return;
+    }
+
+    const historyEl = document.createElement("div");
+    historyEl.className = "msg-history";
+    for (const rev of result.revisions ?? []) {
+        const row = document.createElement("div");
+        const when = new Date(rev.createdAt).toLocaleString();
+        row.innerHTML = `<span class="msg-time">${when}</span>${escapeHtml(rev.content)}`;
+        historyEl.appendChild(row);
+    }
+    el.appendChild(historyEl);
+}
+
+// ── Chat Input ────────────────────────────────────────────────────────────
+
+async function sendChatMessage(): Promise<void> {
+    const content = chatInput.value.trim();
+    if ((!content && pendingFiles.length === 0) || activeTabId === "server-log") return;
+
+    const dmTab = dmTabs.get(activeTabId);
+    if (dmTab) {
+        if (!content) return;
+        chatInput.value = "";
+        await sendDirectMessage(dmTab, content);
+        return;
+    }
+
+    const channelId = activeTabId;
+
+    // Upload attachments first; keep the draft if that fails
+    let attachmentIds: string[] | undefined;
+    if (pendingFiles.length > 0) {
+        const files = await Promise.all(
+            pendingFiles.map(async (f) => ({ name: f.name, type: f.type, data: await f.arrayBuffer() })),
+        );
+        const upload = await api.uploadAttachments(channelId, files);
+        if (!upload.success || !upload.attachments) {
+            log(`Failed to upload files: ${upload.error}`, "error");
+            return;
+        }
+        attachmentIds = upload.attachments.map((a) => a.id);
+    }
+
+    const replyToId = replyingTo?.id;
+    chatInput.value = "";
+    setReplyTarget(null);
+    setPendingFiles([]);
+
+    const result = await api.sendMessage(channelId, content, replyToId, attachmentIds);
+    if (!result.success) {
+        log("Failed to send message", "error");
+    }
+}
+
+btnSend.addEventListener("click", () => sendChatMessage());
+
+chatInput.addEventListener("keydown", (e) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+        e.preventDefault();
+        sendChatMessage();
+    } else if (e.key === "Escape" && replyingTo) {
+        setReplyTarget(null);
+    }
+});
+
+// ── Message Search ────────────────────────────────────────────────────────
+
+const SEARCH_PAGE_SIZE = 25;
+
+const searchModal = document.getElementById("search-modal") as HTMLDivElement;
+const searchQuery = document.getElementById("search-query") as HTMLInputElement;
+const searchAuthor = document.getElementById("search-author") as HTMLInputElement;
+const searchChannel = document.getElementById("search-channel") as HTMLSelectElement;
+const searchAfter = document.getElementById("search-after") as HTMLInputElement;
+const searchBefore = document.getElementById("search-before") as HTMLInputElement;
+const searchResults = document.getElementById("search-results") as HTMLDivElement;
+const btnSearchMessages = document.getElementById("btn-search-messages") as HTMLButtonElement;
+const btnSearchRun = document.getElementById("btn-search-run") as HTMLButtonElement;
+const btnSearchMore = document.getElementById("btn-search-more") as HTMLButtonElement;
+const btnSearchClose = document.getElementById("btn-search-close") as HTMLButtonElement;
+
+let searchOffset = 0;
+
+/** Lists the text channels of the current tree in the channel filter. */
+function updateSearchChannelSelect(nodes: TreeNode[]): void {
+    const selected = searchChannel.value;
+    searchChannel.innerHTML = '<option value="">All channels</option>';
+
+    const addTextChannels = (list: TreeNode[]): void => {
+        for (const node of list) {
+            if (node.type === "TEXT") {
+                const option = document.createElement("option");
+                option.value = node.id;
+                option.textContent = `# ${node.name}`;
+                searchChannel.appendChild(option);
+            }
+            addTextChannels(node.children);
+        }
+    };
+    addTextChannels(nodes);
+
+    searchChannel.value = selected;
+}
+
+function openSearchModal(): void {
+    updateSearchChannelSelect(currentTree);
+    // Default to the open chat tab's channel
+    if (chatTabs.has(activeTabId)) {
+        searchChannel.value = activeTabId;
+    }
+    searchModal.classList.add("visible");
+    searchQuery.focus();
+}
+
+function closeSearchModal(): void {
+    searchModal.classList.remove("visible");
+}
+
+/** Runs the search; `append` loads the next page below the current results. */
+async function runSearch(append = false): Promise<void> {
+    if (!append) {
+        searchOffset = 0;
+        searchResults.innerHTML = "";
+    }
+
+    // Date inputs are local calendar days; "before" includes the whole day
+    const after = searchAfter.value ? new Date(`${searchAfter.value}T00:00`) : null;
+    const before = searchBefore.value ? new Date(`${searchBefore.value}T00:00`) : null;
+    before?.setDate(before.getDate() + 1);
+
+    const result = await api.searchMessages({
+        query: searchQuery.value.trim() || undefined,
+        author: searchAuthor.value.trim() || undefined,
+        channelId: searchChannel.value || undefined,
+        after: after?.toISOString(),
+        before: before?.toISOString(),
+        limit: SEARCH_PAGE_SIZE,
+        offset: searchOffset,
+    });
+
+    if (!result.success || !result.results) {
+        searchResults.innerHTML = `<div class="admin-empty">${escapeHtml(result.error ?? "Search failed")}</div>`;
+        btnSearchMore.style.display = "none";
+        return;
+    }
+
+    if (!append && result.results.length === 0) {
+        searchResults.innerHTML = '<div class="admin-empty">No messages found</div>';
+    }
+
+    for (const { message, snippet } of result.results) {
+        const channelName = findNode(currentTree, message.channelId)?.name ?? "unknown";
+        const row = document.createElement("div");
+        row.className = "search-result";
+
+        const text = snippet
+            .map((part) => part.match ? `<mark>${escapeHtml(part.text)}</mark>` : escapeHtml(part.text))
+            .join("");
+        const attachments = message.attachments.length > 0
+            ? ` 📎 ${message.attachments.length}`
+            : "";
+        row.innerHTML =
+            `<div class="search-result-meta"># ${escapeHtml(channelName)} · ` +
+            `<span class="msg-nick">${escapeHtml(message.nickname)}</span> · ` +
+            `${new Date(message.createdAt).toLocaleString()}${attachments}</div>` +
+            `<div class="search-result-snippet">${text}</div>`;
+
+        row.addEventListener("click", () => {
+            closeSearchModal();
+            openChatTab(message.channelId, channelName, message.id);
+        });
+        searchResults.appendChild(row);
+    }
+
+    searchOffset += result.results.length;
+    btnSearchMore.style.display = result.hasMore ? "" : "none";
+}
+
+btnSearchMessages.addEventListener("click", openSearchModal);
+btnSearchRun.addEventListener("click", () => runSearch());
+btnSearchMore.addEventListener("click", () => runSearch(true));
+btnSearchClose.addEventListener("click", closeSearchModal);
+
+for (const input of [searchQuery, searchAuthor]) {
+    input.addEventListener("keydown", (e) => {
+        if (e.key === "Enter") runSearch();
+        if (e.key === "Escape") closeSearchModal();
+    });
+}
+
+searchModal.addEventListener("click", (e) => {
+    if (e.target === searchModal) closeSearchModal();
+});
+
+// ── Server Log Tab Click ──────────────────────────────────────────────────
+
+const serverLogTab = tabBar.querySelector('.tab[data-tab-id="server-log"]');
+serverLogTab?.addEventListener("click", () => switchTab("server-log"));
+
+// ── Message Event Listener ────────────────────────────────────────────────
+
+api.on("message", (msg: ChatMessage) => {
+    const tab = chatTabs.get(msg.channelId);
+    if (tab) {
+        // New messages show up once the user jumps back to the present
+        if (!tab.viewingContext) {
+            renderChatMessage(tab, msg);
+        }
+        if (activeTabId !== msg.channelId) {
+            tab.tabEl.classList.add("unread");
+        }
+    }
+});
+
+api.on("message-updated", (msg: ChatMessage) => {
+    const tab = chatTabs.get(msg.channelId);
+    const el = tab?.messagesEl.querySelector(`.chat-msg[data-message-id="${msg.id}"]`);
+    if (tab && el) {
+        el.replaceWith(buildChatMessageEl(tab, msg));
+    }
+});
 
-        // User info
-        const infoEl = document.createElement("div");
-        infoEl.className = "admin-user-info";
-        infoEl.innerHTML = `
-            <div class="admin-user-nickname">${escapeHtml(user.nickname)}</div>
-            <div class="admin-user-id">${escapeHtml(user.id)}</div>
-        `;
-        row.appendChild(infoEl);
+api.on("message-deleted", (data: { channelId: string; messageId: string }) => {
+    const tab = chatTabs.get(data.channelId);
+    tab?.messagesEl.querySelector(`.chat-msg[data-message-id="${data.messageId}"]`)?.remove();
+    if (replyingTo?.id === data.messageId) {
+        setReplyTarget(null);
+    }
+});
 
-        // Role toggles
-        const badgesEl = document.createElement("div");
-        badgesEl.className = "admin-role-badges";
+api.on("reactions-updated", (data: { channelId: string; messageId: string; reactions: ReactionSummary[] }) => {
+    const tab = chatTabs.get(data.channelId);
+    const container = tab?.messagesEl.querySelector(
+        `.chat-msg[data-message-id="${data.messageId}"] .msg-reactions`,
+    ) as HTMLElement | null | undefined;
+    if (container) {
+        renderReactions(container, data.messageId, data.reactions);
+    }
+});
 
-        for (const role of allServerRoles) {
-            const badge = document.createElement("span");
-            badge.className = `role-badge${userRoleIds.has(role.id) ? " active" : ""}`;
-            badge.textContent = role.name;
-            if (role.color) {
-                badge.style.borderColor = role.color;
-                if (userRoleIds.has(role.id)) {
-                    badge.style.background = role.color;
-                    badge.style.color = "#fff";
-                }
-            }
+api.on("message-notification", (data: { channelId: string; nickname: string; mentioned: boolean }) => {
+    // Subscribed tabs get the full message instead
+    if (chatTabs.has(data.channelId)) return;
 
-            badge.addEventListener("click", async () => {
-                const hasRole = badge.classList.contains("active");
-                const action = hasRole ? "remove" : "add";
+    const unread = unreadChannels.get(data.channelId) ?? { count: 0, mentions: 0 };
+    unread.count++;
+    if (data.mentioned) {
+        unread.mentions++;
+        const channelName = findNode(currentTree, data.channelId)?.name ?? "a channel";
+        log(`${escapeHtml(data.nickname)} mentioned you in ${escapeHtml(channelName)}`, "info");
+    }
+    unreadChannels.set(data.channelId, unread);
+    renderTree(currentTree);
+});
 
-                // Block admin from removing their own admin role
-                const myId = api.getInstanceId();
-                if (action === "remove" && user.id === myId && role.name === "Server Admin") {
-                    log("You cannot remove your own admin role", "error");
-                    return;
-                }
+// ── Direct Messages ───────────────────────────────────────────────────────
 
-                const result = await api.assignRole(user.id, role.id, action);
-                if (result.success) {
-                    // Refresh the panel
-                    openSettingsPanel();
-                } else {
-                    log(`Failed to ${action} role: ${result.error}`, "error");
-                }
-            });
+const DM_LIST_TAB_ID = "dm-list";
 
-            badgesEl.appendChild(badge);
-        }
+function dmTabId(conversationId: string): string {
+    return `dm:${conversationId}`;
+}
 
-        row.appendChild(badgesEl);
-        adminUserList.appendChild(row);
-    }
+/** Names a conversation after its other members. */
+function conversationTitle(conversation: Conversation): string {
+    const others = conversation.members.filter((m) => m.userId !== currentUserId);
+    return others.length > 0 ? others.map((m) => m.nickname).join(", ") : "Just you";
 }
 
-// ── Tab Management ────────────────────────────────────────────────────────
+/** Finds the one-to-one conversation with a user, if it exists yet. */
+function findDirectConversation(userId: string): Conversation | undefined {
+    return conversations.find((c) =>
+        c.members.length === 2 && c.members.some((m) => m.userId === userId),
+    );
+}
 
-function switchTab(tabId: string): void {
-    activeTabId = tabId;
+/** Inserts or replaces a conversation, keeping the list most-recent first. */
+function upsertConversation(conversation: Conversation): void {
+    conversations = [conversation, ...conversations.filter((c) => c.id !== conversation.id)];
+    conversations.sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt));
+}
 
-    // Deactivate all tabs and content
-    tabBar.querySelectorAll(".tab").forEach((t) => t.classList.remove("active"));
-    tabContentArea.querySelectorAll(".tab-content").forEach((c) => c.classList.remove("active"));
+async function loadConversations(): Promise<void> {
+    const [convResult, blockResult] = await Promise.all([
+        api.getConversations(),
+        api.getBlockedUsers(),
+    ]);
+    if (convResult.success && convResult.conversations) {
+        conversations = convResult.conversations;
+    }
+    if (blockResult.success && blockResult.users) {
+        blockedUsers = blockResult.users;
+    }
+    renderConversationList();
+}
 
-    // Activate selected tab
-    const tabEl = tabBar.querySelector(`.tab[data-tab-id="${tabId}"]`);
-    const contentEl = tabContentArea.querySelector(`.tab-content[data-tab-id="${tabId}"]`);
-    tabEl?.classList.add("active");
-    contentEl?.classList.add("active");
+function renderConversationList(): void {
+    dmListTab.classList.toggle("unread", unreadConversations.size > 0);
+    dmListTab.textContent = unreadConversations.size > 0
+        ? `✉ Messages (${unreadConversations.size})`
+        : "✉ Messages";
 
-    // Show/hide chat input bar
-    if (tabId === "server-log") {
-        chatInputBar.classList.remove("visible");
-    } else {
-        chatInputBar.classList.add("visible");
-        chatInput.focus();
+    dmListEl.innerHTML = "";
+
+    if (conversations.length === 0) {
+        dmListEl.innerHTML = `<div class="dm-empty">No conversations yet. Double-click someone in a voice channel to message them.</div>`;
     }
-}
 
-function openChatTab(channelId: string, channelName: string): void {
-    // If tab already exists, just switch to it
-    if (chatTabs.has(channelId)) {
-        switchTab(channelId);
-        return;
+    for (const conversation of conversations) {
+        const row = document.createElement("div");
+        row.className = "dm-row";
+        if (unreadConversations.has(conversation.id)) row.classList.add("unread");
+        row.innerHTML = `<span class="dm-row-title">${escapeHtml(conversationTitle(conversation))}</span><span class="dm-row-time">${new Date(conversation.lastActivityAt).toLocaleString()}</span>`;
+        row.addEventListener("click", () => openDmTab(conversation));
+        dmListEl.appendChild(row);
     }
 
-    // Create tab button
+    if (blockedUsers.length > 0) {
+        const header = document.createElement("div");
+        header.className = "dm-section-header";
+        header.textContent = "Blocked users";
+        dmListEl.appendChild(header);
+
+        for (const user of blockedUsers) {
+            const row = document.createElement("div");
+            row.className = "dm-row blocked";
+            row.innerHTML = `<span class="dm-row-title">${escapeHtml(user.nickname)}</span>`;
+            const btn = document.createElement("button");
+            btn.className = "btn btn-cancel";
+            btn.textContent = "Unblock";
+            btn.addEventListener("click", () => setBlocked(user.userId, user.nickname, false));
+            row.appendChild(btn);
+            dmListEl.appendChild(row);
+        }
+    }
+}
+
+function createDmTab(tabId: string, title: string): DmTab {
     const tabEl = document.createElement("div");
     tabEl.className = "tab";
-    tabEl.dataset.tabId = channelId;
-    tabEl.innerHTML = `💬 ${escapeHtml(channelName)} <span class="tab-close">✕</span>`;
+    tabEl.dataset.tabId = tabId;
+    tabEl.innerHTML = `✉ ${escapeHtml(title)} <span class="tab-close">✕</span>`;
 
+    const tab: DmTab = {
+        conversation: null,
+        recipient: null,
+        tabEl,
+        contentEl: document.createElement("div"),
+        messagesEl: document.createElement("div"),
+        loaded: false,
+    };
+
+    // Look the tab up on click: a draft tab is re-keyed once its conversation exists
     tabEl.addEventListener("click", (e) => {
-        // Check if close button was clicked
+        const currentId = tabEl.dataset.tabId!;
         if ((e.target as HTMLElement).classList.contains("tab-close")) {
-            closeTab(channelId);
+            closeDmTab(currentId);
         } else {
-            switchTab(channelId);
+            switchTab(currentId);
         }
     });
-
     tabBar.appendChild(tabEl);
 
-    // Create tab content
-    const contentEl = document.createElement("div");
-    contentEl.className = "tab-content";
-    contentEl.dataset.tabId = channelId;
+    tab.contentEl.className = "tab-content";
+    tab.contentEl.dataset.tabId = tabId;
+    tab.messagesEl.className = "chat-messages";
+    tab.contentEl.appendChild(tab.messagesEl);
+    tabContentArea.appendChild(tab.contentEl);
 
-    const messagesEl = document.createElement("div");
-    messagesEl.className = "chat-messages";
-    contentEl.appendChild(messagesEl);
+    dmTabs.set(tabId, tab);
+    return tab;
+}
 
-    tabContentArea.appendChild(contentEl);
+function openDmTab(conversation: Conversation): void {
+    const tabId = dmTabId(conversation.id);
+    unreadConversations.delete(conversation.id);
+    renderConversationList();
 
-    // Store tab state
-    const chatTab: ChatTab = {
-        channelId,
-        channelName,
-        tabEl,
-        contentEl,
-        messagesEl,
-        loaded: false,
-    };
-    chatTabs.set(channelId, chatTab);
+    if (dmTabs.has(tabId)) {
+        switchTab(tabId);
+        return;
+    }
 
-    // Switch to the new tab
-    switchTab(channelId);
+    const tab = createDmTab(tabId, conversationTitle(conversation));
+    tab.conversation = conversation;
+    switchTab(tabId);
+    loadDirectMessages(tab);
+}
 
-    // Fetch message history
-    loadChatHistory(chatTab);
+/**
+ * Opens the conversation with a user, or a draft tab if there is none yet —
+ * the server creates the conversation with the first message.
+ */
+function openDmWith(userId: string, nickname: string): void {
+    const existing = findDirectConversation(userId);
+    if (existing) {
+        openDmTab(existing);
+        return;
+    }
+
+    const tabId = `dm:new:${userId}`;
+    if (!dmTabs.has(tabId)) {
+        const tab = createDmTab(tabId, nickname);
+        tab.recipient = { userId, nickname };
+        tab.loaded = true;
+    }
+    switchTab(tabId);
 }
 
-function closeTab(channelId: string): void {
-    const tab = chatTabs.get(channelId);
+function closeDmTab(tabId: string): void {
+    const tab = dmTabs.get(tabId);
     if (!tab) return;
 
     tab.tabEl.remove();
     tab.contentEl.remove();
-    chatTabs.delete(channelId);
+    dmTabs.delete(tabId);
 
-    // If this was the active tab, switch to server log
-    if (activeTabId === channelId) {
-        switchTab("server-log");
+    if (activeTabId === tabId) {
+        switchTab(DM_LIST_TAB_ID);
     }
 }
 
-async function loadChatHistory(tab: ChatTab): Promise<void> {
-    if (tab.loaded) return;
+async function loadDirectMessages(tab: DmTab): Promise<void> {
+    if (tab.loaded || !tab.conversation) return;
     tab.loaded = true;
 
-    const result = await api.fetchMessages(tab.channelId);
+    const result = await api.fetchDirectMessages(tab.conversation.id);
     if (result.success && result.messages) {
         for (const msg of result.messages) {
-            renderChatMessage(tab, msg);
+            renderDirectMessage(tab, msg);
         }
+    } else {
+        log(`Failed to load conversation: ${result.error}`, "error");
     }
 }
 
-function renderChatMessage(tab: ChatTab, msg: ChatMessage): void {
+function renderDirectMessage(tab: DmTab, msg: DirectMessage): void {
+    // The sender's own message arrives both as the ack and as a broadcast
+    if (tab.messagesEl.querySelector(`.chat-msg[data-message-id="${msg.id}"]`)) return;
+
     const el = document.createElement("div");
     el.className = "chat-msg";
-
+    el.dataset.messageId = msg.id;
     const time = new Date(msg.createdAt).toLocaleTimeString();
     el.innerHTML = `<span class="msg-time">${time}</span><span class="msg-nick">${escapeHtml(msg.nickname)}</span><span class="msg-text">${escapeHtml(msg.content)}</span>`;
 
@@ -801,42 +3021,71 @@ function renderChatMessage(tab: ChatTab, msg: ChatMessage): void {
     tab.messagesEl.scrollTop = tab.messagesEl.scrollHeight;
 }
 
-// ── Chat Input ────────────────────────────────────────────────────────────
-
-async function sendChatMessage(): Promise<void> {
-    const content = chatInput.value.trim();
-    if (!content || activeTabId === "server-log") return;
+async function sendDirectMessage(tab: DmTab, content: string): Promise<void> {
+    const target = tab.conversation
+        ? { conversationId: tab.conversation.id }
+        : { recipientIds: [tab.recipient!.userId] };
 
-    const channelId = activeTabId;
-    chatInput.value = "";
+    const result = await api.sendDirectMessage(target, content);
+    if (!result.success || !result.conversation || !result.message) {
+        if (result.code === "BLOCKED") {
+            log("Message not sent: one of you has blocked the other", "error");
+        } else {
+            log(`Failed to send message: ${result.error}`, "error");
+        }
+        return;
+    }
 
-    const result = await api.sendMessage(channelId, content);
-    if (!result.success) {
-        log("Failed to send message", "error");
+    upsertConversation(result.conversation);
+
+    // First message of a draft: the tab now belongs to the new conversation
+    if (!tab.conversation) {
+        const oldId = tab.tabEl.dataset.tabId!;
+        const newId = dmTabId(result.conversation.id);
+        tab.conversation = result.conversation;
+        tab.recipient = null;
+        tab.tabEl.dataset.tabId = newId;
+        tab.contentEl.dataset.tabId = newId;
+        dmTabs.delete(oldId);
+        dmTabs.set(newId, tab);
+        if (activeTabId === oldId) activeTabId = newId;
     }
-}
 
-btnSend.addEventListener("click", () => sendChatMessage());
+    unreadConversations.delete(result.conversation.id);
+    renderDirectMessage(tab, result.message);
+    renderConversationList();
+}
 
-chatInput.addEventListener("keydown", (e) => {
-    if (e.key === "Enter" && !e.shiftKey) {
-        e.preventDefault();
-        sendChatMessage();
+async function setBlocked(userId: string, nickname: string, blocked: boolean): Promise<void> {
+    const result = blocked ? await api.blockUser(userId) : await api.unblockUser(userId);
+    if (!result.success) {
+        log(`Failed to ${blocked ? "block" : "unblock"} ${escapeHtml(nickname)}: ${result.error}`, "error");
+        return;
     }
-});
 
-// ── Server Log Tab Click ──────────────────────────────────────────────────
+    blockedUsers = blockedUsers.filter((u) => u.userId !== userId);
+    if (blocked) blockedUsers.push({ userId, nickname });
+    log(`${blocked ? "Blocked" : "Unblocked"} ${escapeHtml(nickname)}`, "info");
+    renderConversationList();
+}
 
-const serverLogTab = tabBar.querySelector('.tab[data-tab-id="server-log"]');
-serverLogTab?.addEventListener("click", () => switchTab("server-log"));
+dmListTab.addEventListener("click", () => switchTab(DM_LIST_TAB_ID));
 
-// ── Message Event Listener ────────────────────────────────────────────────
+api.on("direct-message", (data: { conversation: Conversation; message: DirectMessage }) => {
+    upsertConversation(data.conversation);
 
-api.on("message", (msg: ChatMessage) => {
-    const tab = chatTabs.get(msg.channelId);
+    const tab = dmTabs.get(dmTabId(data.conversation.id));
     if (tab) {
-        renderChatMessage(tab, msg);
+        if (tab.loaded) renderDirectMessage(tab, data.message);
+        if (activeTabId !== dmTabId(data.conversation.id)) {
+            tab.tabEl.classList.add("unread");
+        }
+    } else if (data.message.userId !== currentUserId) {
+        unreadConversations.add(data.conversation.id);
+        log(`New direct message from ${escapeHtml(data.message.nickname)}`, "info");
     }
+
+    renderConversationList();
 });
 
 // ── Unified Settings Modal (Tabs) ─────────────────────────────────────
@@ -855,6 +3104,9 @@ settingsTabBtns.forEach((btn) => {
         settingsPanels.forEach((p) => p.classList.remove("active"));
         btn.classList.add("active");
         document.querySelector(`.settings-panel[data-settings-panel="${tabId}"]`)?.classList.add("active");
+
+        if (tabId === "voice") startVadCalibration();
+        else stopVadCalibration();
     });
 });
 
@@ -863,6 +3115,9 @@ async function openSettingsPanel(): Promise<void> {
 
     // Populate audio devices
     await populateAudioDevices();
+    if (document.querySelector('.settings-panel[data-settings-panel="voice"]')?.classList.contains("active")) {
+        startVadCalibration();
+    }
 
     // Fetch users and roles concurrently
     const [usersRes, rolesRes] = await Promise.all([
@@ -872,9 +3127,12 @@ async function openSettingsPanel(): Promise<void> {
 
     isAdminUser = usersRes.success;
     settingsTabRoles.disabled = !isAdminUser;
+    settingsTabChannelPerms.disabled = !isAdminUser;
 
     if (isAdminUser) {
         allServerRoles = rolesRes.roles ?? [];
+        allServerUsers = usersRes.users ?? [];
+        renderRoleList();
         renderAdminUsers(usersRes.users ?? []);
     } else {
         adminUserList.innerHTML = '<div class="admin-empty">You don\'t have permission to manage roles.</div>';
@@ -889,12 +3147,14 @@ btnServerSettings.addEventListener("click", () => {
 btnAdminClose.addEventListener("click", () => {
     adminModal.classList.remove("visible");
     activeShortcutSlot = null;
+    stopVadCalibration();
 });
 
 adminModal.addEventListener("click", (e) => {
     if (e.target === adminModal) {
         adminModal.classList.remove("visible");
         activeShortcutSlot = null;
+        stopVadCalibration();
     }
 });
 
@@ -906,33 +3166,235 @@ const savedOutputDevice = localStorage.getItem("reson8-audio-output") || "";
 if (savedInputDevice) {
     api.setAudioInputDevice(savedInputDevice);
 }
+if (savedOutputDevice) {
+    api.setAudioOutputDevice(savedOutputDevice);
+}
 
 async function populateAudioDevices(): Promise<void> {
-    // Read fresh from localStorage every time so saved choices are reflected on re-open
-    const currentInputDevice = localStorage.getItem("reson8-audio-input") || "";
-    const currentOutputDevice = localStorage.getItem("reson8-audio-output") || "";
+    // Read fresh from localStorage every time so saved choices are reflected on re-open,
+    // but keep unsaved picks when refreshing after a device change
+    const isDirty = voiceDeviceUnsaved.style.display === "inline";
+    const currentInputDevice = isDirty
+        ? audioInputSelect.value
+        : localStorage.getItem("reson8-audio-input") || "";
+    const currentOutputDevice = isDirty
+        ? audioOutputSelect.value
+        : localStorage.getItem("reson8-audio-output") || "";
 
     const { inputs, outputs } = await api.enumerateAudioDevices();
+    fillDeviceSelect(audioInputSelect, inputs, currentInputDevice);
+    fillDeviceSelect(audioOutputSelect, outputs, currentOutputDevice);
+    updatePipelineDeviceLabel();
+}
 
-    audioInputSelect.innerHTML = '<option value="">System Default</option>';
-    for (const d of inputs) {
+/**
+ * Lists devices in a select. A chosen device that is currently unplugged
+ * stays selected (marked disconnected) so saving doesn't drop the choice.
+ */
+function fillDeviceSelect(
+    select: HTMLSelectElement,
+    devices: { deviceId: string; label: string }[],
+    selectedId: string,
+): void {
+    select.innerHTML = '<option value="">System Default</option>';
+    for (const d of devices) {
         const opt = document.createElement("option");
         opt.value = d.deviceId;
         opt.textContent = d.label;
-        if (d.deviceId === currentInputDevice) opt.selected = true;
-        audioInputSelect.appendChild(opt);
+        if (d.deviceId === selectedId) opt.selected = true;
+        select.appendChild(opt);
     }
 
-    audioOutputSelect.innerHTML = '<option value="">System Default</option>';
-    for (const d of outputs) {
+    if (selectedId && !devices.some((d) => d.deviceId === selectedId)) {
         const opt = document.createElement("option");
-        opt.value = d.deviceId;
-        opt.textContent = d.label;
-        if (d.deviceId === currentOutputDevice) opt.selected = true;
-        audioOutputSelect.appendChild(opt);
+        opt.value = selectedId;
+        opt.textContent = "⚠ Disconnected device (using System Default)";
+        opt.selected = true;
+        select.appendChild(opt);
+    }
+}
+
+// Devices plugged in or removed: refresh the lists and report speaker fallback
+let isOutputFallback = false;
+api.on("audio-devices-changed", (data: { outputAvailable: boolean }) => {
+    populateAudioDevices();
+
+    if (!data.outputAvailable && !isOutputFallback) {
+        log("Speaker disconnected — playing through the system default", "info");
+    } else if (data.outputAvailable && isOutputFallback) {
+        log("Speaker reconnected", "info");
+    }
+    isOutputFallback = !data.outputAvailable;
+});
+
+// Mic lost mid-call — the voice service already switched to the default
+api.on("input-device-lost", () => {
+    log("Microphone disconnected — switched to the system default", "error");
+    populateAudioDevices();
+});
+
+// Echo cancellation / noise suppression / AGC — applied live, saved immediately
+const processingToggles: Record<keyof AudioProcessingSettings, HTMLInputElement> = {
+    echoCancellation: document.getElementById("processing-echo-cancellation") as HTMLInputElement,
+    noiseSuppression: document.getElementById("processing-noise-suppression") as HTMLInputElement,
+    autoGainControl: document.getElementById("processing-auto-gain-control") as HTMLInputElement,
+};
+
+const audioProcessing: AudioProcessingSettings = (() => {
+    const defaults: AudioProcessingSettings = { echoCancellation: true, noiseSuppression: true, autoGainControl: true };
+    try {
+        return { ...defaults, ...JSON.parse(localStorage.getItem("reson8-audio-processing") ?? "{}") };
+    } catch {
+        return defaults; // ignore corrupt data
+    }
+})();
+api.setAudioProcessing(audioProcessing);
+
+for (const [key, toggle] of Object.entries(processingToggles) as [keyof AudioProcessingSettings, HTMLInputElement][]) {
+    toggle.checked = audioProcessing[key];
+    toggle.addEventListener("change", async () => {
+        audioProcessing[key] = toggle.checked;
+        localStorage.setItem("reson8-audio-processing", JSON.stringify(audioProcessing));
+        const ok = await api.setAudioProcessing(audioProcessing);
+        if (!ok) log("Selected microphone is unavailable — using the system default", "error");
+    });
+}
+
+// Processing chain (denoiser, gate, compressor, gain, limiter) — one set per saved mic
+const DEFAULT_AUDIO_PIPELINE: AudioPipelineSettings = {
+    denoiser: false,
+    noiseGate: { enabled: false, thresholdDb: -50 },
+    compressor: { enabled: false, thresholdDb: -24, ratio: 4 },
+    gainDb: 0,
+    limiter: true,
+};
+
+const pipelineDeviceLabel = document.getElementById("pipeline-device-label") as HTMLSpanElement;
+const pipelineDenoiserRow = document.getElementById("pipeline-denoiser-row") as HTMLDivElement;
+const pipelineDenoiser = document.getElementById("pipeline-denoiser") as HTMLInputElement;
+const pipelineGate = document.getElementById("pipeline-gate") as HTMLInputElement;
+const pipelineGateThreshold = document.getElementById("pipeline-gate-threshold") as HTMLInputElement;
+const pipelineGateThresholdValue = document.getElementById("pipeline-gate-threshold-value") as HTMLSpanElement;
+const pipelineCompressor = document.getElementById("pipeline-compressor") as HTMLInputElement;
+const pipelineGain = document.getElementById("pipeline-gain") as HTMLInputElement;
+const pipelineGainValue = document.getElementById("pipeline-gain-value") as HTMLSpanElement;
+const pipelineLimiter = document.getElementById("pipeline-limiter") as HTMLInputElement;
+const pipelineLoopback = document.getElementById("pipeline-loopback") as HTMLInputElement;
+
+/** Saved chains keyed by input deviceId ("" = system default). */
+const audioPipelines: Record<string, AudioPipelineSettings> = (() => {
+    try {
+        return JSON.parse(localStorage.getItem("reson8-audio-pipeline") ?? "{}");
+    } catch {
+        return {}; // ignore corrupt data
     }
+})();
+let audioPipeline: AudioPipelineSettings = structuredClone(DEFAULT_AUDIO_PIPELINE);
+let denoiserWarned = false;
+
+// The denoiser toggle only shows when an RNNoise model is installed
+const denoiserAvailable = api.isDenoiserAvailable();
+pipelineDenoiserRow.style.display = denoiserAvailable ? "" : "none";
+
+/** Applies the chain, warning once if the installed denoiser model fails to load. */
+async function applyAudioPipeline(): Promise<void> {
+    const denoiserActive = await api.setAudioPipeline(audioPipeline);
+    if (audioPipeline.denoiser && denoiserActive === false && !denoiserWarned) {
+        denoiserWarned = true;
+        log("Denoiser unavailable — rnnoise.wasm in the worklets folder could not be loaded", "error");
+    }
+}
+
+/** Loads (and applies) the chain saved for the saved input device. */
+function loadAudioPipeline(): void {
+    const deviceId = localStorage.getItem("reson8-audio-input") || "";
+    const saved = audioPipelines[deviceId];
+    audioPipeline = {
+        ...structuredClone(DEFAULT_AUDIO_PIPELINE),
+        ...saved,
+        noiseGate: { ...DEFAULT_AUDIO_PIPELINE.noiseGate, ...saved?.noiseGate },
+        compressor: { ...DEFAULT_AUDIO_PIPELINE.compressor, ...saved?.compressor },
+    };
+    if (!denoiserAvailable) audioPipeline.denoiser = false;
+    updatePipelineDeviceLabel();
+    pipelineDenoiser.checked = audioPipeline.denoiser;
+    pipelineGate.checked = audioPipeline.noiseGate.enabled;
+    pipelineGateThreshold.value = String(audioPipeline.noiseGate.thresholdDb);
+    pipelineGateThresholdValue.textContent = `${audioPipeline.noiseGate.thresholdDb} dB`;
+    pipelineCompressor.checked = audioPipeline.compressor.enabled;
+    pipelineGain.value = String(audioPipeline.gainDb);
+    pipelineGainValue.textContent = `${audioPipeline.gainDb > 0 ? "+" : ""}${audioPipeline.gainDb} dB`;
+    pipelineLimiter.checked = audioPipeline.limiter;
+    applyAudioPipeline();
 }
 
+/** Names the saved mic the chain settings belong to. */
+function updatePipelineDeviceLabel(): void {
+    const deviceId = localStorage.getItem("reson8-audio-input") || "";
+    const option = Array.from(audioInputSelect.options).find((o) => o.value === deviceId);
+    pipelineDeviceLabel.textContent = deviceId
+        ? option?.textContent ?? "Saved Microphone"
+        : "System Default";
+}
+
+function saveAudioPipeline(): void {
+    const deviceId = localStorage.getItem("reson8-audio-input") || "";
+    audioPipelines[deviceId] = audioPipeline;
+    localStorage.setItem("reson8-audio-pipeline", JSON.stringify(audioPipelines));
+    applyAudioPipeline();
+}
+
+loadAudioPipeline();
+
+pipelineDenoiser.addEventListener("change", () => {
+    audioPipeline.denoiser = pipelineDenoiser.checked;
+    saveAudioPipeline();
+});
+pipelineGate.addEventListener("change", () => {
+    audioPipeline.noiseGate.enabled = pipelineGate.checked;
+    saveAudioPipeline();
+});
+pipelineGateThreshold.addEventListener("change", () => {
+    audioPipeline.noiseGate.thresholdDb = parseInt(pipelineGateThreshold.value, 10);
+    saveAudioPipeline();
+});
+pipelineGateThreshold.addEventListener("input", () => {
+    pipelineGateThresholdValue.textContent = `${pipelineGateThreshold.value} dB`;
+});
+pipelineCompressor.addEventListener("change", () => {
+    audioPipeline.compressor.enabled = pipelineCompressor.checked;
+    saveAudioPipeline();
+});
+pipelineGain.addEventListener("change", () => {
+    audioPipeline.gainDb = parseInt(pipelineGain.value, 10);
+    saveAudioPipeline();
+});
+pipelineGain.addEventListener("input", () => {
+    const gainDb = parseInt(pipelineGain.value, 10);
+    pipelineGainValue.textContent = `${gainDb > 0 ? "+" : ""}${gainDb} dB`;
+});
+pipelineLimiter.addEventListener("change", () => {
+    audioPipeline.limiter = pipelineLimiter.checked;
+    saveAudioPipeline();
+});
+pipelineLoopback.addEventListener("change", () => {
+    api.setLoopback(pipelineLoopback.checked);
+});
+
+// Master output volume — applied live, saved immediately
+const masterVolumeSlider = document.getElementById("master-volume") as HTMLInputElement;
+const masterVolumeValue = document.getElementById("master-volume-value") as HTMLSpanElement;
+const savedMasterVolume = localStorage.getItem("reson8-audio-master-volume");
+masterVolumeSlider.value = savedMasterVolume ?? "100";
+masterVolumeValue.textContent = `${masterVolumeSlider.value}%`;
+api.setMasterVolume(parseInt(masterVolumeSlider.value, 10) / 100);
+
+masterVolumeSlider.addEventListener("input", () => {
+    masterVolumeValue.textContent = `${masterVolumeSlider.value}%`;
+    localStorage.setItem("reson8-audio-master-volume", masterVolumeSlider.value);
+    api.setMasterVolume(parseInt(masterVolumeSlider.value, 10) / 100);
+});
+
 // Mark unsaved changes when the user changes either device selector
 function markVoiceDevicesDirty(): void {
     voiceDeviceUnsaved.style.display = "inline";
@@ -943,19 +3405,20 @@ audioOutputSelect.addEventListener("change", markVoiceDevicesDirty);
 
 // Save button — applies + persists both device selections
 btnSaveVoiceDevices.addEventListener("click", () => {
-    // Apply microphone change
+    // Apply microphone change (switches live while in voice)
     const inputId = audioInputSelect.value || null;
-    api.setAudioInputDevice(inputId);
     localStorage.setItem("reson8-audio-input", audioInputSelect.value);
+    api.setAudioInputDevice(inputId).then((ok) => {
+        if (!ok) log("Selected microphone is unavailable — using the system default", "error");
+    });
+    loadAudioPipeline();
 
-    // Apply speaker change (can be done live for existing audio elements)
+    // Apply speaker change (live, for current and future voice audio)
     localStorage.setItem("reson8-audio-output", audioOutputSelect.value);
-    const audioEls = document.querySelectorAll("audio");
-    for (const el of audioEls) {
-        if ((el as any).setSinkId) {
-            (el as any).setSinkId(audioOutputSelect.value).catch(() => { });
-        }
-    }
+    api.setAudioOutputDevice(audioOutputSelect.value || null).then((ok) => {
+        isOutputFallback = !ok;
+        if (!ok) log("Selected speaker is unavailable — using the system default", "error");
+    });
 
     // Dismiss the unsaved indicator
     voiceDeviceUnsaved.style.display = "none";
@@ -963,10 +3426,6 @@ btnSaveVoiceDevices.addEventListener("click", () => {
     const inputLabel = audioInputSelect.selectedOptions[0]?.textContent ?? "System Default";
     const outputLabel = audioOutputSelect.selectedOptions[0]?.textContent ?? "System Default";
     log(`Voice devices saved — Mic: ${inputLabel} | Speaker: ${outputLabel}`, "success");
-
-    if (isInVoice) {
-        log("Microphone change will apply when you next join a voice channel.", "info");
-    }
 });
 
 // ── Multi-Key Combo Shortcuts ───────────────────────────────────────
@@ -1031,8 +3490,119 @@ pttModeToggle.addEventListener("change", () => {
     isPttMode = pttModeToggle.checked;
     localStorage.setItem("reson8-ptt-mode", String(isPttMode));
     log(`PTT Mode ${isPttMode ? "enabled" : "disabled"}`, "info");
+
+    // PTT and voice activation are mutually exclusive
+    if (isPttMode && voiceActivation.enabled) {
+        voiceActivation.enabled = false;
+        saveVoiceActivation();
+    }
+});
+
+// ── Voice Activation ────────────────────────────────────────────────
+
+const vadModeToggle = document.getElementById("vad-mode-toggle") as HTMLInputElement;
+const vadThreshold = document.getElementById("vad-threshold") as HTMLInputElement;
+const vadHold = document.getElementById("vad-hold") as HTMLInputElement;
+const vadRelease = document.getElementById("vad-release") as HTMLInputElement;
+const vadMeterFill = document.getElementById("vad-meter-fill") as HTMLDivElement;
+const vadMeterThreshold = document.getElementById("vad-meter-threshold") as HTMLDivElement;
+
+/** Floor of the calibration meter, matching the voice service. */
+const VAD_MIN_DB = -60;
+
+let vadMeterTimer: ReturnType<typeof setInterval> | null = null;
+
+function loadVoiceActivation(): VoiceActivationSettings {
+    const defaults: VoiceActivationSettings = { enabled: false, thresholdDb: -45, holdMs: 300, releaseMs: 150 };
+    try {
+        return { ...defaults, ...JSON.parse(localStorage.getItem("reson8-audio-vad") ?? "{}") };
+    } catch {
+        return defaults; // ignore corrupt data
+    }
+}
+
+let voiceActivation = loadVoiceActivation();
+api.setVoiceActivation(voiceActivation);
+renderVoiceActivation();
+
+function dbToPercent(db: number): number {
+    return Math.round(((db - VAD_MIN_DB) / -VAD_MIN_DB) * 100);
+}
+
+function renderVoiceActivation(): void {
+    vadModeToggle.checked = voiceActivation.enabled;
+    vadThreshold.value = String(voiceActivation.thresholdDb);
+    vadHold.value = String(voiceActivation.holdMs);
+    vadRelease.value = String(voiceActivation.releaseMs);
+    document.getElementById("vad-threshold-value")!.textContent = `${voiceActivation.thresholdDb} dB`;
+    document.getElementById("vad-hold-value")!.textContent = `${voiceActivation.holdMs} ms`;
+    document.getElementById("vad-release-value")!.textContent = `${voiceActivation.releaseMs} ms`;
+    vadMeterThreshold.style.left = `${dbToPercent(voiceActivation.thresholdDb)}%`;
+}
+
+/** Persists the settings with the other audio settings and applies them. */
+function saveVoiceActivation(): void {
+    localStorage.setItem("reson8-audio-vad", JSON.stringify(voiceActivation));
+    api.setVoiceActivation(voiceActivation);
+    renderVoiceActivation();
+}
+
+vadModeToggle.addEventListener("change", () => {
+    voiceActivation.enabled = vadModeToggle.checked;
+    saveVoiceActivation();
+    log(`Voice Activation ${voiceActivation.enabled ? "enabled" : "disabled"}`, "info");
+
+    if (voiceActivation.enabled && isPttMode) {
+        isPttMode = false;
+        pttModeToggle.checked = false;
+        localStorage.setItem("reson8-ptt-mode", "false");
+    }
+});
+
+vadThreshold.addEventListener("input", () => {
+    voiceActivation.thresholdDb = parseInt(vadThreshold.value, 10);
+    saveVoiceActivation();
+});
+
+vadHold.addEventListener("input", () => {
+    voiceActivation.holdMs = parseInt(vadHold.value, 10);
+    saveVoiceActivation();
 });
 
+vadRelease.addEventListener("input", () => {
+    voiceActivation.releaseMs = parseInt(vadRelease.value, 10);
+    saveVoiceActivation();
+});
+
+/** Shows the live mic level against the threshold while the voice tab is open. */
+async function startVadCalibration(): Promise<void> {
+    if (vadMeterTimer) return;
+    vadMeterTimer = setInterval(() => {
+        const db = api.getInputLevelDb();
+        vadMeterFill.style.width = `${dbToPercent(db)}%`;
+        vadMeterFill.classList.toggle("open", db >= voiceActivation.thresholdDb);
+    }, 50);
+
+    const result = await api.startMicTest(localStorage.getItem("reson8-audio-input") || null);
+    if (!vadMeterTimer) {
+        api.stopMicTest(); // closed while the mic was opening
+    } else if (!result.success) {
+        log(`Mic test unavailable: ${result.error}`, "error");
+    }
+}
+
+function stopVadCalibration(): void {
+    if (!vadMeterTimer) return;
+    clearInterval(vadMeterTimer);
+    vadMeterTimer = null;
+    vadMeterFill.style.width = "0";
+    if (pipelineLoopback.checked) {
+        pipelineLoopback.checked = false;
+        api.setLoopback(false);
+    }
+    api.stopMicTest();
+}
+
 // Load saved shortcuts
 for (const slot of Object.keys(shortcuts) as ShortcutSlot[]) {
     const saved = localStorage.getItem(`reson8-shortcut-${slot}`);
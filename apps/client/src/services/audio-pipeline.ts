@@ -0,0 +1,335 @@
+/**
+ * AudioPipeline — client-side mic processing chain.
+ *
+ *   source → [denoiser] → noise gate → compressor → gain → limiter → output
+ *
+ * Each stage is a small Web Audio subgraph (ProcessingStage); the chain is
+ * rebuilt between two fixed nodes whenever settings change, so whatever is
+ * connected to `input`/`output` stays connected. The optional denoiser is
+ * an RNNoise-style WASM model run in an AudioWorklet; when its assets are
+ * missing the chain simply runs without it.
+ *
+ * Also home to MicTest, which runs the same chain outside a voice session
+ * for the settings panel's level meter and "hear myself" loopback.
+ */
+
+/** Floor of the level meter; anything quieter reads as silence. */
+export const MIN_LEVEL_DB = -60;
+
+/** Current RMS level of an analyser's input in dBFS, clamped to MIN_LEVEL_DB. */
+export function readLevelDb(analyser: AnalyserNode): number {
+    const samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    const rms = Math.sqrt(sum / samples.length);
+    if (rms === 0) return MIN_LEVEL_DB;
+    return Math.max(MIN_LEVEL_DB, Math.min(0, 20 * Math.log10(rms)));
+}
+
+/** Processing chain settings — the renderer keeps one set per input device. */
+export interface AudioPipelineSettings {
+    /** RNNoise-style denoiser (needs the worklet assets). */
+    denoiser: boolean;
+    noiseGate: { enabled: boolean; thresholdDb: number };
+    compressor: { enabled: boolean; thresholdDb: number; ratio: number };
+    /** Make-up gain in dB, -12 to +12. */
+    gainDb: number;
+    /** Brick-wall limiter just below 0 dBFS. */
+    limiter: boolean;
+}
+
+export const DEFAULT_AUDIO_PIPELINE: AudioPipelineSettings = {
+    denoiser: false,
+    noiseGate: { enabled: false, thresholdDb: -50 },
+    compressor: { enabled: false, thresholdDb: -24, ratio: 4 },
+    gainDb: 0,
+    limiter: true,
+};
+
+/** Where the denoiser worklet and its WASM model come from (supplied by the preload). */
+export interface DenoiserAssets {
+    workletUrl: string;
+    loadWasm(): Promise<ArrayBuffer>;
+}
+
+/** The AudioWorkletProcessor name registered by worklets/rnnoise-processor. */
+const DENOISER_PROCESSOR = "rnnoise-processor";
+
+/** One link in the chain. */
+interface ProcessingStage {
+    input: AudioNode;
+    output: AudioNode;
+    dispose(): void;
+}
+
+/** How often the noise gate samples its input (ms), and how long it stays open. */
+const NOISE_GATE_POLL_MS = 10;
+const NOISE_GATE_HOLD_MS = 80;
+
+function createNoiseGate(context: AudioContext, thresholdDb: number): ProcessingStage {
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 256;
+    const gain = context.createGain();
+    analyser.connect(gain);
+
+    let lastOpenAt = 0;
+    const timer = setInterval(() => {
+        const now = Date.now();
+        if (readLevelDb(analyser) >= thresholdDb) {
+            lastOpenAt = now;
+            gain.gain.setTargetAtTime(1, context.currentTime, 0.005);
+        } else if (now - lastOpenAt > NOISE_GATE_HOLD_MS) {
+            gain.gain.setTargetAtTime(0, context.currentTime, 0.05);
+        }
+    }, NOISE_GATE_POLL_MS);
+
+    return {
+        input: analyser,
+        output: gain,
+        dispose: () => {
+            clearInterval(timer);
+            analyser.disconnect();
+            gain.disconnect();
+        },
+    };
+}
+
+function createCompressor(context: AudioContext, thresholdDb: number, ratio: number): ProcessingStage {
+    const compressor = new DynamicsCompressorNode(context, {
+        threshold: thresholdDb,
+        ratio,
+        knee: 6,
+        attack: 0.003,
+        release: 0.25,
+    });
+    return { input: compressor, output: compressor, dispose: () => compressor.disconnect() };
+}
+
+function createGain(context: AudioContext, gainDb: number): ProcessingStage {
+    const gain = new GainNode(context, { gain: Math.pow(10, gainDb / 20) });
+    return { input: gain, output: gain, dispose: () => gain.disconnect() };
+}
+
+function createLimiter(context: AudioContext): ProcessingStage {
+    const limiter = new DynamicsCompressorNode(context, {
+        threshold: -1,
+        ratio: 20,
+        knee: 0,
+        attack: 0.001,
+        release: 0.1,
+    });
+    return { input: limiter, output: limiter, dispose: () => limiter.disconnect() };
+}
+
+export class AudioPipeline {
+    /** Connect the mic here. */
+    readonly input: GainNode;
+    /** Processed audio comes out here. */
+    readonly output: GainNode;
+
+    private stages: ProcessingStage[] = [];
+    /** Loaded once per pipeline; null if unavailable. */
+    private denoiserModule: Promise<WebAssembly.Module | null> | null = null;
+    private configureRun = 0;
+
+    constructor(
+        private readonly context: AudioContext,
+        private readonly denoiserAssets: DenoiserAssets | null,
+    ) {
+        this.input = context.createGain();
+        this.output = context.createGain();
+        this.input.connect(this.output);
+    }
+
+    /**
+     * Rebuilds the chain for `settings`. Resolves whether the denoiser is
+     * running (false if it is off or its assets couldn't be loaded).
+     */
+    async configure(settings: AudioPipelineSettings): Promise<boolean> {
+        const run = ++this.configureRun;
+
+        const stages: ProcessingStage[] = [];
+        let denoiserActive = false;
+        if (settings.denoiser) {
+            const denoiser = await this.createDenoiser();
+            if (denoiser) {
+                stages.push(denoiser);
+                denoiserActive = true;
+            }
+        }
+
+        // A newer configure() started while the denoiser was loading
+        if (run !== this.configureRun) {
+            for (const stage of stages) stage.dispose();
+            return denoiserActive;
+        }
+
+        if (settings.noiseGate.enabled) {
+            stages.push(createNoiseGate(this.context, settings.noiseGate.thresholdDb));
+        }
+        if (settings.compressor.enabled) {
+            stages.push(createCompressor(this.context, settings.compressor.thresholdDb, settings.compressor.ratio));
+        }
+        if (settings.gainDb !== 0) {
+            stages.push(createGain(this.context, settings.gainDb));
+        }
+        if (settings.limiter) {
+            stages.push(createLimiter(this.context));
+        }
+
+        this.replaceStages(stages);
+        return denoiserActive;
+    }
+
+    /** Tears the chain down for good. */
+    dispose(): void {
+        this.configureRun++;
+        this.replaceStages([]);
+        this.input.disconnect();
+        this.output.disconnect();
+    }
+
+    private replaceStages(stages: ProcessingStage[]): void {
+        this.input.disconnect();
+        for (const stage of this.stages) stage.dispose();
+        this.stages = stages;
+
+        let previous: AudioNode = this.input;
+        for (const stage of stages) {
+            previous.connect(stage.input);
+            previous = stage.output;
+        }
+        previous.connect(this.output);
+    }
+
+    private async createDenoiser(): Promise<ProcessingStage | null> {
+        if (!this.denoiserAssets) return null;
+        const assets = this.denoiserAssets;
+
+        this.denoiserModule ??= (async () => {
+            try {
+                const [, wasm] = await Promise.all([
+                    this.context.audioWorklet.addModule(assets.workletUrl),
+                    assets.loadWasm(),
+                ]);
+                return await WebAssembly.compile(wasm);
+            } catch (err) {
+                console.warn("[audio] Denoiser unavailable:", err);
+                return null;
+            }
+        })();
+
+        const module = await this.denoiserModule;
+        if (!module) return null;
+
+        const node = new AudioWorkletNode(this.context, DENOISER_PROCESSOR, {
+            numberOfInputs: 1,
+            numberOfOutputs: 1,
+            channelCount: 1,
+            channelCountMode: "explicit",
+            outputChannelCount: [1],
+            processorOptions: { module },
+        });
+        node.onprocessorerror = () => console.error("[audio] Denoiser worklet failed");
+        return {
+            input: node,
+            output: node,
+            dispose: () => {
+                node.port.postMessage("destroy");
+                node.disconnect();
+            },
+        };
+    }
+}
+
+/**
+ * Mic capture outside a voice session: level meter plus optional loopback,
+ * both through the same processing chain a call would use.
+ */
+export class MicTest {
+    private readonly analyser: AnalyserNode;
+    private readonly pipeline: AudioPipeline;
+    private loopback: Loopback | null = null;
+
+    private constructor(
+        private readonly stream: MediaStream,
+        private readonly context: AudioContext,
+        denoiserAssets: DenoiserAssets | null,
+    ) {
+        const source = context.createMediaStreamSource(stream);
+        this.analyser = context.createAnalyser();
+        this.analyser.fftSize = 512;
+        source.connect(this.analyser);
+
+        this.pipeline = new AudioPipeline(context, denoiserAssets);
+        source.connect(this.pipeline.input);
+    }
+
+    static async open(
+        constraints: MediaTrackConstraints,
+        denoiserAssets: DenoiserAssets | null,
+    ): Promise<MicTest> {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: constraints });
+        return new MicTest(stream, new AudioContext({ sampleRate: 48000 }), denoiserAssets);
+    }
+
+    get levelDb(): number {
+        return readLevelDb(this.analyser);
+    }
+
+    configure(settings: AudioPipelineSettings): Promise<boolean> {
+        return this.pipeline.configure(settings);
+    }
+
+    /** Plays the processed mic back on `sinkId` ("" = default), or stops it. */
+    async setLoopback(enabled: boolean, sinkId = ""): Promise<void> {
+        this.loopback = await setLoopbackElement(this.context, this.pipeline.output, this.loopback, enabled, sinkId);
+    }
+
+    close(): void {
+        if (this.loopback) {
+            this.loopback.audio.remove();
+            this.loopback = null;
+        }
+        this.pipeline.dispose();
+        for (const track of this.stream.getTracks()) track.stop();
+        this.context.close().catch(() => { });
+    }
+}
+
+/** A "hear myself" playback of a node. */
+export interface Loopback {
+    node: AudioNode;
+    destination: MediaStreamAudioDestinationNode;
+    audio: HTMLAudioElement;
+}
+
+/**
+ * Starts or stops playing `node` through an <audio> element on `sinkId`
+ * ("" = default). Returns the loopback while playing, or null once stopped.
+ */
+export async function setLoopbackElement(
+    context: AudioContext,
+    node: AudioNode,
+    current: Loopback | null,
+    enabled: boolean,
+    sinkId: string,
+): Promise<Loopback | null> {
+    if (current) {
+        current.audio.pause();
+        current.audio.srcObject = null;
+        current.audio.remove();
+        current.node.disconnect(current.destination);
+    }
+    if (!enabled) return null;
+
+    const destination = context.createMediaStreamDestination();
+    node.connect(destination);
+    const audio = document.createElement("audio");
+    audio.srcObject = destination.stream;
+    document.body.appendChild(audio);
+    await audio.setSinkId(sinkId).catch(() => { });
+    audio.play().catch(() => { });
+    return { node, destination, audio };
+}
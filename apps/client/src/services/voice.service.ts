@@ -7,16 +7,50 @@
  *   3. Produce mic audio
  *   4. Consume remote producers
  *
+ * The mic is sent through a Web Audio graph — analyser, the AudioPipeline
+ * processing chain (see audio-pipeline.ts) and a gate gain. The analyser
+ * drives the level meter and the optional voice-activation mode: the mic
+ * opens while the input is above a threshold, stays open for a hold time
+ * after it drops, then fades out over the release time and pauses the
+ * producer. Manual mute is tracked separately and always wins.
+ *
+ * Because the producer sends the graph's output, switching microphones (or
+ * their echo cancellation / noise suppression / AGC) only swaps the graph's
+ * source — the produced track, mute and gate state are untouched. If the mic
+ * in use disappears, the system default takes over.
+ *
+ * The channel's Opus settings (bitrate cap, stereo, ptime, FEC, DTX) come
+ * with the router capabilities and are applied when producing; if an admin
+ * changes them mid-call, the same track is produced again with the new ones.
+ *
+ * Remote audio plays through a Web Audio gain per consumer, so each user's
+ * volume (0–200%, or muted just for us) and the master output volume can
+ * be applied before it reaches the <audio> element.
+ *
  * Used by the preload script to expose voice capabilities to the renderer.
  */
 
 import { Device, types as msTypes } from "mediasoup-client";
+import type { IChannelAudioSettings } from "@reson8/shared-types";
+import {
+    AudioPipeline,
+    DEFAULT_AUDIO_PIPELINE,
+    MIN_LEVEL_DB,
+    readLevelDb,
+    setLoopbackElement,
+} from "./audio-pipeline";
+import type { AudioPipelineSettings, DenoiserAssets, Loopback } from "./audio-pipeline";
 
 /** Signaling callbacks — the preload wires these to the Socket.io connection. */
 export interface VoiceSignaling {
     getRouterCapabilities(
         channelId: string,
-    ): Promise<{ success: boolean; rtpCapabilities?: any; error?: string }>;
+    ): Promise<{
+        success: boolean;
+        rtpCapabilities?: any;
+        audio?: IChannelAudioSettings;
+        error?: string;
+    }>;
 
     createTransport(
         channelId: string,
@@ -63,6 +97,51 @@ export interface VoiceSignaling {
     ): Promise<{ success: boolean; error?: string }>;
 }
 
+/** Voice-activation settings — persisted by the renderer with the other audio settings. */
+export interface VoiceActivationSettings {
+    enabled: boolean;
+    /** Input level that opens the mic, in dBFS (MIN_LEVEL_DB to 0). */
+    thresholdDb: number;
+    /** How long the mic stays open after the level drops below the threshold (ms). */
+    holdMs: number;
+    /** Fade-out after the hold time, before the producer is paused (ms). */
+    releaseMs: number;
+}
+
+export const DEFAULT_VOICE_ACTIVATION: VoiceActivationSettings = {
+    enabled: false,
+    thresholdDb: -45,
+    holdMs: 300,
+    releaseMs: 150,
+};
+
+/** Browser-side mic processing, applied as getUserMedia constraints. */
+export interface AudioProcessingSettings {
+    echoCancellation: boolean;
+    noiseSuppression: boolean;
+    autoGainControl: boolean;
+}
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+};
+
+/** Local playback preferences for one remote user. */
+export interface UserAudioSettings {
+    /** 0 to 2 (200%). */
+    volume: number;
+    /** Muted just for us. */
+    muted: boolean;
+}
+
+/** Highest per-user volume (200%). */
+export const MAX_USER_VOLUME = 2;
+
+/** How often the voice-activation gate samples the mic (ms). */
+const GATE_POLL_MS = 20;
+
 export class VoiceService {
     private device: Device | null = null;
     private sendTransport: msTypes.Transport | null = null;
@@ -72,13 +151,39 @@ export class VoiceService {
     private audioElements = new Map<string, HTMLAudioElement>();
     private signaling: VoiceSignaling;
     private channelId: string | null = null;
+    /** The channel's Opus settings; null uses mediasoup's defaults. */
+    private channelAudio: IChannelAudioSettings | null = null;
     private localStream: MediaStream | null = null;
+    private audioContext: AudioContext | null = null;
+    private micSource: MediaStreamAudioSourceNode | null = null;
+    private micAnalyser: AnalyserNode | null = null;
+    private audioProcessing: AudioProcessingSettings = { ...DEFAULT_AUDIO_PROCESSING };
+    private pipeline: AudioPipeline | null = null;
+    private pipelineSettings: AudioPipelineSettings = structuredClone(DEFAULT_AUDIO_PIPELINE);
+    private loopback: Loopback | null = null;
+    private gateGain: GainNode | null = null;
+    private voiceActivation: VoiceActivationSettings = { ...DEFAULT_VOICE_ACTIVATION };
+    private gateOpen = false;
+    private lastVoiceAt = 0;
+    private gateTimer: ReturnType<typeof setInterval> | null = null;
+    private releaseTimer: ReturnType<typeof setTimeout> | null = null;
+    private _isMuted = false;
     private _isDeafened = false;
 
+    /** Remote playback graph: consumerId → the user it belongs to and its gain. */
+    private playbackContext: AudioContext | null = null;
+    private consumerGains = new Map<string, { userId: string; gain: GainNode; remoteAudio: HTMLAudioElement }>();
+    private userAudio = new Map<string, UserAudioSettings>();
+    private masterVolume = 1;
+    private _outputDeviceId: string | null = null;
+
     /** Producers that arrived before recv transport was ready. */
-    private pendingProducers: string[] = [];
+    private pendingProducers: Array<{ producerId: string; userId: string }> = [];
 
-    constructor(signaling: VoiceSignaling) {
+    constructor(
+        signaling: VoiceSignaling,
+        private readonly denoiserAssets: DenoiserAssets | null = null,
+    ) {
         this.signaling = signaling;
     }
 
@@ -87,8 +192,9 @@ export class VoiceService {
     /**
      * Full voice join orchestration.
      * Performs the complete WebRTC handshake and starts producing audio.
+     * With `listenOnly`, no send transport is created and the mic is never opened.
      */
-    async joinVoiceChannel(channelId: string): Promise<void> {
+    async joinVoiceChannel(channelId: string, listenOnly = false): Promise<void> {
         this.channelId = channelId;
 
         // 1. Get Router capabilities and load Device
@@ -96,6 +202,7 @@ export class VoiceService {
         if (!capRes.success || !capRes.rtpCapabilities) {
             throw new Error(capRes.error ?? "Failed to get router capabilities");
         }
+        this.channelAudio = capRes.audio ?? null;
 
         this.device = new Device();
         await this.device.load({
@@ -103,19 +210,23 @@ export class VoiceService {
         });
 
         // 2. Create send transport
-        await this.createSendTransport(channelId);
+        if (!listenOnly) {
+            await this.createSendTransport(channelId);
+        }
 
         // 3. Create receive transport
         await this.createRecvTransport(channelId);
 
         // 4. Get mic and start producing
-        await this.startProducing();
+        if (!listenOnly) {
+            await this.startProducing();
+        }
 
         // 5. Consume any producers that arrived before recv transport was ready
         if (this.pendingProducers.length > 0) {
-            for (const producerId of this.pendingProducers) {
+            for (const { producerId, userId } of this.pendingProducers) {
                 try {
-                    await this.consumeProducer(producerId);
+                    await this.consumeProducer(producerId, userId);
                 } catch (err) {
                     console.error("[voice] Failed to consume pending producer:", err);
                 }
@@ -215,31 +326,291 @@ export class VoiceService {
 
     private _audioDeviceId: string | null = null;
 
-    /** Set the preferred audio input device ID. */
-    setAudioDeviceId(deviceId: string | null): void {
+    /** Called when the mic in use disappears and the system default takes over. */
+    onInputDeviceLost: (() => void) | null = null;
+
+    /**
+     * Routes all remote audio to an output device (null = system default),
+     * including consumers created later. Elements whose device can't be
+     * used fall back to the default; resolves false if any did.
+     */
+    async setAudioOutputDevice(deviceId: string | null): Promise<boolean> {
+        this._outputDeviceId = deviceId;
+        const results = await Promise.all(
+            [...this.audioElements.values()].map((audio) => this.applyOutputDevice(audio)),
+        );
+        return results.every(Boolean);
+    }
+
+    private async applyOutputDevice(audio: HTMLAudioElement): Promise<boolean> {
+        try {
+            await audio.setSinkId(this._outputDeviceId ?? "");
+            return true;
+        } catch (err) {
+            console.warn("[voice] Output device unavailable, using default:", err);
+            await audio.setSinkId("").catch(() => { });
+            return false;
+        }
+    }
+
+    /**
+     * Set the preferred audio input device ID (null = system default). While
+     * producing, switches mics live. Resolves false if the device couldn't
+     * be opened and the default is used instead.
+     */
+    async setAudioDeviceId(deviceId: string | null): Promise<boolean> {
         this._audioDeviceId = deviceId;
+        return this.restartMic();
+    }
+
+    /** Updates echo cancellation / noise suppression / AGC, live while producing. */
+    async setAudioProcessing(settings: AudioProcessingSettings): Promise<boolean> {
+        this.audioProcessing = { ...settings };
+        return this.restartMic();
     }
 
     /** Request mic access and start producing audio. */
     async startProducing(): Promise<void> {
         if (!this.sendTransport) throw new Error("Send transport not ready");
 
-        const audioConstraints: MediaTrackConstraints = {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
+        const { stream, fellBack } = await this.openMic();
+
+        // mic → analyser (meter, voice activation)
+        //     → processing chain → gate gain → produced track
+        this.audioContext = new AudioContext({ sampleRate: 48000 });
+        this.micAnalyser = this.audioContext.createAnalyser();
+        this.micAnalyser.fftSize = 512;
+        this.pipeline = new AudioPipeline(this.audioContext, this.denoiserAssets);
+        this.gateGain = this.audioContext.createGain();
+        const destination = this.audioContext.createMediaStreamDestination();
+        this.pipeline.output.connect(this.gateGain).connect(destination);
+        await this.pipeline.configure(this.pipelineSettings);
+        this.attachMicStream(stream);
+        if (fellBack) this.onInputDeviceLost?.();
+
+        const track = destination.stream.getAudioTracks()[0];
+        this.producer = await this.sendTransport.produce(this.producerOptions(track));
+        this.setVoiceActivation(this.voiceActivation);
+    }
+
+    /**
+     * Applies new Opus settings for the current channel. While producing,
+     * the same track is produced again (the server replaces the old
+     * producer) and mute/gate state is re-applied.
+     */
+    async setChannelAudio(audio: IChannelAudioSettings): Promise<void> {
+        this.channelAudio = { ...audio };
+        if (!this.producer || !this.sendTransport) return;
+
+        const track = this.producer.track;
+        this.producer.close();
+        this.producer = null;
+        if (!track) return;
+
+        // Start silent and paused, so a muted, push-to-talk or gated mic never
+        // goes out live; syncProducer resumes it only if it should be
+        track.enabled = false;
+        this.producer = await this.sendTransport.produce(this.producerOptions(track));
+        this.producer.pause();
+        this.syncProducer();
+    }
+
+    /** Produce options for the mic track under the channel's Opus settings. */
+    private producerOptions(track: MediaStreamTrack): msTypes.ProducerOptions {
+        const audio = this.channelAudio;
+        if (!audio) return { track, stopTracks: false };
+        return {
+            track,
+            // The track is the Web Audio graph's output and outlives the producer
+            stopTracks: false,
+            encodings: [{ maxBitrate: audio.maxBitrate }],
+            codecOptions: {
+                opusMaxAverageBitrate: audio.maxBitrate,
+                opusStereo: audio.stereo,
+                opusPtime: audio.ptime,
+                opusFec: audio.fec,
+                opusDtx: audio.dtx,
+            },
         };
+    }
+
+    /**
+     * Updates the processing chain (live while producing). Resolves whether
+     * the denoiser is running; false when not producing.
+     */
+    async setAudioPipeline(settings: AudioPipelineSettings): Promise<boolean> {
+        this.pipelineSettings = structuredClone(settings);
+        return this.pipeline?.configure(this.pipelineSettings) ?? false;
+    }
+
+    /** "Hear myself": plays the processed mic on the output device. */
+    async setLoopback(enabled: boolean): Promise<void> {
+        if (!this.audioContext || !this.pipeline) return;
+        this.loopback = await setLoopbackElement(
+            this.audioContext, this.pipeline.output, this.loopback, enabled, this._outputDeviceId ?? "",
+        );
+    }
 
-        if (this._audioDeviceId) {
-            audioConstraints.deviceId = { exact: this._audioDeviceId };
+    /** Opens the preferred mic, falling back to the system default if it's gone. */
+    private async openMic(): Promise<{ stream: MediaStream; fellBack: boolean }> {
+        const audioConstraints: MediaTrackConstraints = { ...this.audioProcessing };
+        if (!this._audioDeviceId) {
+            return {
+                stream: await navigator.mediaDevices.getUserMedia({ audio: audioConstraints }),
+                fellBack: false,
+            };
         }
 
-        this.localStream = await navigator.mediaDevices.getUserMedia({
-            audio: audioConstraints,
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({
+                audio: { ...audioConstraints, deviceId: { exact: this._audioDeviceId } },
+            });
+            return { stream, fellBack: false };
+        } catch (err) {
+            console.warn("[voice] Input device unavailable, using default:", err);
+            return {
+                stream: await navigator.mediaDevices.getUserMedia({ audio: audioConstraints }),
+                fellBack: true,
+            };
+        }
+    }
+
+    /** Feeds a mic stream into the graph in place of the previous one. */
+    private attachMicStream(stream: MediaStream): void {
+        if (!this.audioContext || !this.micAnalyser || !this.pipeline) return;
+
+        const previous = this.localStream;
+        this.micSource?.disconnect();
+        this.micSource = this.audioContext.createMediaStreamSource(stream);
+        this.micSource.connect(this.micAnalyser);
+        this.micSource.connect(this.pipeline.input);
+        this.localStream = stream;
+
+        // stop() doesn't fire "ended", so this only catches the device going away
+        stream.getAudioTracks()[0]?.addEventListener("ended", () => {
+            if (stream !== this.localStream) return;
+            console.warn("[voice] Input device disconnected");
+            this.restartMic(true)
+                .then(() => this.onInputDeviceLost?.())
+                .catch((err) => console.error("[voice] Failed to reopen mic:", err));
         });
 
-        const track = this.localStream.getAudioTracks()[0];
-        this.producer = await this.sendTransport.produce({ track });
+        if (previous && previous !== stream) {
+            for (const track of previous.getTracks()) track.stop();
+        }
+    }
+
+    /**
+     * Reopens the mic with the current device and processing settings and
+     * swaps it in. No-op (resolves true) when not producing.
+     */
+    private async restartMic(useDefault = false): Promise<boolean> {
+        if (!this.producer || !this.audioContext) return true;
+
+        const preferred = this._audioDeviceId;
+        if (useDefault) this._audioDeviceId = null;
+        let result;
+        try {
+            result = await this.openMic();
+        } finally {
+            this._audioDeviceId = preferred;
+        }
+
+        // Left voice while the mic was opening
+        if (!this.producer) {
+            for (const track of result.stream.getTracks()) track.stop();
+            return true;
+        }
+
+        this.attachMicStream(result.stream);
+        return !result.fellBack && !useDefault;
+    }
+
+    /** Current mic input level in dBFS regardless of mute, or null without a mic. */
+    get inputLevelDb(): number | null {
+        return this.micAnalyser ? readLevelDb(this.micAnalyser) : null;
+    }
+
+    /**
+     * Current mic input level from 0 to 1 (MIN_LEVEL_DB and below reads as 0).
+     * Reads 0 while muted, since nothing is being sent.
+     */
+    get micLevel(): number {
+        if (!this.micAnalyser || this._isMuted) return 0;
+        return (readLevelDb(this.micAnalyser) - MIN_LEVEL_DB) / -MIN_LEVEL_DB;
+    }
+
+    // ── Voice activation ──────────────────────────────────────────────────
+
+    /**
+     * Applies voice-activation settings. Safe to call before producing; the
+     * gate starts sampling once the mic is up.
+     */
+    setVoiceActivation(settings: VoiceActivationSettings): void {
+        this.voiceActivation = { ...settings };
+
+        if (settings.enabled && this.micAnalyser) {
+            if (!this.gateTimer) {
+                this.setGateOpen(false);
+                this.gateTimer = setInterval(() => this.updateGate(), GATE_POLL_MS);
+            }
+        } else {
+            if (this.gateTimer) {
+                clearInterval(this.gateTimer);
+                this.gateTimer = null;
+            }
+            this.setGateOpen(true);
+        }
+    }
+
+    private updateGate(): void {
+        if (!this.micAnalyser) return;
+        const now = Date.now();
+
+        if (readLevelDb(this.micAnalyser) >= this.voiceActivation.thresholdDb) {
+            this.lastVoiceAt = now;
+            if (!this.gateOpen) this.setGateOpen(true);
+        } else if (this.gateOpen && now - this.lastVoiceAt > this.voiceActivation.holdMs) {
+            this.setGateOpen(false);
+        }
+    }
+
+    /** Opens the gate at once, or fades it out over the release time. */
+    private setGateOpen(open: boolean): void {
+        this.gateOpen = open;
+        if (this.releaseTimer) {
+            clearTimeout(this.releaseTimer);
+            this.releaseTimer = null;
+        }
+
+        if (this.gateGain && this.audioContext) {
+            const gain = this.gateGain.gain;
+            const now = this.audioContext.currentTime;
+            gain.cancelScheduledValues(now);
+            gain.setValueAtTime(gain.value, now);
+            if (open) {
+                gain.setValueAtTime(1, now);
+            } else {
+                gain.linearRampToValueAtTime(0, now + this.voiceActivation.releaseMs / 1000);
+            }
+        }
+
+        if (open) {
+            this.syncProducer();
+        } else {
+            this.releaseTimer = setTimeout(() => {
+                this.releaseTimer = null;
+                this.syncProducer();
+            }, this.voiceActivation.releaseMs);
+        }
+    }
+
+    /** Pauses the producer while muted or while the voice-activation gate is closed. */
+    private syncProducer(): void {
+        if (!this.producer) return;
+        const paused = this._isMuted || (this.voiceActivation.enabled && !this.gateOpen);
+        if (paused && !this.producer.paused) this.producer.pause();
+        if (!paused && this.producer.paused) this.producer.resume();
     }
 
     // ── Consume remote audio ──────────────────────────────────────────────
@@ -248,18 +619,18 @@ export class VoiceService {
      * Queue a producer for consumption. If recv transport is ready, consume
      * immediately. Otherwise, defer until after the handshake completes.
      */
-    queueConsumeProducer(producerId: string): void {
+    queueConsumeProducer(producerId: string, userId: string): void {
         if (this.recvTransport && this.device) {
-            this.consumeProducer(producerId).catch((err) => {
+            this.consumeProducer(producerId, userId).catch((err) => {
                 console.error("[voice] Failed to consume producer:", err);
             });
         } else {
-            this.pendingProducers.push(producerId);
+            this.pendingProducers.push({ producerId, userId });
         }
     }
 
     /** Consume a remote user's audio producer. */
-    async consumeProducer(producerId: string): Promise<void> {
+    async consumeProducer(producerId: string, userId: string): Promise<void> {
         if (!this.recvTransport) throw new Error("Recv transport not ready");
         if (!this.device) throw new Error("Device not loaded");
 
@@ -278,12 +649,29 @@ export class VoiceService {
 
         this.consumers.set(consumer.id, consumer);
 
+        // remote track → per-user gain → <audio> element
+        this.playbackContext ??= new AudioContext();
+        const remoteStream = new MediaStream([consumer.track]);
+        // Chromium only feeds remote WebRTC audio into Web Audio while a
+        // media element is playing it, so keep a silent one attached
+        const remoteAudio = new Audio();
+        remoteAudio.srcObject = remoteStream;
+        remoteAudio.muted = true;
+        remoteAudio.play().catch(() => { });
+
+        const gain = this.playbackContext.createGain();
+        const destination = this.playbackContext.createMediaStreamDestination();
+        this.playbackContext.createMediaStreamSource(remoteStream).connect(gain).connect(destination);
+        this.consumerGains.set(consumer.id, { userId, gain, remoteAudio });
+        this.applyUserGain(consumer.id);
+
         // Create an <audio> element, append to DOM, and play
         const audio = document.createElement("audio") as HTMLAudioElement;
-        audio.srcObject = new MediaStream([consumer.track]);
+        audio.srcObject = destination.stream;
         audio.autoplay = true;
-        audio.volume = 1.0;
+        audio.muted = this._isDeafened;
         document.body.appendChild(audio);
+        if (this._outputDeviceId) await this.applyOutputDevice(audio);
         audio.play().catch(() => { });
 
         this.audioElements.set(consumer.id, audio);
@@ -306,31 +694,63 @@ export class VoiceService {
                     audio.remove();
                     this.audioElements.delete(consumerId);
                 }
+                this.releaseConsumerGain(consumerId);
                 break;
             }
         }
     }
 
+    // ── Per-user volume ───────────────────────────────────────────────────
+
+    /** Sets a remote user's local volume / mute; applies to their audio now and later. */
+    setUserAudio(userId: string, settings: UserAudioSettings): void {
+        this.userAudio.set(userId, {
+            volume: Math.min(MAX_USER_VOLUME, Math.max(0, settings.volume)),
+            muted: settings.muted,
+        });
+        for (const [consumerId, entry] of this.consumerGains) {
+            if (entry.userId === userId) this.applyUserGain(consumerId);
+        }
+    }
+
+    /** Sets the master output volume (0 to 1) for all remote audio. */
+    setMasterVolume(volume: number): void {
+        this.masterVolume = Math.min(1, Math.max(0, volume));
+        for (const consumerId of this.consumerGains.keys()) {
+            this.applyUserGain(consumerId);
+        }
+    }
+
+    private applyUserGain(consumerId: string): void {
+        const entry = this.consumerGains.get(consumerId);
+        if (!entry) return;
+        const settings = this.userAudio.get(entry.userId);
+        const volume = settings?.muted ? 0 : (settings?.volume ?? 1);
+        entry.gain.gain.value = volume * this.masterVolume;
+    }
+
+    private releaseConsumerGain(consumerId: string): void {
+        const entry = this.consumerGains.get(consumerId);
+        if (!entry) return;
+        entry.gain.disconnect();
+        entry.remoteAudio.pause();
+        entry.remoteAudio.srcObject = null;
+        this.consumerGains.delete(consumerId);
+    }
+
     // ── Mute / Unmute ─────────────────────────────────────────────────────
 
     /** Toggle mic mute (pauses/resumes the producer). */
     toggleMute(): boolean {
-        if (!this.producer) return false;
-
-        if (this.producer.paused) {
-            this.producer.resume();
-        } else {
-            this.producer.pause();
-        }
-        return this.producer.paused;
+        return this.setMuted(!this._isMuted);
     }
 
     /** Deterministically set mute state (true = muted/paused). */
     setMuted(muted: boolean): boolean {
         if (!this.producer) return false;
-        if (muted && !this.producer.paused) this.producer.pause();
-        if (!muted && this.producer.paused) this.producer.resume();
-        return this.producer.paused;
+        this._isMuted = muted;
+        this.syncProducer();
+        return this._isMuted;
     }
 
     /** Toggle deafen (mutes/unmutes all audio elements). */
@@ -346,6 +766,17 @@ export class VoiceService {
 
     /** Leave voice — clean up all resources. */
     cleanup(): void {
+        if (this.gateTimer) {
+            clearInterval(this.gateTimer);
+            this.gateTimer = null;
+        }
+        if (this.releaseTimer) {
+            clearTimeout(this.releaseTimer);
+            this.releaseTimer = null;
+        }
+        this.gateOpen = false;
+        this._isMuted = false;
+
         if (this.localStream) {
             for (const track of this.localStream.getTracks()) {
                 track.stop();
@@ -353,6 +784,24 @@ export class VoiceService {
             this.localStream = null;
         }
 
+        if (this.loopback) {
+            this.loopback.audio.pause();
+            this.loopback.audio.remove();
+            this.loopback = null;
+        }
+        if (this.pipeline) {
+            this.pipeline.dispose();
+            this.pipeline = null;
+        }
+
+        if (this.audioContext) {
+            this.audioContext.close().catch(() => { });
+            this.audioContext = null;
+            this.micSource = null;
+            this.micAnalyser = null;
+            this.gateGain = null;
+        }
+
         if (this.producer) {
             this.producer.close();
             this.producer = null;
@@ -370,6 +819,14 @@ export class VoiceService {
         }
         this.audioElements.clear();
 
+        for (const consumerId of [...this.consumerGains.keys()]) {
+            this.releaseConsumerGain(consumerId);
+        }
+        if (this.playbackContext) {
+            this.playbackContext.close().catch(() => { });
+            this.playbackContext = null;
+        }
+
         if (this.sendTransport) {
             this.sendTransport.close();
             this.sendTransport = null;
@@ -393,7 +850,15 @@ export class VoiceService {
         return this.channelId;
     }
 
+    get isProducing(): boolean {
+        return this.producer !== null;
+    }
+
     get isMuted(): boolean {
-        return this.producer?.paused ?? false;
+        return this.producer ? this._isMuted : false;
+    }
+
+    get isDeafened(): boolean {
+        return this._isDeafened;
     }
 }
@@ -0,0 +1,138 @@
+/**
+ * RNNoise denoiser — AudioWorkletProcessor.
+ *
+ * Loaded with `audioWorklet.addModule()` by AudioPipeline, which passes a
+ * compiled WebAssembly.Module in `processorOptions.module`. The module must
+ * be an RNNoise build (standalone, 48 kHz) exporting `memory`, `malloc`,
+ * `free`, `rnnoise_create`, `rnnoise_destroy` and `rnnoise_process_frame`.
+ * The binary isn't bundled: drop `rnnoise.wasm` next to this file.
+ *
+ * RNNoise works on 480-sample frames while the audio thread delivers
+ * 128-sample blocks, so output is delayed by one frame (10 ms) to keep the
+ * buffer from running dry.
+ *
+ * This file runs in AudioWorkletGlobalScope and must stay a plain script
+ * (no imports/exports).
+ */
+
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: { processorOptions?: unknown });
+}
+
+declare function registerProcessor(
+    name: string,
+    processorCtor: new (options: { processorOptions?: unknown }) => AudioWorkletProcessor,
+): void;
+
+interface RnnoiseExports {
+    memory: WebAssembly.Memory;
+    malloc(size: number): number;
+    free(ptr: number): void;
+    rnnoise_create(model: number): number;
+    rnnoise_destroy(state: number): void;
+    rnnoise_process_frame(state: number, out: number, input: number): number;
+}
+
+/** RNNoise frame size at 48 kHz. */
+const RNNOISE_FRAME = 480;
+
+/** RNNoise expects 16-bit PCM range in float samples. */
+const PCM_SCALE = 32768;
+
+class RnnoiseProcessor extends AudioWorkletProcessor {
+    private readonly wasm: RnnoiseExports;
+    private readonly state: number;
+    private readonly framePtr: number;
+
+    /** Input collected towards the next frame. */
+    private readonly pending = new Float32Array(RNNOISE_FRAME);
+    private pendingLength = 0;
+
+    /** Denoised output, primed with one frame of silence. */
+    private readonly ready = new Float32Array(RNNOISE_FRAME * 3);
+    private readyStart = 0;
+    private readyLength = RNNOISE_FRAME;
+
+    private destroyed = false;
+
+    constructor(options: { processorOptions?: unknown }) {
+        super(options);
+        const { module } = options.processorOptions as { module: WebAssembly.Module };
+
+        // Standalone builds may still import a few runtime hooks; none are needed here
+        const imports: Record<string, Record<string, WebAssembly.ImportValue>> = {};
+        for (const entry of WebAssembly.Module.imports(module)) {
+            if (entry.kind !== "function") continue;
+            imports[entry.module] ??= {};
+            imports[entry.module][entry.name] = () => 0;
+        }
+
+        const instance = new WebAssembly.Instance(module, imports);
+        this.wasm = instance.exports as unknown as RnnoiseExports;
+        this.state = this.wasm.rnnoise_create(0);
+        this.framePtr = this.wasm.malloc(RNNOISE_FRAME * 4);
+
+        this.port.onmessage = (event) => {
+            if (event.data === "destroy") this.destroy();
+        };
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+        if (this.destroyed) return false;
+
+        const input = inputs[0]?.[0];
+        const output = outputs[0]?.[0];
+        if (!output) return true;
+
+        if (input) {
+            for (let i = 0; i < input.length; i++) {
+                this.pending[this.pendingLength++] = input[i];
+                if (this.pendingLength === RNNOISE_FRAME) {
+                    this.processFrame();
+                    this.pendingLength = 0;
+                }
+            }
+        }
+
+        for (let i = 0; i < output.length; i++) {
+            if (this.readyLength === 0) {
+                output[i] = 0;
+                continue;
+            }
+            output[i] = this.ready[this.readyStart];
+            this.readyStart = (this.readyStart + 1) % this.ready.length;
+            this.readyLength--;
+        }
+        return true;
+    }
+
+    private processFrame(): void {
+        // Views are recreated per frame in case the WASM memory has grown
+        const frame = new Float32Array(this.wasm.memory.buffer, this.framePtr, RNNOISE_FRAME);
+        for (let i = 0; i < RNNOISE_FRAME; i++) frame[i] = this.pending[i] * PCM_SCALE;
+
+        this.wasm.rnnoise_process_frame(this.state, this.framePtr, this.framePtr);
+
+        const denoised = new Float32Array(this.wasm.memory.buffer, this.framePtr, RNNOISE_FRAME);
+        for (let i = 0; i < RNNOISE_FRAME; i++) {
+            // Drop the oldest samples rather than overflow (only if the graph stalls)
+            if (this.readyLength === this.ready.length) {
+                this.readyStart = (this.readyStart + 1) % this.ready.length;
+                this.readyLength--;
+            }
+            const end = (this.readyStart + this.readyLength) % this.ready.length;
+            this.ready[end] = denoised[i] / PCM_SCALE;
+            this.readyLength++;
+        }
+    }
+
+    private destroy(): void {
+        if (this.destroyed) return;
+        this.destroyed = true;
+        this.wasm.free(this.framePtr);
+        this.wasm.rnnoise_destroy(this.state);
+    }
+}
+
+registerProcessor("rnnoise-processor", RnnoiseProcessor);
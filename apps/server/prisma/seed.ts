@@ -42,7 +42,7 @@ async function main(): Promise<void> {
             id: "chan-general",
             serverId,
             name: "General",
-            type: ChannelType.VOICE, // Categories are voice type with children
+            type: ChannelType.CATEGORY,
             parentId: null,
             position: 0,
         },
@@ -82,7 +82,7 @@ async function main(): Promise<void> {
             id: "chan-gaming",
             serverId,
             name: "Gaming",
-            type: ChannelType.VOICE,
+            type: ChannelType.CATEGORY,
             parentId: null,
             position: 1,
         },
@@ -124,7 +124,7 @@ async function main(): Promise<void> {
             id: "role-default",
             serverId,
             name: "Member",
-            permissions: BigInt(0b111), // CONNECT | SPEAK | SEND_MESSAGES
+            permissions: BigInt(0b10000000111), // CONNECT | SPEAK | SEND_MESSAGES | ATTACH_FILES
             powerLevel: 0,
             color: "#888888",
         },
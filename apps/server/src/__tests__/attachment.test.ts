@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the Attachment Service.
+ *
+ * Validates the MIME allow-list matching and filename sanitising used by
+ * the upload route, the purge of unsent uploads, the one-off Member role
+ * upgrade and the upload limit parsing.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import {
+    attachmentUrl,
+    isMimeAllowed,
+    migrateMemberAttachFiles,
+    purgeUnlinkedAttachments,
+    sanitizeFilename,
+} from "../services/attachment.service.js";
+import type { FileStorage } from "../services/storage.service.js";
+import { parsePositiveInt } from "../config/env.js";
+import { PermissionFlags } from "@reson8/shared-types";
+
+describe("isMimeAllowed", () => {
+    const allowList = ["image/png", "audio/*", "application/pdf"];
+
+    it("accepts exact matches", () => {
+        expect(isMimeAllowed("image/png", allowList)).toBe(true);
+        expect(isMimeAllowed("application/pdf", allowList)).toBe(true);
+    });
+
+    it("accepts any subtype of a wildcard entry", () => {
+        expect(isMimeAllowed("audio/ogg", allowList)).toBe(true);
+        expect(isMimeAllowed("audio/mpeg", allowList)).toBe(true);
+    });
+
+    it("is case-insensitive", () => {
+        expect(isMimeAllowed("IMAGE/PNG", allowList)).toBe(true);
+    });
+
+    it("rejects everything else", () => {
+        expect(isMimeAllowed("image/svg+xml", allowList)).toBe(false);
+        expect(isMimeAllowed("text/html", allowList)).toBe(false);
+        expect(isMimeAllowed("audiox/ogg", allowList)).toBe(false);
+        expect(isMimeAllowed("", allowList)).toBe(false);
+    });
+});
+
+describe("sanitizeFilename", () => {
+    it("keeps ordinary names", () => {
+        expect(sanitizeFilename("photo.png")).toBe("photo.png");
+        expect(sanitizeFilename("My Notes (1).txt")).toBe("My Notes (1).txt");
+    });
+
+    it("strips directory components", () => {
+        expect(sanitizeFilename("../../etc/passwd")).toBe("passwd");
+        expect(sanitizeFilename("C:\\Users\\bob\\cv.pdf")).toBe("cv.pdf");
+    });
+
+    it("removes control characters, quotes and leading dots", () => {
+        expect(sanitizeFilename('a"b\r\n.txt')).toBe("ab.txt");
+        expect(sanitizeFilename(".bashrc")).toBe("bashrc");
+    });
+
+    it("falls back to a default for empty names", () => {
+        expect(sanitizeFilename("")).toBe("file");
+        expect(sanitizeFilename("...")).toBe("file");
+    });
+
+    it("truncates long names but keeps the extension", () => {
+        const name = sanitizeFilename(`${"a".repeat(300)}.jpeg`);
+        expect(name).toHaveLength(128);
+        expect(name.endsWith(".jpeg")).toBe(true);
+    });
+});
+
+describe("attachmentUrl", () => {
+    it("URL-encodes the filename", () => {
+        expect(attachmentUrl("abc", "my file.png")).toBe("/attachments/abc/my%20file.png");
+    });
+});
+
+interface FakeAttachment {
+    id: string;
+    messageId: string | null;
+    createdAt: Date;
+}
+
+/** In-memory stand-in for the attachment table used by the purge. */
+function fakeAttachmentDb(rows: FakeAttachment[], onFind?: () => void) {
+    return {
+        attachment: {
+            findMany: async ({ where }: { where: { createdAt: { lt: Date } } }) => {
+                const found = rows
+                    .filter((r) => r.messageId === null && r.createdAt < where.createdAt.lt)
+                    .map((r) => ({ id: r.id }));
+                onFind?.();
+                return found;
+            },
+            deleteMany: async ({ where }: { where: { id: string } }) => {
+                const index = rows.findIndex((r) => r.id === where.id && r.messageId === null);
+                if (index === -1) return { count: 0 };
+                rows.splice(index, 1);
+                return { count: 1 };
+            },
+        },
+    } as unknown as PrismaClient;
+}
+
+/** Storage that only records which keys were deleted. */
+function fakeStorage(deleted: string[]): FileStorage {
+    return {
+        save: async () => 0,
+        read: () => { throw new Error("not used"); },
+        delete: async (key) => { deleted.push(key); },
+    };
+}
+
+describe("purgeUnlinkedAttachments", () => {
+    const cutoff = new Date("2026-01-01T12:00:00Z");
+    const before = new Date("2026-01-01T11:00:00Z");
+    const after = new Date("2026-01-01T12:30:00Z");
+
+    it("removes old unsent uploads and their files", async () => {
+        const rows: FakeAttachment[] = [
+            { id: "stale", messageId: null, createdAt: before },
+            { id: "fresh", messageId: null, createdAt: after },
+            { id: "sent", messageId: "m1", createdAt: before },
+        ];
+        const deleted: string[] = [];
+
+        const removed = await purgeUnlinkedAttachments(fakeAttachmentDb(rows), fakeStorage(deleted), cutoff);
+
+        expect(removed).toBe(1);
+        expect(deleted).toEqual(["stale"]);
+        expect(rows.map((r) => r.id)).toEqual(["fresh", "sent"]);
+    });
+
+    it("keeps uploads that were sent while the purge was running", async () => {
+        const rows: FakeAttachment[] = [{ id: "racing", messageId: null, createdAt: before }];
+        const deleted: string[] = [];
+        const db = fakeAttachmentDb(rows, () => { rows[0].messageId = "m1"; });
+
+        expect(await purgeUnlinkedAttachments(db, fakeStorage(deleted), cutoff)).toBe(0);
+        expect(deleted).toEqual([]);
+        expect(rows).toHaveLength(1);
+    });
+});
+
+/** In-memory data_migrations table and Member role. */
+function fakeRoleDb(role: { permissions: bigint } | null) {
+    const applied = new Set<string>();
+    const db = {
+        dataMigration: {
+            createMany: async ({ data }: { data: Array<{ name: string }> }) => {
+                const fresh = data.filter((row) => !applied.has(row.name));
+                for (const row of fresh) applied.add(row.name);
+                return { count: fresh.length };
+            },
+        },
+        role: {
+            findUnique: async () => (role ? { ...role } : null),
+            update: async ({ data }: { data: { permissions: bigint } }) => {
+                role!.permissions = data.permissions;
+                return role;
+            },
+        },
+    };
+    return { ...db, $transaction: <T>(fn: (tx: typeof db) => Promise<T>) => fn(db) } as unknown as PrismaClient;
+}
+
+describe("migrateMemberAttachFiles", () => {
+    const attach = BigInt(PermissionFlags.ATTACH_FILES);
+
+    it("adds ATTACH_FILES to an existing Member role once", async () => {
+        const role = { permissions: 0b111n };
+        const db = fakeRoleDb(role);
+
+        expect(await migrateMemberAttachFiles(db)).toBe(true);
+        expect(role.permissions).toBe(0b111n | attach);
+
+        // An admin taking the flag away again is not overruled on the next boot
+        role.permissions = 0b111n;
+        expect(await migrateMemberAttachFiles(db)).toBe(false);
+        expect(role.permissions).toBe(0b111n);
+    });
+
+    it("leaves roles that already have the flag, or a missing role, alone", async () => {
+        expect(await migrateMemberAttachFiles(fakeRoleDb({ permissions: 0b111n | attach }))).toBe(false);
+        expect(await migrateMemberAttachFiles(fakeRoleDb(null))).toBe(false);
+    });
+});
+
+describe("parsePositiveInt", () => {
+    it("parses whole numbers", () => {
+        expect(parsePositiveInt("25", 10)).toBe(25);
+        expect(parsePositiveInt(" 5 ", 10)).toBe(5);
+    });
+
+    it("falls back when the value is missing or not a positive integer", () => {
+        expect(parsePositiveInt(undefined, 10)).toBe(10);
+        expect(parsePositiveInt("", 10)).toBe(10);
+        expect(parsePositiveInt("ten", 10)).toBe(10);
+        expect(parsePositiveInt("10MB", 10)).toBe(10);
+        expect(parsePositiveInt("0", 10)).toBe(10);
+        expect(parsePositiveInt("-3", 10)).toBe(10);
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for the Auth Service.
+ *
+ * Validates credential rules, the guest-password guard and the failed
+ * login throttle.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Redis } from "ioredis";
+import {
+    validateCredentials,
+    validateNickname,
+    verifyPassword,
+    isGuestPassword,
+    GUEST_PASSWORD,
+} from "../services/auth.service.js";
+import {
+    LoginThrottle,
+    MAX_FAILURES_PER_IP,
+    MAX_FAILURES_PER_USER,
+} from "../services/login-throttle.service.js";
+
+describe("validateCredentials", () => {
+    it("accepts a well-formed username and password", () => {
+        expect(validateCredentials("alice_01", "correct horse")).toBeNull();
+    });
+
+    it("rejects usernames that are too short or contain invalid characters", () => {
+        expect(validateCredentials("ab", "correct horse")).not.toBeNull();
+        expect(validateCredentials("guest:1234", "correct horse")).not.toBeNull();
+        expect(validateCredentials("has space", "correct horse")).not.toBeNull();
+    });
+
+    it("rejects passwords outside the allowed length", () => {
+        expect(validateCredentials("alice", "short")).not.toBeNull();
+        expect(validateCredentials("alice", "x".repeat(73))).not.toBeNull();
+    });
+
+    it("rejects non-string input", () => {
+        expect(validateCredentials(undefined, "correct horse")).not.toBeNull();
+        expect(validateCredentials("alice", 12345678)).not.toBeNull();
+    });
+});
+
+describe("guest password guard", () => {
+    it("recognises the guest sentinel", () => {
+        expect(isGuestPassword(GUEST_PASSWORD)).toBe(true);
+        expect(isGuestPassword("$2b$12$abcdefghijklmnopqrstuv")).toBe(false);
+    });
+
+    it("never verifies a password against a guest user", async () => {
+        expect(await verifyPassword(GUEST_PASSWORD, GUEST_PASSWORD)).toBe(false);
+    });
+});
+
+describe("validateNickname", () => {
+    it("accepts a missing or text nickname", () => {
+        expect(validateNickname(undefined)).toBeNull();
+        expect(validateNickname(null)).toBeNull();
+        expect(validateNickname("Alice")).toBeNull();
+    });
+
+    it("rejects anything else", () => {
+        expect(validateNickname(42)).not.toBeNull();
+        expect(validateNickname({ name: "Alice" })).not.toBeNull();
+    });
+});
+
+/** In-memory Redis with just the commands LoginThrottle uses (keys never expire). */
+function fakeRedis() {
+    const values = new Map<string, number>();
+    const ttls = new Map<string, number>();
+    const redis = {
+        mget: async (...keys: string[]) => keys.map((k) => (values.has(k) ? String(values.get(k)) : null)),
+        ttl: async (key: string) => ttls.get(key) ?? -2,
+        del: async (key: string) => {
+            values.delete(key);
+            ttls.delete(key);
+            return 1;
+        },
+        pipeline: () => {
+            const queued: Array<() => void> = [];
+            const pipe = {
+                incr: (key: string) => {
+                    queued.push(() => values.set(key, (values.get(key) ?? 0) + 1));
+                    return pipe;
+                },
+                expire: (key: string, seconds: number, mode: "NX") => {
+                    queued.push(() => {
+                        if (mode === "NX" && ttls.has(key)) return;
+                        ttls.set(key, seconds);
+                    });
+                    return pipe;
+                },
+                exec: async () => {
+                    for (const run of queued) run();
+                    return [];
+                },
+            };
+            return pipe;
+        },
+    };
+    return { redis: redis as unknown as Redis, ttls };
+}
+
+describe("LoginThrottle", () => {
+    it("allows attempts until a username reaches its failure limit", async () => {
+        const throttle = new LoginThrottle(fakeRedis().redis);
+        for (let i = 0; i < MAX_FAILURES_PER_USER - 1; i++) {
+            await throttle.recordFailure("alice", "10.0.0.1");
+        }
+        expect(await throttle.retryAfter("alice", "10.0.0.1")).toBe(0);
+
+        await throttle.recordFailure("alice", "10.0.0.1");
+        expect(await throttle.retryAfter("alice", "10.0.0.1")).toBeGreaterThan(0);
+        // The lock-out follows the username, not just the address
+        expect(await throttle.retryAfter("alice", "10.0.0.2")).toBeGreaterThan(0);
+        expect(await throttle.retryAfter("bob", "10.0.0.3")).toBe(0);
+    });
+
+    it("limits an address guessing across many usernames", async () => {
+        const throttle = new LoginThrottle(fakeRedis().redis);
+        for (let i = 0; i < MAX_FAILURES_PER_IP; i++) {
+            await throttle.recordFailure(`user${i}`, "10.0.0.1");
+        }
+        expect(await throttle.retryAfter("someone-else", "10.0.0.1")).toBeGreaterThan(0);
+        expect(await throttle.retryAfter("someone-else", "10.0.0.2")).toBe(0);
+    });
+
+    it("starts the window at the first failure", async () => {
+        const { redis, ttls } = fakeRedis();
+        const throttle = new LoginThrottle(redis);
+        await throttle.recordFailure("alice", "10.0.0.1");
+        ttls.set("login-failures:user:alice", 30);
+        await throttle.recordFailure("alice", "10.0.0.1");
+        expect(ttls.get("login-failures:user:alice")).toBe(30);
+    });
+
+    it("clears a username's failures after a successful login", async () => {
+        const throttle = new LoginThrottle(fakeRedis().redis);
+        for (let i = 0; i < MAX_FAILURES_PER_USER; i++) {
+            await throttle.recordFailure("alice", "10.0.0.1");
+        }
+        await throttle.reset("alice");
+        expect(await throttle.retryAfter("alice", "10.0.0.1")).toBe(0);
+    });
+});
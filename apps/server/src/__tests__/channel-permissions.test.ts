@@ -0,0 +1,166 @@
+/**
+ * Unit tests for channel permission overrides.
+ *
+ * Validates how role and user overrides are layered on top of base
+ * role permissions and inherited down the channel tree, and that the
+ * batched lookup for many users resolves each of them the same way.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import {
+    applyChannelOverrides,
+    getChannelPermissionsForUsers,
+    hasPermission,
+    type PermissionOverride,
+} from "../services/permissions.service.js";
+import { PermissionFlags } from "@reson8/shared-types";
+
+const CONNECT = BigInt(PermissionFlags.CONNECT);
+const SPEAK = BigInt(PermissionFlags.SPEAK);
+const SEND_MESSAGES = BigInt(PermissionFlags.SEND_MESSAGES);
+const ADMIN = BigInt(PermissionFlags.ADMIN);
+
+/** Base permissions of the seeded Member role. */
+const MEMBER = CONNECT | SPEAK | SEND_MESSAGES;
+
+/** Helper to create a role override. */
+function roleOverride(roleId: string, allow = 0n, deny = 0n): PermissionOverride {
+    return { roleId, userId: null, allow, deny };
+}
+
+/** Helper to create a user override. */
+function userOverride(userId: string, allow = 0n, deny = 0n): PermissionOverride {
+    return { roleId: null, userId, allow, deny };
+}
+
+describe("applyChannelOverrides", () => {
+    const memberRoles = new Set(["role-default"]);
+
+    it("returns base permissions when there are no overrides", () => {
+        expect(applyChannelOverrides(MEMBER, [[], []], "user-1", memberRoles)).toBe(MEMBER);
+    });
+
+    it("denies a flag through a role override (read-only channel)", () => {
+        const chain = [[roleOverride("role-default", 0n, SEND_MESSAGES)]];
+        const perms = applyChannelOverrides(MEMBER, chain, "user-1", memberRoles);
+        expect(hasPermission(perms, SEND_MESSAGES)).toBe(false);
+        expect(hasPermission(perms, CONNECT)).toBe(true);
+    });
+
+    it("ignores overrides for roles the user does not hold", () => {
+        const chain = [[roleOverride("role-staff", 0n, CONNECT)]];
+        expect(applyChannelOverrides(MEMBER, chain, "user-1", memberRoles)).toBe(MEMBER);
+    });
+
+    it("lets another role's allow win over a deny at the same level", () => {
+        const roles = new Set(["role-default", "role-staff"]);
+        const chain = [[
+            roleOverride("role-default", 0n, CONNECT),
+            roleOverride("role-staff", CONNECT),
+        ]];
+        const perms = applyChannelOverrides(MEMBER, chain, "user-1", roles);
+        expect(hasPermission(perms, CONNECT)).toBe(true);
+    });
+
+    it("applies user overrides after role overrides", () => {
+        const chain = [[
+            roleOverride("role-default", 0n, SPEAK),
+            userOverride("user-1", SPEAK),
+        ]];
+        const perms = applyChannelOverrides(MEMBER, chain, "user-1", memberRoles);
+        expect(hasPermission(perms, SPEAK)).toBe(true);
+    });
+
+    it("ignores overrides for other users", () => {
+        const chain = [[userOverride("user-2", 0n, CONNECT)]];
+        expect(applyChannelOverrides(MEMBER, chain, "user-1", memberRoles)).toBe(MEMBER);
+    });
+
+    it("inherits a parent's override into sub-channels", () => {
+        const chain = [
+            [roleOverride("role-default", 0n, CONNECT)], // staff-only parent
+            [],                                          // child without overrides
+        ];
+        const perms = applyChannelOverrides(MEMBER, chain, "user-1", memberRoles);
+        expect(hasPermission(perms, CONNECT)).toBe(false);
+    });
+
+    it("lets a deeper channel re-allow what its parent denied", () => {
+        const chain = [
+            [roleOverride("role-default", 0n, CONNECT)],
+            [roleOverride("role-default", CONNECT)],
+        ];
+        const perms = applyChannelOverrides(MEMBER, chain, "user-1", memberRoles);
+        expect(hasPermission(perms, CONNECT)).toBe(true);
+    });
+
+    it("does not apply overrides to ADMIN users", () => {
+        const base = ADMIN | MEMBER;
+        const chain = [[userOverride("user-1", 0n, CONNECT | ADMIN)]];
+        expect(applyChannelOverrides(base, chain, "user-1", memberRoles)).toBe(base);
+    });
+
+    it("never grants ADMIN through an override", () => {
+        const chain = [[userOverride("user-1", ADMIN)]];
+        const perms = applyChannelOverrides(MEMBER, chain, "user-1", memberRoles);
+        expect(perms & ADMIN).toBe(0n);
+    });
+});
+
+describe("getChannelPermissionsForUsers", () => {
+    // lobby → room; Alice is a member, Bob a member denied CONNECT in the
+    // lobby by a user override, Carol a muted role denied via the room
+    const channels = new Map<string, string | null>([["lobby", null], ["room", "lobby"]]);
+    const roles = [
+        { userId: "alice", roleId: "role-default", role: { serverId: "s1", permissions: MEMBER } },
+        { userId: "bob", roleId: "role-default", role: { serverId: "s1", permissions: MEMBER } },
+        { userId: "carol", roleId: "role-muted", role: { serverId: "s1", permissions: MEMBER } },
+    ];
+    const overrides = [
+        { channelId: "lobby", ...userOverride("bob", 0n, CONNECT) },
+        { channelId: "room", ...roleOverride("role-muted", 0n, SPEAK) },
+    ];
+
+    /** Counts queries so the batching itself is checked too. */
+    let queries = 0;
+    const prisma = {
+        userRole: {
+            findMany: async ({ where }: { where: { userId: { in: string[] } } }) => {
+                queries++;
+                return roles.filter((r) => where.userId.in.includes(r.userId));
+            },
+        },
+        channel: {
+            findUnique: async ({ where }: { where: { id: string } }) => {
+                queries++;
+                return channels.has(where.id) ? { parentId: channels.get(where.id) ?? null } : null;
+            },
+        },
+        channelPermissionOverride: {
+            findMany: async ({ where }: { where: { channelId: { in: string[] } } }) => {
+                queries++;
+                return overrides.filter((o) => where.channelId.in.includes(o.channelId));
+            },
+        },
+    } as unknown as PrismaClient;
+
+    it("resolves every user with one role and one override query", async () => {
+        queries = 0;
+        const perms = await getChannelPermissionsForUsers(prisma, ["alice", "bob", "carol", "dave"], "s1", "room");
+
+        expect(perms.get("alice")).toBe(MEMBER);
+        expect(hasPermission(perms.get("bob")!, CONNECT)).toBe(false);
+        expect(perms.get("carol")).toBe(CONNECT | SEND_MESSAGES);
+        // No roles on this server
+        expect(perms.get("dave")).toBe(0n);
+        // userRole + override query, plus the two-level ancestry walk
+        expect(queries).toBe(4);
+    });
+
+    it("returns an empty map without querying for no users", async () => {
+        queries = 0;
+        expect((await getChannelPermissionsForUsers(prisma, [], "s1", "room")).size).toBe(0);
+        expect(queries).toBe(0);
+    });
+});
@@ -1,11 +1,27 @@
 /**
  * Unit tests for the Channel Tree Service.
  *
- * Validates the O(n) flat→nested transformation algorithm.
+ * Validates the O(n) flat→nested transformation algorithm, channel info
+ * validation, the one-off legacy category migration, channel move
+ * planning (renumbering, cycle and depth checks), and delete renumbering
+ * with the tree revisions it is broadcast at.
  */
 
 import { describe, it, expect } from "vitest";
-import { buildChannelTree } from "../services/channel-tree.service.js";
+import {
+    CHANNEL_TEXT_LIMITS,
+    MAX_CHANNEL_DEPTH,
+    buildChannelTree,
+    deleteChannel,
+    getChannelDepth,
+    migrateLegacyCategories,
+    parseChannelInfo,
+    planChannelDelete,
+    planChannelMove,
+    toChannelDto,
+} from "../services/channel-tree.service.js";
+import type { ChannelPlacement } from "../services/channel-tree.service.js";
+import type { PrismaClient } from "@prisma/client";
 import type { IChannel } from "@reson8/shared-types";
 import { ChannelType } from "@reson8/shared-types";
 
@@ -19,6 +35,10 @@ function makeChannel(
         parentId: null,
         position: 0,
         maxUsers: null,
+        topic: null,
+        description: null,
+        joinMessage: null,
+        audio: { maxBitrate: 64000, stereo: false, ptime: 20, fec: true, dtx: true },
         createdAt: new Date().toISOString(),
         ...overrides,
     };
@@ -158,4 +178,399 @@ describe("buildChannelTree", () => {
 
         expect(tree[0].occupants).toEqual([]);
     });
+
+    it("fills occupants from the map, including nested channels", () => {
+        const alice = {
+            userId: "u1",
+            nickname: "Alice",
+            isMuted: true,
+            isDeafened: false,
+            isAway: false,
+            isServerMuted: false,
+            isServerDeafened: false,
+        };
+        const channels = [
+            makeChannel({ id: "lobby", name: "Lobby", type: ChannelType.CATEGORY }),
+            makeChannel({ id: "room", name: "Room", parentId: "lobby" }),
+        ];
+        const tree = buildChannelTree(channels, new Map([["room", [alice]]]));
+
+        expect(tree[0].occupants).toEqual([]);
+        expect(tree[0].children[0].occupants).toEqual([alice]);
+    });
+});
+
+describe("toChannelDto", () => {
+    it("groups the Opus columns under audio", () => {
+        const createdAt = new Date("2024-01-01T00:00:00.000Z");
+        const dto = toChannelDto({
+            id: "ch1",
+            serverId: "server-1",
+            name: "Music",
+            type: "VOICE",
+            parentId: null,
+            position: 2,
+            maxUsers: 10,
+            topic: "Lo-fi all day",
+            description: null,
+            joinMessage: "Headphones recommended",
+            audioBitrate: 128000,
+            audioStereo: true,
+            audioPtime: 40,
+            audioFec: false,
+            audioDtx: false,
+            createdAt,
+        });
+
+        expect(dto).toEqual({
+            id: "ch1",
+            serverId: "server-1",
+            name: "Music",
+            type: ChannelType.VOICE,
+            parentId: null,
+            position: 2,
+            maxUsers: 10,
+            topic: "Lo-fi all day",
+            description: null,
+            joinMessage: "Headphones recommended",
+            audio: { maxBitrate: 128000, stereo: true, ptime: 40, fec: false, dtx: false },
+            createdAt: "2024-01-01T00:00:00.000Z",
+        });
+    });
+});
+
+describe("parseChannelInfo", () => {
+    it("trims texts and clears blank ones", () => {
+        expect(parseChannelInfo({ topic: "  Raid night  ", description: "   ", joinMessage: null })).toEqual({
+            success: true,
+            data: { topic: "Raid night", description: null, joinMessage: null },
+        });
+    });
+
+    it("leaves omitted fields out", () => {
+        expect(parseChannelInfo({ topic: "Hi" })).toEqual({ success: true, data: { topic: "Hi" } });
+        expect(parseChannelInfo({})).toEqual({ success: true, data: {} });
+    });
+
+    it("rejects texts over their limit", () => {
+        const result = parseChannelInfo({ topic: "x".repeat(CHANNEL_TEXT_LIMITS.topic + 1) });
+        expect(result).toEqual({
+            success: false,
+            error: `Topic can be at most ${CHANNEL_TEXT_LIMITS.topic} characters`,
+        });
+        expect(parseChannelInfo({ joinMessage: "x".repeat(CHANNEL_TEXT_LIMITS.joinMessage) }).success).toBe(true);
+    });
+
+    it("rejects non-text values", () => {
+        expect(parseChannelInfo({ description: 42 as unknown as string }).success).toBe(false);
+    });
+
+    it("accepts a positive whole user limit or null", () => {
+        expect(parseChannelInfo({ maxUsers: 5 })).toEqual({ success: true, data: { maxUsers: 5 } });
+        expect(parseChannelInfo({ maxUsers: null })).toEqual({ success: true, data: { maxUsers: null } });
+    });
+
+    it("rejects other user limits", () => {
+        for (const maxUsers of [0, -3, 2.5, NaN]) {
+            expect(parseChannelInfo({ maxUsers }).success).toBe(false);
+        }
+    });
+});
+
+/**
+ * Just enough of PrismaClient for migrateLegacyCategories, over in-memory
+ * channel rows and data_migrations names.
+ */
+function fakeMigrationDb(channels: Array<{ id: string; type: string; parentId: string | null }>) {
+    const applied = new Set<string>();
+    const db = {
+        dataMigration: {
+            createMany: async ({ data }: { data: Array<{ name: string }> }) => {
+                const fresh = data.filter((row) => !applied.has(row.name));
+                for (const row of fresh) applied.add(row.name);
+                return { count: fresh.length };
+            },
+        },
+        channel: {
+            updateMany: async ({ data }: { data: { type: string } }) => {
+                const targets = channels.filter(
+                    (c) => c.type === "VOICE" && channels.some((child) => child.parentId === c.id),
+                );
+                for (const c of targets) c.type = data.type;
+                return { count: targets.length };
+            },
+        },
+    };
+    return { ...db, $transaction: <T>(fn: (tx: typeof db) => Promise<T>) => fn(db) } as unknown as PrismaClient;
+}
+
+describe("migrateLegacyCategories", () => {
+    it("converts voice channels with children once and never again", async () => {
+        const channels = [
+            { id: "lobby", type: "VOICE", parentId: null },
+            { id: "room", type: "VOICE", parentId: "lobby" },
+            { id: "solo", type: "VOICE", parentId: null },
+        ];
+        const db = fakeMigrationDb(channels);
+
+        expect(await migrateLegacyCategories(db)).toBe(1);
+        expect(channels.map((c) => c.type)).toEqual(["CATEGORY", "VOICE", "VOICE"]);
+
+        // A sub-channel nested under a voice room later survives a restart
+        channels.push({ id: "sub", type: "VOICE", parentId: "room" });
+        expect(await migrateLegacyCategories(db)).toBe(0);
+        expect(channels.find((c) => c.id === "room")?.type).toBe("VOICE");
+    });
+});
+
+/** Helper to create a channel placement. */
+function place(id: string, parentId: string | null, position: number): ChannelPlacement {
+    return { id, parentId, position };
+}
+
+/** A chain of channels l1 → l2 → … → l{depth}. */
+function chain(depth: number): ChannelPlacement[] {
+    return Array.from({ length: depth }, (_, i) =>
+        place(`l${i + 1}`, i === 0 ? null : `l${i}`, 0),
+    );
+}
+
+/** Applies a successful plan's updates to the placements. */
+function applyMove(
+    channels: ChannelPlacement[],
+    channelId: string,
+    newParentId: string | null,
+    newPosition: number,
+): ChannelPlacement[] {
+    const plan = planChannelMove(channels, channelId, newParentId, newPosition);
+    if (!plan.success) throw new Error(plan.error);
+    const updates = new Map(plan.updates.map((u) => [u.id, u]));
+    return channels.map((c) => updates.get(c.id) ?? c);
+}
+
+/** Ids under a parent in position order. */
+function childrenOf(channels: ChannelPlacement[], parentId: string | null): string[] {
+    return channels
+        .filter((c) => c.parentId === parentId)
+        .sort((a, b) => a.position - b.position)
+        .map((c) => c.id);
+}
+
+describe("getChannelDepth", () => {
+    it("is 1 for root channels", () => {
+        expect(getChannelDepth([place("a", null, 0)], "a")).toBe(1);
+    });
+
+    it("counts every ancestor", () => {
+        expect(getChannelDepth(chain(4), "l4")).toBe(4);
+    });
+
+    it("treats a missing parent as root", () => {
+        expect(getChannelDepth([place("orphan", "gone", 0)], "orphan")).toBe(1);
+    });
+});
+
+describe("planChannelMove", () => {
+    const flat = [place("a", null, 0), place("b", null, 1), place("c", null, 2)];
+
+    it("reorders siblings under the same parent", () => {
+        const moved = applyMove(flat, "c", null, 0);
+        expect(childrenOf(moved, null)).toEqual(["c", "a", "b"]);
+        expect(moved.find((c) => c.id === "c")!.position).toBe(0);
+    });
+
+    it("only returns rows that change", () => {
+        const plan = planChannelMove(flat, "b", null, 2);
+        expect(plan.success && plan.updates.map((u) => u.id).sort()).toEqual(["b", "c"]);
+    });
+
+    it("returns no updates when nothing moves", () => {
+        expect(planChannelMove(flat, "b", null, 1)).toEqual({ success: true, updates: [] });
+    });
+
+    it("re-parents and renumbers both the old and new siblings", () => {
+        const channels = [
+            ...flat,
+            place("a1", "a", 0),
+            place("a2", "a", 1),
+        ];
+        const moved = applyMove(channels, "b", "a", 1);
+
+        expect(childrenOf(moved, null)).toEqual(["a", "c"]);
+        expect(moved.find((c) => c.id === "c")!.position).toBe(1);
+        expect(childrenOf(moved, "a")).toEqual(["a1", "b", "a2"]);
+        expect(moved.filter((c) => c.parentId === "a").map((c) => c.position).sort()).toEqual([0, 1, 2]);
+    });
+
+    it("moves a channel back to the root", () => {
+        const channels = [...flat, place("a1", "a", 0)];
+        const moved = applyMove(channels, "a1", null, 1);
+        expect(childrenOf(moved, null)).toEqual(["a", "a1", "b", "c"]);
+        expect(childrenOf(moved, "a")).toEqual([]);
+    });
+
+    it("clamps positions past either end", () => {
+        expect(childrenOf(applyMove(flat, "a", null, 99), null)).toEqual(["b", "c", "a"]);
+        expect(childrenOf(applyMove(flat, "c", null, -5), null)).toEqual(["c", "a", "b"]);
+    });
+
+    it("renumbers siblings whose stored positions have gaps", () => {
+        const gappy = [place("a", null, 0), place("b", null, 5), place("c", null, 9)];
+        const moved = applyMove(gappy, "a", null, 1);
+        expect(moved.map((c) => [c.id, c.position])).toEqual([["a", 1], ["b", 0], ["c", 2]]);
+    });
+
+    it("rejects moving a channel into itself", () => {
+        const plan = planChannelMove(flat, "a", "a", 0);
+        expect(plan.success).toBe(false);
+    });
+
+    it("rejects moving a channel under its own descendant", () => {
+        const plan = planChannelMove(chain(3), "l1", "l3", 0);
+        expect(plan).toEqual({
+            success: false,
+            error: "Cannot move a channel into itself or its sub-channels",
+        });
+    });
+
+    it("rejects moves that nest deeper than the maximum depth", () => {
+        const channels = [...chain(MAX_CHANNEL_DEPTH), place("x", null, 1), place("x1", "x", 0)];
+
+        // x (with one child) fits under l{max-2}, not l{max-1}
+        expect(planChannelMove(channels, "x", `l${MAX_CHANNEL_DEPTH - 2}`, 0).success).toBe(true);
+        const plan = planChannelMove(channels, "x", `l${MAX_CHANNEL_DEPTH - 1}`, 0);
+        expect(plan.success).toBe(false);
+        expect(!plan.success && plan.error).toMatch(/levels deep/);
+    });
+
+    it("rejects unknown channels and parents", () => {
+        expect(planChannelMove(flat, "nope", null, 0)).toEqual({ success: false, error: "Channel not found" });
+        expect(planChannelMove(flat, "a", "nope", 0)).toEqual({ success: false, error: "Parent channel not found" });
+    });
+
+    it("rejects a non-numeric position", () => {
+        expect(planChannelMove(flat, "a", null, Number.NaN).success).toBe(false);
+    });
+});
+
+describe("planChannelDelete", () => {
+    /** Applies the plan, dropping the deleted channel. */
+    function applyDelete(channels: ChannelPlacement[], channelId: string): ChannelPlacement[] {
+        const updates = new Map(planChannelDelete(channels, channelId).map((u) => [u.id, u]));
+        return channels.filter((c) => c.id !== channelId).map((c) => updates.get(c.id) ?? c);
+    }
+
+    it("closes the gap among the root channels", () => {
+        const flat = [place("a", null, 0), place("b", null, 1), place("c", null, 2)];
+        const after = applyDelete(flat, "a");
+        expect(after.map((c) => [c.id, c.position])).toEqual([["b", 0], ["c", 1]]);
+    });
+
+    it("closes the gap among nested siblings", () => {
+        const channels = [place("cat", null, 0), place("x", "cat", 0), place("y", "cat", 1), place("z", "cat", 2)];
+        const after = applyDelete(channels, "y");
+        expect(childrenOf(after, "cat")).toEqual(["x", "z"]);
+        expect(after.find((c) => c.id === "z")!.position).toBe(1);
+    });
+
+    it("appends the children after the existing root channels", () => {
+        const channels = [
+            place("a", null, 0),
+            place("cat", null, 1),
+            place("b", null, 2),
+            place("c2", "cat", 1),
+            place("c1", "cat", 0),
+        ];
+        const after = applyDelete(channels, "cat");
+        expect(childrenOf(after, null)).toEqual(["a", "b", "c1", "c2"]);
+        expect(after.filter((c) => c.parentId === null).map((c) => c.position).sort()).toEqual([0, 1, 2, 3]);
+    });
+
+    it("renumbers both the old siblings and the root for a nested channel", () => {
+        const channels = [
+            place("root", null, 0),
+            place("cat", null, 1),
+            place("x", "cat", 0),
+            place("y", "cat", 1),
+            place("z", "cat", 2),
+            place("y1", "y", 0),
+        ];
+        const plan = planChannelDelete(channels, "y");
+        expect(plan.map((u) => u.id).sort()).toEqual(["y1", "z"]);
+
+        const after = applyDelete(channels, "y");
+        expect(childrenOf(after, "cat")).toEqual(["x", "z"]);
+        expect(childrenOf(after, null)).toEqual(["root", "cat", "y1"]);
+        expect(after.find((c) => c.id === "y1")!.position).toBe(2);
+    });
+
+    it("returns no updates for the last channel or an unknown one", () => {
+        const flat = [place("a", null, 0), place("b", null, 1)];
+        expect(planChannelDelete(flat, "b")).toEqual([]);
+        expect(planChannelDelete(flat, "nope")).toEqual([]);
+    });
+});
+
+/** In-memory server row and channel table for deleteChannel. */
+function fakeTreeDb(channels: ChannelPlacement[], revision: number) {
+    const server = { channelTreeRevision: revision };
+    const db = {
+        server: {
+            update: async ({ data }: { data: { channelTreeRevision: { increment: number } } }) => {
+                server.channelTreeRevision += data.channelTreeRevision.increment;
+                return { channelTreeRevision: server.channelTreeRevision };
+            },
+        },
+        channel: {
+            findMany: async ({ where }: { where: { id?: { in: string[] } } }) =>
+                channels
+                    .filter((c) => !where.id || where.id.in.includes(c.id))
+                    .sort((a, b) => a.position - b.position)
+                    .map((c) => ({ ...c })),
+            delete: async ({ where }: { where: { id: string } }) => {
+                const index = channels.findIndex((c) => c.id === where.id);
+                const [removed] = channels.splice(index, 1);
+                // onDelete: SetNull
+                for (const c of channels) if (c.parentId === where.id) c.parentId = null;
+                return removed;
+            },
+            update: async ({ where, data }: { where: { id: string }; data: Omit<ChannelPlacement, "id"> }) => {
+                const row = channels.find((c) => c.id === where.id)!;
+                Object.assign(row, data);
+                return row;
+            },
+        },
+    };
+    return { ...db, $transaction: <T>(fn: (tx: typeof db) => Promise<T>) => fn(db) } as unknown as PrismaClient;
+}
+
+describe("deleteChannel", () => {
+    it("removes at the next revision and renumbers one revision later", async () => {
+        const channels = [
+            place("a", null, 0),
+            place("cat", null, 1),
+            place("b", null, 2),
+            place("c1", "cat", 0),
+            place("c2", "cat", 1),
+        ];
+
+        const result = await deleteChannel(fakeTreeDb(channels, 7), "server-1", "cat");
+
+        expect(result.revision).toBe(8);
+        expect(result.renumbered?.revision).toBe(9);
+        expect(result.renumbered?.channels.map((c) => [c.id, c.parentId, c.position])).toEqual([
+            ["b", null, 1],
+            ["c1", null, 2],
+            ["c2", null, 3],
+        ]);
+        expect(childrenOf(channels, null)).toEqual(["a", "b", "c1", "c2"]);
+    });
+
+    it("takes a single revision when nothing needs renumbering", async () => {
+        const channels = [place("a", null, 0), place("b", null, 1)];
+
+        const result = await deleteChannel(fakeTreeDb(channels, 3), "server-1", "b");
+
+        expect(result).toEqual({ revision: 4, renumbered: null });
+    });
 });
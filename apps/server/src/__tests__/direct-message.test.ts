@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the Direct Message Service.
+ *
+ * Validates recipient normalisation, the per-user room naming and the
+ * conversation DTO mapping.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    MAX_CONVERSATION_MEMBERS,
+    normalizeRecipients,
+    toConversationDto,
+    userRoom,
+} from "../services/direct-message.service.js";
+
+describe("normalizeRecipients", () => {
+    it("removes duplicates and the sender", () => {
+        expect(normalizeRecipients("me", ["a", "b", "a", "me"])).toEqual(["a", "b"]);
+    });
+
+    it("rejects an empty recipient list", () => {
+        expect(normalizeRecipients("me", [])).toBe("Choose at least one recipient");
+        expect(normalizeRecipients("me", ["me"])).toBe("Choose at least one recipient");
+    });
+
+    it("rejects malformed input", () => {
+        expect(normalizeRecipients("me", undefined)).toBe("Invalid recipients");
+        expect(normalizeRecipients("me", "a")).toBe("Invalid recipients");
+        expect(normalizeRecipients("me", ["a", 42])).toBe("Invalid recipients");
+        expect(normalizeRecipients("me", ["a", ""])).toBe("Invalid recipients");
+    });
+
+    it("enforces the member limit, sender included", () => {
+        const fits = Array.from({ length: MAX_CONVERSATION_MEMBERS - 1 }, (_, i) => `u${i}`);
+        expect(normalizeRecipients("me", fits)).toEqual(fits);
+
+        const tooMany = [...fits, "extra"];
+        expect(typeof normalizeRecipients("me", tooMany)).toBe("string");
+    });
+});
+
+describe("userRoom", () => {
+    it("is distinct from server and channel rooms", () => {
+        expect(userRoom("abc")).toBe("user:abc");
+    });
+});
+
+describe("toConversationDto", () => {
+    it("flattens member nicknames and serialises the activity date", () => {
+        const dto = toConversationDto({
+            id: "c1",
+            lastActivityAt: new Date("2026-01-02T03:04:05.000Z"),
+            members: [
+                { userId: "a", user: { nickname: "Alice" } },
+                { userId: "b", user: { nickname: "Bob" } },
+            ],
+        });
+
+        expect(dto).toEqual({
+            id: "c1",
+            members: [
+                { userId: "a", nickname: "Alice" },
+                { userId: "b", nickname: "Bob" },
+            ],
+            lastActivityAt: "2026-01-02T03:04:05.000Z",
+        });
+    });
+});
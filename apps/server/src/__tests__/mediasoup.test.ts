@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the MediasoupService helpers.
+ *
+ * Validates how audio level observer volumes map to speaking users, and
+ * the per-channel Opus settings checks.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    exceedsBitrateCap,
+    toActiveSpeakers,
+    validateChannelAudio,
+} from "../services/mediasoup.service.js";
+
+const volume = (userId?: unknown) => ({
+    producer: { appData: userId === undefined ? {} : { userId } },
+});
+
+describe("toActiveSpeakers", () => {
+    it("returns sorted userIds so sets compare equal", () => {
+        expect(toActiveSpeakers([volume("bob"), volume("alice")])).toEqual(["alice", "bob"]);
+    });
+
+    it("de-duplicates users", () => {
+        expect(toActiveSpeakers([volume("alice"), volume("alice")])).toEqual(["alice"]);
+    });
+
+    it("skips producers without a userId", () => {
+        expect(toActiveSpeakers([volume(), volume(42), volume("alice")])).toEqual(["alice"]);
+    });
+
+    it("is empty for no volumes", () => {
+        expect(toActiveSpeakers([])).toEqual([]);
+    });
+});
+
+describe("validateChannelAudio", () => {
+    it("accepts a full valid update", () => {
+        expect(validateChannelAudio({
+            maxBitrate: 96000, stereo: true, ptime: 40, fec: false, dtx: false,
+        })).toBeNull();
+    });
+
+    it("accepts a partial update", () => {
+        expect(validateChannelAudio({ dtx: false })).toBeNull();
+        expect(validateChannelAudio({})).toBeNull();
+    });
+
+    it("rejects bitrates outside the Opus range", () => {
+        expect(validateChannelAudio({ maxBitrate: 5999 })).toMatch(/Bitrate/);
+        expect(validateChannelAudio({ maxBitrate: 510001 })).toMatch(/Bitrate/);
+        expect(validateChannelAudio({ maxBitrate: 64000.5 })).toMatch(/Bitrate/);
+    });
+
+    it("rejects unsupported packet times", () => {
+        expect(validateChannelAudio({ ptime: 30 })).toMatch(/Packet time/);
+    });
+
+    it("rejects non-boolean flags", () => {
+        expect(validateChannelAudio({ stereo: "yes" as unknown as boolean })).not.toBeNull();
+    });
+});
+
+describe("exceedsBitrateCap", () => {
+    it("allows encodings at or below the cap", () => {
+        expect(exceedsBitrateCap({ encodings: [{ maxBitrate: 64000 }] }, 64000)).toBe(false);
+        expect(exceedsBitrateCap({ encodings: [{ maxBitrate: 32000 }] }, 64000)).toBe(false);
+    });
+
+    it("rejects encodings above the cap", () => {
+        expect(exceedsBitrateCap({ encodings: [{ maxBitrate: 128000 }] }, 64000)).toBe(true);
+    });
+
+    it("rejects encodings without a declared limit", () => {
+        expect(exceedsBitrateCap({ encodings: [{}] }, 64000)).toBe(true);
+        expect(exceedsBitrateCap({}, 64000)).toBe(true);
+    });
+
+    it("checks every encoding", () => {
+        expect(exceedsBitrateCap({
+            encodings: [{ maxBitrate: 32000 }, { maxBitrate: 96000 }],
+        }, 64000)).toBe(true);
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the Message Service.
+ *
+ * Validates @-mention detection used for MESSAGE_NOTIFICATION, reaction
+ * validation and aggregation, and reply previews.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    REPLY_PREVIEW_LENGTH,
+    isMentioned,
+    isValidReaction,
+    summarizeReactions,
+    toReplyPreview,
+} from "../services/message.service.js";
+
+describe("isMentioned", () => {
+    it("detects a mention anywhere in the message", () => {
+        expect(isMentioned("@bob hello", "bob")).toBe(true);
+        expect(isMentioned("hey @bob", "bob")).toBe(true);
+        expect(isMentioned("hey @bob, are you there?", "bob")).toBe(true);
+    });
+
+    it("is case-insensitive", () => {
+        expect(isMentioned("hey @Bob", "bob")).toBe(true);
+    });
+
+    it("does not match a longer nickname or an email address", () => {
+        expect(isMentioned("hey @bobby", "bob")).toBe(false);
+        expect(isMentioned("mail alice@bob.com", "bob")).toBe(false);
+    });
+
+    it("does not match the nickname without an @", () => {
+        expect(isMentioned("bob is here", "bob")).toBe(false);
+    });
+
+    it("treats regex characters in nicknames literally", () => {
+        expect(isMentioned("hi @a.b", "a.b")).toBe(true);
+        expect(isMentioned("hi @axb", "a.b")).toBe(false);
+    });
+});
+
+describe("isValidReaction", () => {
+    it("accepts single and composed emoji", () => {
+        expect(isValidReaction("👍")).toBe(true);
+        expect(isValidReaction("❤️")).toBe(true);
+        expect(isValidReaction("👩‍💻")).toBe(true);
+        expect(isValidReaction("👍🏽")).toBe(true);
+    });
+
+    it("rejects empty, plain-text, whitespace and oversized values", () => {
+        expect(isValidReaction("")).toBe(false);
+        expect(isValidReaction("lol")).toBe(false);
+        expect(isValidReaction("👍 👍")).toBe(false);
+        expect(isValidReaction("👍".repeat(20))).toBe(false);
+        expect(isValidReaction(42)).toBe(false);
+    });
+});
+
+describe("summarizeReactions", () => {
+    it("returns an empty list when there are no reactions", () => {
+        expect(summarizeReactions([])).toEqual([]);
+    });
+
+    it("groups by emoji in order of first use", () => {
+        const summary = summarizeReactions([
+            { emoji: "👍", userId: "u1" },
+            { emoji: "🎉", userId: "u1" },
+            { emoji: "👍", userId: "u2" },
+        ]);
+        expect(summary).toEqual([
+            { emoji: "👍", count: 2, userIds: ["u1", "u2"] },
+            { emoji: "🎉", count: 1, userIds: ["u1"] },
+        ]);
+    });
+});
+
+describe("toReplyPreview", () => {
+    const source = {
+        id: "m1",
+        userId: "u1",
+        content: "hello",
+        deletedAt: null,
+        user: { nickname: "alice" },
+    };
+
+    it("quotes short messages as-is", () => {
+        expect(toReplyPreview(source)).toEqual({
+            id: "m1",
+            userId: "u1",
+            nickname: "alice",
+            content: "hello",
+            deleted: false,
+        });
+    });
+
+    it("truncates long messages", () => {
+        const preview = toReplyPreview({ ...source, content: "x".repeat(500) });
+        expect(preview.content).toHaveLength(REPLY_PREVIEW_LENGTH);
+        expect(preview.content.endsWith("…")).toBe(true);
+    });
+
+    it("hides the content of deleted messages", () => {
+        const preview = toReplyPreview({ ...source, deletedAt: new Date() });
+        expect(preview.deleted).toBe(true);
+        expect(preview.content).toBe("");
+    });
+});
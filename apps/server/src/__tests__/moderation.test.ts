@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the Moderation Service.
+ *
+ * Validates ban expiry and the server join gate (unknown servers and
+ * active bans are refused).
+ */
+
+import { describe, it, expect } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { checkServerJoin, isBanActive } from "../services/moderation.service.js";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+describe("isBanActive", () => {
+    it("treats bans without an expiry as permanent", () => {
+        expect(isBanActive({ expiresAt: null }, now)).toBe(true);
+    });
+
+    it("stops applying once the expiry has passed", () => {
+        expect(isBanActive({ expiresAt: new Date("2026-01-01T13:00:00Z") }, now)).toBe(true);
+        expect(isBanActive({ expiresAt: new Date("2026-01-01T11:00:00Z") }, now)).toBe(false);
+    });
+});
+
+/** One real server, with `bannedUserIds` banned from it permanently. */
+function fakeModerationDb(serverId: string, bannedUserIds: string[]) {
+    return {
+        server: {
+            findUnique: async ({ where }: { where: { id: string } }) =>
+                where.id === serverId ? { id: serverId, name: "Reson8", maxClients: 32 } : null,
+        },
+        ban: {
+            findUnique: async ({ where }: { where: { serverId_userId: { serverId: string; userId: string } } }) => {
+                const key = where.serverId_userId;
+                return key.serverId === serverId && bannedUserIds.includes(key.userId)
+                    ? { serverId, userId: key.userId, reason: "spam", expiresAt: null }
+                    : null;
+            },
+        },
+    } as unknown as PrismaClient;
+}
+
+describe("checkServerJoin", () => {
+    const db = fakeModerationDb("server-1", ["banned"]);
+
+    it("lets users who aren't banned join an existing server", async () => {
+        const check = await checkServerJoin(db, "member", "server-1");
+        expect(check.success && check.server.id).toBe("server-1");
+    });
+
+    it("refuses banned users", async () => {
+        const check = await checkServerJoin(db, "banned", "server-1");
+        expect(check).toEqual({
+            success: false,
+            error: "You are banned from this server permanently: spam",
+        });
+    });
+
+    it("refuses a banned user who sends a made-up server ID", async () => {
+        const check = await checkServerJoin(db, "banned", "not-a-server");
+        expect(check).toEqual({ success: false, error: "Server not found" });
+    });
+});
@@ -1,12 +1,20 @@
 /**
  * Unit tests for the Permissions Service.
  *
- * Validates bitwise permission checking, ADMIN bypass, and
- * combined role permissions.
+ * Validates bitwise permission checking, ADMIN bypass, combined role
+ * permissions and power-level limits on role assignment.
  */
 
 import { describe, it, expect } from "vitest";
-import { hasPermission, hasAnyPermission, isAdmin } from "../services/permissions.service.js";
+import {
+    hasPermission,
+    hasAnyPermission,
+    isAdmin,
+    canModerate,
+    parsePermissions,
+    canGrantPermissions,
+    checkRoleAssignment,
+} from "../services/permissions.service.js";
 import { PermissionFlags } from "@reson8/shared-types";
 
 describe("hasPermission", () => {
@@ -100,3 +108,79 @@ describe("isAdmin", () => {
         expect(isAdmin(0n)).toBe(false);
     });
 });
+
+describe("canModerate", () => {
+    it("allows an actor with a higher power level", () => {
+        expect(canModerate(100, 0)).toBe(true);
+        expect(canModerate(50, 49)).toBe(true);
+    });
+
+    it("denies an actor with an equal power level", () => {
+        expect(canModerate(50, 50)).toBe(false);
+    });
+
+    it("denies an actor with a lower power level", () => {
+        expect(canModerate(0, 100)).toBe(false);
+    });
+});
+
+describe("parsePermissions", () => {
+    it("parses a decimal bitfield string", () => {
+        expect(parsePermissions("7")).toBe(7n);
+        expect(parsePermissions("0")).toBe(0n);
+    });
+
+    it("rejects non-numeric or negative input", () => {
+        expect(parsePermissions("abc")).toBeNull();
+        expect(parsePermissions("-1")).toBeNull();
+        expect(parsePermissions(7)).toBeNull();
+    });
+
+    it("rejects unknown permission bits", () => {
+        expect(parsePermissions(String(1 << 30))).toBeNull();
+    });
+});
+
+describe("canGrantPermissions", () => {
+    it("allows granting a subset of the actor's own flags", () => {
+        const actor = BigInt(PermissionFlags.CONNECT | PermissionFlags.SPEAK | PermissionFlags.MANAGE_ROLES);
+        expect(canGrantPermissions(actor, BigInt(PermissionFlags.CONNECT | PermissionFlags.SPEAK))).toBe(true);
+    });
+
+    it("denies granting flags the actor does not hold", () => {
+        const actor = BigInt(PermissionFlags.MANAGE_ROLES);
+        expect(canGrantPermissions(actor, BigInt(PermissionFlags.BAN_USER))).toBe(false);
+    });
+
+    it("ADMIN can grant anything", () => {
+        expect(canGrantPermissions(BigInt(PermissionFlags.ADMIN), BigInt(PermissionFlags.BAN_USER))).toBe(true);
+    });
+});
+
+describe("checkRoleAssignment", () => {
+    const moderator = { powerLevel: 50, permissions: BigInt(PermissionFlags.MANAGE_ROLES | PermissionFlags.CONNECT) };
+    const member = { powerLevel: 10, permissions: BigInt(PermissionFlags.CONNECT) };
+    const admin = { powerLevel: 100, permissions: BigInt(PermissionFlags.ADMIN) };
+
+    it("allows adding and removing a lower role for a lower user", () => {
+        expect(checkRoleAssignment(moderator, 10, member, "add")).toBeNull();
+        expect(checkRoleAssignment(moderator, 10, member, "remove")).toBeNull();
+    });
+
+    it("denies assigning a role at or above the actor's level", () => {
+        expect(checkRoleAssignment(moderator, 0, admin, "add")).not.toBeNull();
+        expect(checkRoleAssignment(moderator, 0, { ...member, powerLevel: 50 }, "add")).not.toBeNull();
+    });
+
+    it("denies changing roles of users at or above the actor's level", () => {
+        // Including the actor themselves
+        expect(checkRoleAssignment(moderator, 50, member, "add")).not.toBeNull();
+        expect(checkRoleAssignment(moderator, 100, member, "remove")).not.toBeNull();
+    });
+
+    it("denies adding a role with permissions the actor lacks", () => {
+        const banRole = { powerLevel: 10, permissions: BigInt(PermissionFlags.BAN_USER) };
+        expect(checkRoleAssignment(moderator, 0, banRole, "add")).toBe("You cannot grant permissions you do not have");
+        expect(checkRoleAssignment(moderator, 0, banRole, "remove")).toBeNull();
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the Presence Service helpers.
+ *
+ * Validates how occupant entries are built from socket data, including
+ * moderator restrictions, and grouped by channel for tree snapshots.
+ */
+
+import { describe, it, expect } from "vitest";
+import { groupOccupantsByChannel, toUserPresence } from "../services/presence.service.js";
+
+describe("toUserPresence", () => {
+    it("copies identity and voice/away flags", () => {
+        expect(
+            toUserPresence({
+                userId: "u1",
+                nickname: "Alice",
+                isMuted: true,
+                isDeafened: false,
+                isAway: true,
+            }),
+        ).toEqual({
+            userId: "u1",
+            nickname: "Alice",
+            isMuted: true,
+            isDeafened: false,
+            isAway: true,
+            isServerMuted: false,
+            isServerDeafened: false,
+        });
+    });
+
+    it("copies moderator restrictions", () => {
+        expect(
+            toUserPresence({ userId: "u1", nickname: "Alice", isServerMuted: true, isServerDeafened: true }),
+        ).toMatchObject({ isServerMuted: true, isServerDeafened: true });
+    });
+
+    it("defaults missing fields", () => {
+        expect(toUserPresence({})).toEqual({
+            userId: "",
+            nickname: "Unknown",
+            isMuted: false,
+            isDeafened: false,
+            isAway: false,
+            isServerMuted: false,
+            isServerDeafened: false,
+        });
+    });
+});
+
+describe("groupOccupantsByChannel", () => {
+    it("groups sockets by their current channel", () => {
+        const byChannel = groupOccupantsByChannel([
+            { userId: "u1", nickname: "Alice", currentChannelId: "ch1", isMuted: true },
+            { userId: "u2", nickname: "Bob", currentChannelId: "ch2" },
+            { userId: "u3", nickname: "Carol", currentChannelId: "ch1", isAway: true },
+        ]);
+
+        expect([...byChannel.keys()].sort()).toEqual(["ch1", "ch2"]);
+        expect(byChannel.get("ch1")).toEqual([
+            toUserPresence({ userId: "u1", nickname: "Alice", isMuted: true }),
+            toUserPresence({ userId: "u3", nickname: "Carol", isAway: true }),
+        ]);
+        expect(byChannel.get("ch2")?.map((o) => o.userId)).toEqual(["u2"]);
+    });
+
+    it("carries voice state and moderator restrictions", () => {
+        const byChannel = groupOccupantsByChannel([
+            { userId: "u1", nickname: "Alice", currentChannelId: "ch1", isDeafened: true, isServerMuted: true },
+        ]);
+
+        expect(byChannel.get("ch1")?.[0]).toMatchObject({
+            isDeafened: true,
+            isServerMuted: true,
+        });
+    });
+
+    it("leaves out sockets that aren't in a channel", () => {
+        const byChannel = groupOccupantsByChannel([
+            { userId: "u1", nickname: "Alice", currentChannelId: null },
+            { userId: "u2", nickname: "Bob" },
+        ]);
+
+        expect(byChannel.size).toBe(0);
+    });
+});
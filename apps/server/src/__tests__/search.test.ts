@@ -0,0 +1,57 @@
+/**
+ * Unit tests for the Search Service.
+ *
+ * Validates how ts_headline output is split into highlighted snippet parts.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    PLAIN_SNIPPET_LENGTH,
+    parseHeadline,
+    plainSnippet,
+} from "../services/search.service.js";
+
+describe("parseHeadline", () => {
+    it("returns plain text as a single unmatched part", () => {
+        expect(parseHeadline("hello world")).toEqual([{ text: "hello world", match: false }]);
+    });
+
+    it("splits highlighted terms into matched parts", () => {
+        expect(parseHeadline("see \u0002you\u0003 at the \u0002raid\u0003 tonight")).toEqual([
+            { text: "see ", match: false },
+            { text: "you", match: true },
+            { text: " at the ", match: false },
+            { text: "raid", match: true },
+            { text: " tonight", match: false },
+        ]);
+    });
+
+    it("drops empty parts", () => {
+        expect(parseHeadline("\u0002raid\u0003")).toEqual([{ text: "raid", match: true }]);
+        expect(parseHeadline("")).toEqual([]);
+    });
+
+    it("leaves markup in the text untouched for the client to escape", () => {
+        expect(parseHeadline("<b>\u0002hi\u0003</b>")).toEqual([
+            { text: "<b>", match: false },
+            { text: "hi", match: true },
+            { text: "</b>", match: false },
+        ]);
+    });
+});
+
+describe("plainSnippet", () => {
+    it("keeps short messages whole", () => {
+        expect(plainSnippet("gg")).toEqual([{ text: "gg", match: false }]);
+    });
+
+    it("truncates long messages", () => {
+        const [part] = plainSnippet("x".repeat(500));
+        expect(part.text).toHaveLength(PLAIN_SNIPPET_LENGTH);
+        expect(part.text.endsWith("…")).toBe(true);
+    });
+
+    it("returns no parts for attachment-only messages", () => {
+        expect(plainSnippet("")).toEqual([]);
+    });
+});
@@ -0,0 +1,16 @@
+/**
+ * Environment Helpers — Reson8
+ *
+ * Parsing for numeric environment variables, so a typo in `.env` falls
+ * back to the default instead of turning a limit into NaN.
+ */
+
+/**
+ * Parses a positive integer setting. Returns `fallback` when the value
+ * is unset, not a whole number, or less than 1.
+ */
+export function parsePositiveInt(value: string | undefined, fallback: number): number {
+    if (value === undefined || !/^\s*\d+\s*$/.test(value)) return fallback;
+    const parsed = parseInt(value, 10);
+    return parsed >= 1 ? parsed : fallback;
+}
@@ -6,6 +6,7 @@
  */
 
 import type { types as mediasoupTypes } from "mediasoup";
+import type { IChannelAudioSettings } from "@reson8/shared-types";
 import os from "node:os";
 
 /** Number of mediasoup Workers to spawn (1 per CPU core). */
@@ -20,7 +21,9 @@ export const WORKER_SETTINGS: mediasoupTypes.WorkerSettings = {
 
 /**
  * Media codecs supported by the Router.
- * Audio-only: Opus at 48kHz, stereo, with DTX for bandwidth savings.
+ * Audio-only: Opus at 48kHz, stereo-capable. Bitrate, channel count, ptime,
+ * FEC and DTX are chosen per channel (see DEFAULT_CHANNEL_AUDIO) and
+ * negotiated by the producing client.
  */
 export const MEDIA_CODECS = [
     {
@@ -35,6 +38,33 @@ export const MEDIA_CODECS = [
     },
 ];
 
+/** Opus settings for channels that haven't been configured. */
+export const DEFAULT_CHANNEL_AUDIO: IChannelAudioSettings = {
+    maxBitrate: 64000,
+    stereo: false,
+    ptime: 20,
+    fec: true,
+    dtx: true,
+};
+
+/** Bounds for a channel's Opus bitrate cap (bps), per RFC 7587. */
+export const OPUS_MIN_BITRATE = 6000;
+export const OPUS_MAX_BITRATE = 510000;
+
+/** Opus packet durations (ms) a channel may use. */
+export const OPUS_PTIMES = [10, 20, 40, 60];
+
+/**
+ * Audio level observer settings (one per Router) for speaking indicators.
+ * Producers above `threshold` dBvo count as speaking; volumes are sampled
+ * every `interval` ms, which also caps how often ACTIVE_SPEAKERS is sent.
+ */
+export const AUDIO_LEVEL_OBSERVER_OPTIONS: mediasoupTypes.AudioLevelObserverOptions = {
+    maxEntries: 16,
+    threshold: -60,
+    interval: 300,
+};
+
 /**
  * WebRtcTransport options factory.
  * Uses MEDIASOUP_ANNOUNCED_IP env var for NAT traversal on VPS deployments.
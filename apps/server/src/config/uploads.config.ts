@@ -0,0 +1,34 @@
+/**
+ * Upload Configuration — Reson8
+ *
+ * Limits for file attachments in text channels. All values can be
+ * overridden through environment variables.
+ */
+
+import path from "node:path";
+import { parsePositiveInt } from "./env.js";
+
+/** Directory where the local-disk storage keeps uploaded files. */
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR ?? "uploads");
+
+/** Maximum size of a single uploaded file (bytes). */
+export const UPLOAD_MAX_FILE_SIZE =
+    parsePositiveInt(process.env.UPLOAD_MAX_SIZE_MB, 10) * 1024 * 1024;
+
+/** Maximum number of files in one upload (and attached to one message). */
+export const UPLOAD_MAX_FILES = parsePositiveInt(process.env.UPLOAD_MAX_FILES, 10);
+
+/** Uploads never attached to a message are deleted after this many minutes. */
+export const UPLOAD_UNLINKED_TTL_MINUTES = parsePositiveInt(process.env.UPLOAD_UNLINKED_TTL_MINUTES, 60);
+
+/**
+ * Accepted MIME types. Entries may end in `/*` to accept a whole family.
+ * Set UPLOAD_ALLOWED_MIME_TYPES to a comma-separated list to override.
+ */
+export const UPLOAD_ALLOWED_MIME_TYPES = (
+    process.env.UPLOAD_ALLOWED_MIME_TYPES ??
+    "image/png,image/jpeg,image/gif,image/webp,audio/*,text/plain,application/pdf,application/zip"
+)
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean);
@@ -1,8 +1,13 @@
 /**
  * Admin Handler — Socket.io event handlers for admin operations.
  *
- * Handles: GET_ALL_USERS, GET_ROLES, ASSIGN_ROLE.
- * All events are guarded by the MANAGE_ROLES or ADMIN permission.
+ * Handles: GET_ALL_USERS, GET_ROLES, ASSIGN_ROLE, CREATE_ROLE, UPDATE_ROLE,
+ * DELETE_ROLE, GET_CHANNEL_PERMISSIONS, SET_CHANNEL_PERMISSION.
+ * All events are guarded by the MANAGE_ROLES or ADMIN permission. Role edits
+ * are further limited by power level: an actor can only create, edit or delete
+ * roles strictly below their own highest role (or set channel overrides for
+ * them), can only assign or remove such roles for users ranked below them,
+ * and can only grant permission flags they hold themselves.
  */
 
 import type { Server as SocketIOServer, Socket } from "socket.io";
@@ -12,9 +17,20 @@ import type {
     ServerToClientEvents,
     InterServerEvents,
     SocketData,
+    IRole,
+    IChannelPermissionOverride,
 } from "@reson8/shared-types";
+import type { ChannelPermissionOverride, Role } from "@prisma/client";
 import { requirePermission } from "../middleware/permissions.middleware.js";
 import { PermissionFlags } from "@reson8/shared-types";
+import {
+    canGrantPermissions,
+    canModerate,
+    checkRoleAssignment,
+    getUserPermissions,
+    getUserPowerLevel,
+    parsePermissions,
+} from "../services/permissions.service.js";
 
 type TypedIO = SocketIOServer<
     ClientToServerEvents,
@@ -30,6 +46,66 @@ type TypedSocket = Socket<
     SocketData
 >;
 
+/** Role every user is given on join — it can be edited but not deleted. */
+const DEFAULT_ROLE_ID = "role-default";
+
+const MAX_ROLE_NAME_LENGTH = 32;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/** Maps a Prisma role row to the IRole DTO. */
+function toRoleDto(r: Role): IRole {
+    return {
+        id: r.id,
+        serverId: r.serverId,
+        name: r.name,
+        permissions: r.permissions.toString(),
+        powerLevel: r.powerLevel,
+        color: r.color,
+        createdAt: r.createdAt.toISOString(),
+    };
+}
+
+/** Maps a Prisma channel override row to its DTO. */
+function toOverrideDto(o: ChannelPermissionOverride): IChannelPermissionOverride {
+    return {
+        id: o.id,
+        channelId: o.channelId,
+        roleId: o.roleId,
+        userId: o.userId,
+        allow: o.allow.toString(),
+        deny: o.deny.toString(),
+    };
+}
+
+/**
+ * Validates the editable role fields present in a CREATE_ROLE / UPDATE_ROLE
+ * payload. `actorLevel` is the caller's own power level.
+ * @returns An error message, or `null` if valid.
+ */
+function validateRoleFields(
+    fields: { name?: string; color?: string | null; powerLevel?: number },
+    actorLevel: number,
+): string | null {
+    if (fields.name !== undefined) {
+        const name = fields.name.trim();
+        if (!name || name.length > MAX_ROLE_NAME_LENGTH) {
+            return `Role name must be 1-${MAX_ROLE_NAME_LENGTH} characters`;
+        }
+    }
+    if (fields.color != null && !COLOR_PATTERN.test(fields.color)) {
+        return "Color must be a hex value like #FF5733";
+    }
+    if (fields.powerLevel !== undefined) {
+        if (!Number.isInteger(fields.powerLevel) || fields.powerLevel < 0) {
+            return "Power level must be a non-negative integer";
+        }
+        if (!canModerate(actorLevel, fields.powerLevel)) {
+            return "Power level must be below your own";
+        }
+    }
+    return null;
+}
+
 /**
  * Registers admin/role-management event handlers.
  */
@@ -37,6 +113,18 @@ export function registerAdminHandlers(
     io: TypedIO,
     app: FastifyInstance,
 ): void {
+    /** Sends the server's current role list to every connected client. */
+    async function broadcastRoles(serverId: string): Promise<void> {
+        const roles = await app.prisma.role.findMany({
+            where: { serverId },
+            orderBy: { powerLevel: "desc" },
+        });
+        io.to(`server:${serverId}`).emit("ROLES_UPDATED", {
+            serverId,
+            roles: roles.map(toRoleDto),
+        });
+    }
+
     io.on("connection", (socket: TypedSocket) => {
         // ── GET_ALL_USERS ──────────────────────────────────────────────────
         socket.on("GET_ALL_USERS", async (payload, ack) => {
@@ -76,15 +164,7 @@ export function registerAdminHandlers(
                     username: u.username,
                     nickname: u.nickname,
                     createdAt: u.createdAt.toISOString(),
-                    roles: u.roles.map((ur) => ({
-                        id: ur.role.id,
-                        serverId: ur.role.serverId,
-                        name: ur.role.name,
-                        permissions: ur.role.permissions.toString(),
-                        powerLevel: ur.role.powerLevel,
-                        color: ur.role.color,
-                        createdAt: ur.role.createdAt.toISOString(),
-                    })),
+                    roles: u.roles.map((ur) => toRoleDto(ur.role)),
                 }));
 
                 ack({ success: true, users: mapped });
@@ -114,17 +194,7 @@ export function registerAdminHandlers(
                     orderBy: { powerLevel: "desc" },
                 });
 
-                const mapped = roles.map((r) => ({
-                    id: r.id,
-                    serverId: r.serverId,
-                    name: r.name,
-                    permissions: r.permissions.toString(),
-                    powerLevel: r.powerLevel,
-                    color: r.color,
-                    createdAt: r.createdAt.toISOString(),
-                }));
-
-                ack({ success: true, roles: mapped });
+                ack({ success: true, roles: roles.map(toRoleDto) });
             } catch (err) {
                 app.log.error({ err }, "Error in GET_ROLES");
                 ack({ success: false, error: "Failed to fetch roles" });
@@ -145,6 +215,29 @@ export function registerAdminHandlers(
 
             try {
                 const { userId, roleId, action } = payload;
+                const { serverId } = socket.data;
+
+                const role = await app.prisma.role.findUnique({ where: { id: roleId } });
+                if (!role || role.serverId !== serverId) {
+                    ack({ success: false, error: "Role not found" });
+                    return;
+                }
+
+                const [actorPerms, actorLevel, targetLevel] = await Promise.all([
+                    getUserPermissions(app.prisma, socket.data.userId, serverId),
+                    getUserPowerLevel(app.prisma, socket.data.userId, serverId),
+                    getUserPowerLevel(app.prisma, userId, serverId),
+                ]);
+                const denied = checkRoleAssignment(
+                    { powerLevel: actorLevel, permissions: actorPerms },
+                    targetLevel,
+                    role,
+                    action,
+                );
+                if (denied) {
+                    ack({ success: false, error: denied });
+                    return;
+                }
 
                 if (action === "add") {
                     await app.prisma.userRole.upsert({
@@ -169,10 +262,331 @@ export function registerAdminHandlers(
                 }
 
                 ack({ success: true });
+                await broadcastRoles(serverId);
             } catch (err) {
                 app.log.error({ err }, "Error in ASSIGN_ROLE");
                 ack({ success: false, error: "Failed to assign role" });
             }
         });
+
+        // ── CREATE_ROLE ────────────────────────────────────────────────────
+        socket.on("CREATE_ROLE", async (payload, ack) => {
+            const allowed = await requirePermission(
+                app,
+                socket,
+                BigInt(PermissionFlags.MANAGE_ROLES),
+            );
+            if (!allowed) {
+                ack({ success: false, error: "Permission denied" });
+                return;
+            }
+
+            try {
+                const { userId, serverId } = socket.data;
+                const [actorPerms, actorLevel] = await Promise.all([
+                    getUserPermissions(app.prisma, userId, serverId),
+                    getUserPowerLevel(app.prisma, userId, serverId),
+                ]);
+
+                const invalid = validateRoleFields(
+                    { name: payload.name ?? "", color: payload.color, powerLevel: payload.powerLevel },
+                    actorLevel,
+                );
+                if (invalid) {
+                    ack({ success: false, error: invalid });
+                    return;
+                }
+
+                const permissions = parsePermissions(payload.permissions);
+                if (permissions === null) {
+                    ack({ success: false, error: "Invalid permissions" });
+                    return;
+                }
+                if (!canGrantPermissions(actorPerms, permissions)) {
+                    ack({ success: false, error: "You cannot grant permissions you do not have" });
+                    return;
+                }
+
+                const role = await app.prisma.role.create({
+                    data: {
+                        serverId,
+                        name: payload.name.trim(),
+                        color: payload.color ?? null,
+                        permissions,
+                        powerLevel: payload.powerLevel,
+                    },
+                });
+
+                ack({ success: true, role: toRoleDto(role) });
+                await broadcastRoles(serverId);
+
+                app.log.info(
+                    { actorId: userId, roleId: role.id, name: role.name },
+                    "Role created",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in CREATE_ROLE");
+                ack({ success: false, error: "Failed to create role" });
+            }
+        });
+
+        // ── UPDATE_ROLE ────────────────────────────────────────────────────
+        socket.on("UPDATE_ROLE", async (payload, ack) => {
+            const allowed = await requirePermission(
+                app,
+                socket,
+                BigInt(PermissionFlags.MANAGE_ROLES),
+            );
+            if (!allowed) {
+                ack({ success: false, error: "Permission denied" });
+                return;
+            }
+
+            try {
+                const { userId, serverId } = socket.data;
+                const { roleId, name, color, powerLevel } = payload;
+
+                const role = await app.prisma.role.findUnique({ where: { id: roleId } });
+                if (!role || role.serverId !== serverId) {
+                    ack({ success: false, error: "Role not found" });
+                    return;
+                }
+
+                const [actorPerms, actorLevel] = await Promise.all([
+                    getUserPermissions(app.prisma, userId, serverId),
+                    getUserPowerLevel(app.prisma, userId, serverId),
+                ]);
+
+                if (!canModerate(actorLevel, role.powerLevel)) {
+                    ack({ success: false, error: "You can only edit roles below your own power level" });
+                    return;
+                }
+
+                const invalid = validateRoleFields({ name, color, powerLevel }, actorLevel);
+                if (invalid) {
+                    ack({ success: false, error: invalid });
+                    return;
+                }
+
+                let permissions: bigint | undefined;
+                if (payload.permissions !== undefined) {
+                    const parsed = parsePermissions(payload.permissions);
+                    if (parsed === null) {
+                        ack({ success: false, error: "Invalid permissions" });
+                        return;
+                    }
+                    // Only newly added flags need to be held by the actor
+                    if (!canGrantPermissions(actorPerms, parsed & ~role.permissions)) {
+                        ack({ success: false, error: "You cannot grant permissions you do not have" });
+                        return;
+                    }
+                    permissions = parsed;
+                }
+
+                const updated = await app.prisma.role.update({
+                    where: { id: roleId },
+                    data: {
+                        ...(name !== undefined && { name: name.trim() }),
+                        ...(color !== undefined && { color }),
+                        ...(powerLevel !== undefined && { powerLevel }),
+                        ...(permissions !== undefined && { permissions }),
+                    },
+                });
+
+                ack({ success: true, role: toRoleDto(updated) });
+                await broadcastRoles(serverId);
+
+                app.log.info({ actorId: userId, roleId }, "Role updated");
+            } catch (err) {
+                app.log.error({ err }, "Error in UPDATE_ROLE");
+                ack({ success: false, error: "Failed to update role" });
+            }
+        });
+
+        // ── DELETE_ROLE ────────────────────────────────────────────────────
+        socket.on("DELETE_ROLE", async (payload, ack) => {
+            const allowed = await requirePermission(
+                app,
+                socket,
+                BigInt(PermissionFlags.MANAGE_ROLES),
+            );
+            if (!allowed) {
+                ack({ success: false, error: "Permission denied" });
+                return;
+            }
+
+            try {
+                const { userId, serverId } = socket.data;
+                const { roleId } = payload;
+
+                if (roleId === DEFAULT_ROLE_ID) {
+                    ack({ success: false, error: "The default role cannot be deleted" });
+                    return;
+                }
+
+                const role = await app.prisma.role.findUnique({ where: { id: roleId } });
+                if (!role || role.serverId !== serverId) {
+                    ack({ success: false, error: "Role not found" });
+                    return;
+                }
+
+                const actorLevel = await getUserPowerLevel(app.prisma, userId, serverId);
+                if (!canModerate(actorLevel, role.powerLevel)) {
+                    ack({ success: false, error: "You can only delete roles below your own power level" });
+                    return;
+                }
+
+                // UserRole rows cascade with the role
+                await app.prisma.role.delete({ where: { id: roleId } });
+
+                ack({ success: true });
+                await broadcastRoles(serverId);
+
+                app.log.info({ actorId: userId, roleId, name: role.name }, "Role deleted");
+            } catch (err) {
+                app.log.error({ err }, "Error in DELETE_ROLE");
+                ack({ success: false, error: "Failed to delete role" });
+            }
+        });
+
+        // ── GET_CHANNEL_PERMISSIONS ────────────────────────────────────────
+        socket.on("GET_CHANNEL_PERMISSIONS", async (payload, ack) => {
+            const allowed = await requirePermission(
+                app,
+                socket,
+                BigInt(PermissionFlags.MANAGE_ROLES),
+            );
+            if (!allowed) {
+                ack({ success: false, error: "Permission denied" });
+                return;
+            }
+
+            try {
+                const { channelId } = payload;
+
+                const channel = await app.prisma.channel.findUnique({ where: { id: channelId } });
+                if (!channel || channel.serverId !== socket.data.serverId) {
+                    ack({ success: false, error: "Channel not found" });
+                    return;
+                }
+
+                const overrides = await app.prisma.channelPermissionOverride.findMany({
+                    where: { channelId },
+                    orderBy: { createdAt: "asc" },
+                });
+
+                ack({ success: true, overrides: overrides.map(toOverrideDto) });
+            } catch (err) {
+                app.log.error({ err }, "Error in GET_CHANNEL_PERMISSIONS");
+                ack({ success: false, error: "Failed to fetch channel permissions" });
+            }
+        });
+
+        // ── SET_CHANNEL_PERMISSION ─────────────────────────────────────────
+        socket.on("SET_CHANNEL_PERMISSION", async (payload, ack) => {
+            const allowed = await requirePermission(
+                app,
+                socket,
+                BigInt(PermissionFlags.MANAGE_ROLES),
+            );
+            if (!allowed) {
+                ack({ success: false, error: "Permission denied" });
+                return;
+            }
+
+            try {
+                const { userId, serverId } = socket.data;
+                const { channelId, roleId, userId: targetUserId } = payload;
+
+                if (!roleId === !targetUserId) {
+                    ack({ success: false, error: "Specify either a role or a user" });
+                    return;
+                }
+
+                const allow = parsePermissions(payload.allow);
+                const deny = parsePermissions(payload.deny);
+                if (allow === null || deny === null) {
+                    ack({ success: false, error: "Invalid permissions" });
+                    return;
+                }
+                if ((allow & deny) !== 0n) {
+                    ack({ success: false, error: "A permission cannot be both allowed and denied" });
+                    return;
+                }
+
+                const channel = await app.prisma.channel.findUnique({ where: { id: channelId } });
+                if (!channel || channel.serverId !== serverId) {
+                    ack({ success: false, error: "Channel not found" });
+                    return;
+                }
+
+                const [actorPerms, actorLevel] = await Promise.all([
+                    getUserPermissions(app.prisma, userId, serverId),
+                    getUserPowerLevel(app.prisma, userId, serverId),
+                ]);
+
+                // The override's target must rank below the actor
+                let targetLevel: number;
+                if (roleId) {
+                    const role = await app.prisma.role.findUnique({ where: { id: roleId } });
+                    if (!role || role.serverId !== serverId) {
+                        ack({ success: false, error: "Role not found" });
+                        return;
+                    }
+                    targetLevel = role.powerLevel;
+                } else {
+                    targetLevel = await getUserPowerLevel(app.prisma, targetUserId!, serverId);
+                }
+                if (!canModerate(actorLevel, targetLevel)) {
+                    ack({ success: false, error: "Target has an equal or higher power level" });
+                    return;
+                }
+
+                if (!canGrantPermissions(actorPerms, allow)) {
+                    ack({ success: false, error: "You cannot grant permissions you do not have" });
+                    return;
+                }
+
+                const target = roleId
+                    ? { channelId_roleId: { channelId, roleId } }
+                    : { channelId_userId: { channelId, userId: targetUserId! } };
+
+                if (allow === 0n && deny === 0n) {
+                    // Nothing left to override — fall back to inheritance
+                    await app.prisma.channelPermissionOverride.deleteMany({
+                        where: { channelId, roleId: roleId ?? null, userId: targetUserId ?? null },
+                    });
+                } else {
+                    await app.prisma.channelPermissionOverride.upsert({
+                        where: target,
+                        update: { allow, deny },
+                        create: {
+                            channelId,
+                            roleId: roleId ?? null,
+                            userId: targetUserId ?? null,
+                            allow,
+                            deny,
+                        },
+                    });
+                }
+
+                ack({ success: true });
+
+                app.log.info(
+                    {
+                        actorId: userId,
+                        channelId,
+                        roleId,
+                        targetUserId,
+                        allow: allow.toString(),
+                        deny: deny.toString(),
+                    },
+                    "Channel permission override set",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in SET_CHANNEL_PERMISSION");
+                ack({ success: false, error: "Failed to set channel permission" });
+            }
+        });
     });
 }
@@ -1,21 +1,40 @@
 /**
  * Channel Handler — Socket.io events for channel CRUD.
  *
- * Handles: CREATE_CHANNEL, DELETE_CHANNEL, UPDATE_CHANNEL.
- * After each mutation, rebuilds the channel tree and broadcasts to all server members.
+ * Handles: CREATE_CHANNEL, DELETE_CHANNEL, UPDATE_CHANNEL, CHANNEL_MOVED,
+ *          GET_CHANNEL_TREE.
+ * Each mutation runs in a transaction that bumps the server's tree revision
+ * and is broadcast to all server members as a patch (CHANNEL_ADDED,
+ * CHANNEL_UPDATED, CHANNEL_REMOVED) carrying it; clients that miss one
+ * resync with GET_CHANNEL_TREE. Moves (and position changes) renumber the
+ * siblings at both the old and new parent (see planChannelMove); deletes
+ * renumber the old siblings and the root the children land in
+ * (see deleteChannel).
  */
 
 import type { Server as SocketIOServer, Socket } from "socket.io";
 import type { FastifyInstance } from "fastify";
+import type { Prisma } from "@prisma/client";
 import type {
     ClientToServerEvents,
     ServerToClientEvents,
     InterServerEvents,
     SocketData,
-    ChannelType,
 } from "@reson8/shared-types";
-import { PermissionFlags } from "@reson8/shared-types";
-import { buildChannelTree } from "../services/channel-tree.service.js";
+import { ChannelType, PermissionFlags } from "@reson8/shared-types";
+import {
+    MAX_CHANNEL_DEPTH,
+    bumpTreeRevision,
+    deleteChannel,
+    getChannelDepth,
+    loadChannelTree,
+    parseChannelInfo,
+    planChannelMove,
+    toChannelAudio,
+    toChannelDto,
+} from "../services/channel-tree.service.js";
+import type { ChannelRow } from "../services/channel-tree.service.js";
+import { validateChannelAudio } from "../services/mediasoup.service.js";
 import { requirePermission } from "../middleware/permissions.middleware.js";
 
 type TypedIO = SocketIOServer<
@@ -32,35 +51,56 @@ type TypedSocket = Socket<
     SocketData
 >;
 
+type ChannelChange =
+    | { success: true; channelIds: string[] }
+    | { success: false; error: string };
+
+type TreeChangeResult =
+    | { success: true; revision: number; channels: ChannelRow[] }
+    | { success: false; error: string };
+
+/** Thrown inside a tree change to roll it back, revision bump included. */
+class TreeChangeRejected extends Error { }
+
 /**
- * Helper: rebuild the channel tree from DB and broadcast to all server members.
+ * Runs a tree change in one transaction behind the server's revision bump
+ * (which also keeps other tree changes out until it commits) and reads
+ * back the channels it touched.
  */
-async function broadcastTreeUpdate(
+async function changeTree(
     app: FastifyInstance,
-    io: TypedIO,
     serverId: string,
-): Promise<void> {
-    const channels = await app.prisma.channel.findMany({
-        where: { serverId },
-        orderBy: { position: "asc" },
-    });
+    change: (tx: Prisma.TransactionClient) => Promise<ChannelChange>,
+): Promise<TreeChangeResult> {
+    try {
+        return await app.prisma.$transaction(async (tx) => {
+            const revision = await bumpTreeRevision(tx, serverId);
+            const result = await change(tx);
+            if (!result.success) throw new TreeChangeRejected(result.error);
 
-    const tree = buildChannelTree(
-        channels.map((ch) => ({
-            id: ch.id,
-            serverId: ch.serverId,
-            name: ch.name,
-            type: ch.type as ChannelType,
-            parentId: ch.parentId,
-            position: ch.position,
-            maxUsers: ch.maxUsers,
-            createdAt: ch.createdAt.toISOString(),
-        })),
-    );
-
-    io.to(`server:${serverId}`).emit("CHANNEL_TREE_UPDATE", {
+            const channels = await tx.channel.findMany({
+                where: { id: { in: result.channelIds } },
+                orderBy: { position: "asc" },
+            });
+            return { success: true, revision, channels } as const;
+        });
+    } catch (err) {
+        if (err instanceof TreeChangeRejected) return { success: false, error: err.message };
+        throw err;
+    }
+}
+
+/** Sends a CHANNEL_UPDATED patch to all server members. */
+function broadcastChannelsUpdated(
+    io: TypedIO,
+    serverId: string,
+    revision: number,
+    channels: ChannelRow[],
+): void {
+    io.to(`server:${serverId}`).emit("CHANNEL_UPDATED", {
         serverId,
-        tree,
+        revision,
+        channels: channels.map(toChannelDto),
     });
 }
 
@@ -77,9 +117,9 @@ export function registerChannelHandlers(
             try {
                 const { serverId, name, type, parentId } = payload;
 
-                // Permission check: CREATE_CHANNEL
+                // Permission check: CREATE_CHANNEL (in the parent, if nested)
                 const allowed = await requirePermission(
-                    app, socket, BigInt(PermissionFlags.CREATE_CHANNEL),
+                    app, socket, BigInt(PermissionFlags.CREATE_CHANNEL), parentId ?? undefined,
                 );
                 if (!allowed) {
                     ack({ success: false, error: "Permission denied" });
@@ -90,21 +130,54 @@ export function registerChannelHandlers(
                     ack({ success: false, error: "Channel name is required" });
                     return;
                 }
+                if (!Object.values(ChannelType).includes(type as ChannelType)) {
+                    ack({ success: false, error: "Invalid channel type" });
+                    return;
+                }
 
-                const channel = await app.prisma.channel.create({
-                    data: {
-                        serverId,
-                        name: name.trim(),
-                        type: type as any,
-                        parentId: parentId ?? null,
-                        position: await getNextPosition(app, serverId, parentId ?? null),
-                    },
+                if (parentId) {
+                    const channels = await app.prisma.channel.findMany({
+                        where: { serverId },
+                        select: { id: true, parentId: true, position: true },
+                    });
+                    if (!channels.some((c) => c.id === parentId)) {
+                        ack({ success: false, error: "Parent channel not found" });
+                        return;
+                    }
+                    if (getChannelDepth(channels, parentId) >= MAX_CHANNEL_DEPTH) {
+                        ack({
+                            success: false,
+                            error: `Channels can only be nested ${MAX_CHANNEL_DEPTH} levels deep`,
+                        });
+                        return;
+                    }
+                }
+
+                const result = await changeTree(app, serverId, async (tx) => {
+                    const created = await tx.channel.create({
+                        data: {
+                            serverId,
+                            name: name.trim(),
+                            type,
+                            parentId: parentId ?? null,
+                            position: await getNextPosition(tx, serverId, parentId ?? null),
+                        },
+                    });
+                    return { success: true, channelIds: [created.id] };
                 });
+                if (!result.success) {
+                    ack(result);
+                    return;
+                }
+                const channel = result.channels[0];
 
                 ack({ success: true, channelId: channel.id });
 
-                // Broadcast the updated tree to all server members
-                await broadcastTreeUpdate(app, io, serverId);
+                io.to(`server:${serverId}`).emit("CHANNEL_ADDED", {
+                    serverId,
+                    revision: result.revision,
+                    channel: toChannelDto(channel),
+                });
 
                 app.log.info(
                     { socketId: socket.id, channelId: channel.id, name: channel.name },
@@ -123,7 +196,7 @@ export function registerChannelHandlers(
 
                 // Permission check: MANAGE_CHANNELS
                 const allowed = await requirePermission(
-                    app, socket, BigInt(PermissionFlags.MANAGE_CHANNELS),
+                    app, socket, BigInt(PermissionFlags.MANAGE_CHANNELS), channelId,
                 );
                 if (!allowed) {
                     ack({ success: false, error: "Permission denied" });
@@ -139,22 +212,21 @@ export function registerChannelHandlers(
                     return;
                 }
 
-                // Cascade: Prisma schema has onDelete: Cascade for messages,
-                // and onDelete: SetNull for children
-                await app.prisma.channel.delete({
-                    where: { id: channelId },
-                });
+                // Removal, then the renumbering it causes (siblings closing
+                // the gap, children moving to the root) one revision later
+                const { serverId } = channel;
+                const { revision, renumbered } = await deleteChannel(app.prisma, serverId, channelId);
 
                 ack({ success: true });
 
-                // Broadcast updated tree
-                await broadcastTreeUpdate(app, io, channel.serverId);
-
-                // Notify about deletion
-                io.to(`server:${channel.serverId}`).emit("CHANNEL_DELETED", {
-                    serverId: channel.serverId,
+                io.to(`server:${serverId}`).emit("CHANNEL_REMOVED", {
+                    serverId,
+                    revision,
                     channelId,
                 });
+                if (renumbered) {
+                    broadcastChannelsUpdated(io, serverId, renumbered.revision, renumbered.channels);
+                }
 
                 app.log.info(
                     { socketId: socket.id, channelId, name: channel.name },
@@ -169,11 +241,13 @@ export function registerChannelHandlers(
         // ── UPDATE_CHANNEL ──────────────────────────────────────────────────
         socket.on("UPDATE_CHANNEL", async (payload, ack) => {
             try {
-                const { channelId, name, position } = payload;
+                const {
+                    channelId, name, position, topic, description, joinMessage, maxUsers, audio,
+                } = payload;
 
                 // Permission check: MANAGE_CHANNELS
                 const allowed = await requirePermission(
-                    app, socket, BigInt(PermissionFlags.MANAGE_CHANNELS),
+                    app, socket, BigInt(PermissionFlags.MANAGE_CHANNELS), channelId,
                 );
                 if (!allowed) {
                     ack({ success: false, error: "Permission denied" });
@@ -182,24 +256,77 @@ export function registerChannelHandlers(
 
                 const data: Record<string, unknown> = {};
                 if (name !== undefined) data.name = name.trim();
-                if (position !== undefined) data.position = position;
+                const info = parseChannelInfo({ topic, description, joinMessage, maxUsers });
+                if (!info.success) {
+                    ack(info);
+                    return;
+                }
+                Object.assign(data, info.data);
+                if (audio) {
+                    const invalid = validateChannelAudio(audio);
+                    if (invalid) {
+                        ack({ success: false, error: invalid });
+                        return;
+                    }
+                    if (audio.maxBitrate !== undefined) data.audioBitrate = audio.maxBitrate;
+                    if (audio.stereo !== undefined) data.audioStereo = audio.stereo;
+                    if (audio.ptime !== undefined) data.audioPtime = audio.ptime;
+                    if (audio.fec !== undefined) data.audioFec = audio.fec;
+                    if (audio.dtx !== undefined) data.audioDtx = audio.dtx;
+                }
 
-                if (Object.keys(data).length === 0) {
+                if (Object.keys(data).length === 0 && position === undefined) {
                     ack({ success: false, error: "No changes provided" });
                     return;
                 }
 
-                const channel = await app.prisma.channel.update({
-                    where: { id: channelId },
-                    data,
+                const { serverId } = socket.data;
+                const result = await changeTree(app, serverId, async (tx) => {
+                    const current = await tx.channel.findUnique({
+                        where: { id: channelId },
+                    });
+                    if (!current || current.serverId !== serverId) {
+                        return { success: false, error: "Channel not found" };
+                    }
+
+                    const channelIds = [channelId];
+                    // Reordering among the current siblings is a move to the same parent
+                    if (position !== undefined) {
+                        const moved = await moveChannel(
+                            tx, serverId, channelId, current.parentId, position,
+                        );
+                        if (!moved.success) return moved;
+                        channelIds.push(...moved.channelIds);
+                    }
+
+                    if (Object.keys(data).length > 0) {
+                        await tx.channel.update({
+                            where: { id: channelId },
+                            data,
+                        });
+                    }
+                    return { success: true, channelIds };
                 });
+                if (!result.success) {
+                    ack(result);
+                    return;
+                }
 
                 ack({ success: true });
 
-                await broadcastTreeUpdate(app, io, channel.serverId);
+                broadcastChannelsUpdated(io, serverId, result.revision, result.channels);
+
+                // Voice clients in the channel produce again with the new settings
+                const channel = result.channels.find((c) => c.id === channelId);
+                if (audio && channel) {
+                    io.to(`channel:${channelId}`).emit("CHANNEL_AUDIO_UPDATED", {
+                        channelId,
+                        audio: toChannelAudio(channel),
+                    });
+                }
 
                 app.log.info(
-                    { socketId: socket.id, channelId, changes: data },
+                    { socketId: socket.id, channelId, changes: data, position },
                     "Channel updated",
                 );
             } catch (err) {
@@ -207,18 +334,102 @@ export function registerChannelHandlers(
                 ack({ success: false, error: "Failed to update channel" });
             }
         });
+
+        // ── CHANNEL_MOVED ───────────────────────────────────────────────────
+        socket.on("CHANNEL_MOVED", async (payload, ack) => {
+            try {
+                const { channelId, newParentId, newPosition } = payload;
+
+                // Permission check: MANAGE_CHANNELS in the channel and its new parent
+                const allowed = await requirePermission(
+                    app, socket, BigInt(PermissionFlags.MANAGE_CHANNELS), channelId,
+                ) && (newParentId === null || await requirePermission(
+                    app, socket, BigInt(PermissionFlags.MANAGE_CHANNELS), newParentId,
+                ));
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                const { serverId } = socket.data;
+                const result = await changeTree(app, serverId, (tx) =>
+                    moveChannel(tx, serverId, channelId, newParentId, newPosition),
+                );
+                if (!result.success) {
+                    ack(result);
+                    return;
+                }
+
+                ack({ success: true });
+
+                broadcastChannelsUpdated(io, serverId, result.revision, result.channels);
+
+                app.log.info(
+                    { socketId: socket.id, channelId, newParentId, newPosition },
+                    "Channel moved",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in CHANNEL_MOVED");
+                ack({ success: false, error: "Failed to move channel" });
+            }
+        });
+
+        // ── GET_CHANNEL_TREE ────────────────────────────────────────────────
+        socket.on("GET_CHANNEL_TREE", async (_payload, ack) => {
+            try {
+                const { serverId } = socket.data;
+                if (!serverId) {
+                    ack({ success: false, error: "Not joined to a server" });
+                    return;
+                }
+
+                const { tree, revision } = await loadChannelTree(app.prisma, io, serverId);
+                ack({ success: true, tree, revision });
+            } catch (err) {
+                app.log.error({ err }, "Error in GET_CHANNEL_TREE");
+                ack({ success: false, error: "Failed to load channel tree" });
+            }
+        });
+    });
+}
+
+/**
+ * Moves a channel within its server's tree. Runs inside changeTree, so no
+ * other tree change can interleave between planning and writing.
+ */
+async function moveChannel(
+    tx: Prisma.TransactionClient,
+    serverId: string,
+    channelId: string,
+    newParentId: string | null,
+    newPosition: number,
+): Promise<ChannelChange> {
+    const channels = await tx.channel.findMany({
+        where: { serverId },
+        select: { id: true, parentId: true, position: true },
     });
+
+    const plan = planChannelMove(channels, channelId, newParentId, newPosition);
+    if (!plan.success) return plan;
+
+    for (const update of plan.updates) {
+        await tx.channel.update({
+            where: { id: update.id },
+            data: { parentId: update.parentId, position: update.position },
+        });
+    }
+    return { success: true, channelIds: plan.updates.map((u) => u.id) };
 }
 
 /**
  * Gets the next position value for a new channel at the given parent level.
  */
 async function getNextPosition(
-    app: FastifyInstance,
+    tx: Prisma.TransactionClient,
     serverId: string,
     parentId: string | null,
 ): Promise<number> {
-    const max = await app.prisma.channel.aggregate({
+    const max = await tx.channel.aggregate({
         where: { serverId, parentId },
         _max: { position: true },
     });
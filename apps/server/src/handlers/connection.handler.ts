@@ -2,7 +2,8 @@
  * Connection Handler — Socket.io event routing for Reson8.
  *
  * Handles: USER_JOIN_SERVER, USER_LEAVE_SERVER,
- *          USER_JOIN_CHANNEL, USER_LEAVE_CHANNEL, disconnect.
+ *          USER_JOIN_CHANNEL, USER_LEAVE_CHANNEL,
+ *          SET_VOICE_STATE, SET_AWAY, disconnect.
  */
 
 import type { Server as SocketIOServer, Socket } from "socket.io";
@@ -12,10 +13,13 @@ import type {
     ServerToClientEvents,
     InterServerEvents,
     SocketData,
-    IUserPresence,
 } from "@reson8/shared-types";
 import { PresenceService } from "../services/presence.service.js";
-import { buildChannelTree } from "../services/channel-tree.service.js";
+import { VoiceChannelService } from "../services/voice-channel.service.js";
+import { loadChannelTree } from "../services/channel-tree.service.js";
+import { GUEST_PASSWORD, GUEST_USERNAME_PREFIX } from "../services/auth.service.js";
+import { userRoom } from "../services/direct-message.service.js";
+import { checkServerJoin } from "../services/moderation.service.js";
 import type { MediasoupService } from "../services/mediasoup.service.js";
 
 type TypedIO = SocketIOServer<
@@ -41,6 +45,7 @@ export function registerConnectionHandlers(
     mediasoup: MediasoupService,
 ): void {
     const presence = new PresenceService(app.redis);
+    const channels = new VoiceChannelService(io, app, mediasoup);
 
     io.on("connection", (socket: TypedSocket) => {
         app.log.info({ socketId: socket.id }, "Client connected");
@@ -48,35 +53,65 @@ export function registerConnectionHandlers(
         // ── USER_JOIN_SERVER ────────────────────────────────────────────────
         socket.on("USER_JOIN_SERVER", async (payload, ack) => {
             try {
-                const { nickname, instanceId } = payload;
+                // Identity was established by the auth middleware during the handshake
+                const { userId, isGuest } = socket.data;
+                const nickname = payload.nickname?.trim() || socket.data.nickname;
                 // Use provided serverId or fall back to the bootstrapped one
                 const serverId = payload.serverId || app.serverId;
 
-                // Use the persistent instance ID as userId
+                // Refuse unknown servers and banned users before touching any state
+                const join = await checkServerJoin(app.prisma, userId, serverId);
+                if (!join.success) {
+                    ack({ success: false, error: join.error });
+                    app.log.info({ socketId: socket.id, userId, serverId }, "Server join refused");
+                    return;
+                }
+
+                // Enforce the server-wide client cap (reconnecting users don't count twice)
+                const online = await io.in(`server:${serverId}`).fetchSockets();
+                const others = new Set(
+                    online.map((s) => s.data.userId).filter((id) => id && id !== userId),
+                );
+                if (others.size >= join.server.maxClients) {
+                    ack({ success: false, code: "SERVER_FULL", error: "Server is full" });
+                    app.log.info({ socketId: socket.id, userId, serverId }, "Server full, join refused");
+                    return;
+                }
+
                 socket.data.serverId = serverId;
                 socket.data.nickname = nickname;
-                socket.data.userId = instanceId;
                 socket.data.currentChannelId = null;
-
-                // Auto-create (upsert) User record for this instance
-                await app.prisma.user.upsert({
-                    where: { id: instanceId },
-                    update: { nickname },
-                    create: {
-                        id: instanceId,
-                        username: instanceId,
-                        nickname,
-                        password: "instance-auth", // no real auth — instance-based
-                    },
-                });
+                socket.data.isMuted = false;
+                socket.data.isDeafened = false;
+                socket.data.isAway = false;
+                Object.assign(socket.data, await presence.getVoiceRestrictions(serverId, userId));
+
+                // Guests get an auto-created (upserted) User record keyed by instance ID;
+                // account users already exist and only have their nickname refreshed.
+                const user = isGuest
+                    ? await app.prisma.user.upsert({
+                        where: { id: userId },
+                        update: { nickname },
+                        create: {
+                            id: userId,
+                            username: `${GUEST_USERNAME_PREFIX}${userId}`,
+                            nickname,
+                            password: GUEST_PASSWORD,
+                        },
+                    })
+                    : await app.prisma.user.update({
+                        where: { id: userId },
+                        data: { nickname },
+                    });
 
                 // Assign the default Member role
                 const rolesToAssign = ["role-default"];
 
-                // Check if this instance is the designated server admin
+                // Check if this account is the designated server admin (never a guest)
                 if (
-                    process.env.ADMIN_INSTANCE_ID &&
-                    instanceId === process.env.ADMIN_INSTANCE_ID
+                    !isGuest &&
+                    process.env.ADMIN_USERNAME &&
+                    user.username === process.env.ADMIN_USERNAME
                 ) {
                     rolesToAssign.push("role-admin");
                 }
@@ -85,65 +120,40 @@ export function registerConnectionHandlers(
                     await app.prisma.userRole.upsert({
                         where: {
                             userId_roleId: {
-                                userId: instanceId,
+                                userId,
                                 roleId: roleId,
                             },
                         },
                         update: {},
                         create: {
-                            userId: instanceId,
+                            userId,
                             roleId: roleId,
                         },
                     });
                 }
 
-                // Join the Socket.io room for this server
+                // Join the Socket.io room for this server, and the user's own
+                // room for direct messages
                 await socket.join(`server:${serverId}`);
+                await socket.join(userRoom(userId));
 
                 // Register presence in Redis
-                await presence.joinServer(instanceId, serverId, nickname);
+                await presence.joinServer(userId, serverId, nickname);
 
                 // Notify all other clients in the server
                 socket.to(`server:${serverId}`).emit("USER_JOINED", {
-                    userId: instanceId,
+                    userId,
                     nickname,
                     serverId,
                 });
 
                 // Send the full channel tree to the newly connected client
-                const channels = await app.prisma.channel.findMany({
-                    where: { serverId },
-                    orderBy: { position: "asc" },
-                });
+                const { tree, revision } = await loadChannelTree(app.prisma, io, serverId);
+                socket.emit("CHANNEL_TREE_UPDATE", { serverId, tree, revision });
 
-                // Map Prisma rows to IChannel DTOs
-                const channelDtos = channels.map((ch: {
-                    id: string;
-                    serverId: string;
-                    name: string;
-                    type: string;
-                    parentId: string | null;
-                    position: number;
-                    maxUsers: number | null;
-                    createdAt: Date;
-                }) => ({
-                    id: ch.id,
-                    serverId: ch.serverId,
-                    name: ch.name,
-                    type: ch.type as import("@reson8/shared-types").ChannelType,
-                    parentId: ch.parentId,
-                    position: ch.position,
-                    maxUsers: ch.maxUsers,
-                    createdAt: ch.createdAt.toISOString(),
-                }));
-
-                const tree = buildChannelTree(channelDtos);
-
-                socket.emit("CHANNEL_TREE_UPDATE", { serverId, tree });
-
-                ack({ success: true, serverId });
+                ack({ success: true, serverId, userId, nickname });
                 app.log.info(
-                    { socketId: socket.id, nickname, serverId, instanceId },
+                    { socketId: socket.id, nickname, serverId, userId, isGuest },
                     "User joined server",
                 );
             } catch (err) {
@@ -159,6 +169,7 @@ export function registerConnectionHandlers(
 
                 await presence.leaveServer(socket.data.userId, serverId);
                 await socket.leave(`server:${serverId}`);
+                await socket.leave(userRoom(socket.data.userId));
 
                 socket.to(`server:${serverId}`).emit("USER_LEFT", {
                     userId: socket.data.userId,
@@ -181,85 +192,16 @@ export function registerConnectionHandlers(
                 socket.data.joiningChannel = true;
 
                 const { channelId } = payload;
-                const userId = socket.data.userId;
-                const previousChannelId = socket.data.currentChannelId;
-
-                // ── 1. Move socket rooms ─────────────────────────────────────
-                // Leave old room first, then join new — Socket.io room membership
-                // becomes the single source of truth for who is in which channel.
-                if (previousChannelId && previousChannelId !== channelId) {
-                    await socket.leave(`channel:${previousChannelId}`);
-
-                    // Notify peers in old channel that producer is gone
-                    const producerId = mediasoup.getSession(previousChannelId, userId)?.producer?.id;
-                    if (producerId) {
-                        socket.to(`channel:${previousChannelId}`).emit("PRODUCER_CLOSED", {
-                            userId,
-                            producerId,
-                        });
-                    }
-                    mediasoup.cleanupUserSession(previousChannelId, userId);
-                }
-
-                socket.data.currentChannelId = channelId;
-                await socket.join(`channel:${channelId}`);
-
-                // ── 2. Broadcast PRESENCE_UPDATE for old channel ─────────────
-                // Build occupant list directly from Socket.io room — no Redis
-                if (previousChannelId && previousChannelId !== channelId) {
-                    const prevSockets = await io.in(`channel:${previousChannelId}`).fetchSockets();
-                    const prevOccupants: IUserPresence[] = prevSockets.map((s) => ({
-                        userId: s.data.userId ?? "",
-                        nickname: s.data.nickname ?? "Unknown",
-                        isMuted: false,
-                        isDeafened: false,
-                        isAway: false,
-                    }));
-                    io.to(`server:${socket.data.serverId}`).emit("PRESENCE_UPDATE", {
-                        channelId: previousChannelId,
-                        occupants: prevOccupants,
-                    });
+                const result = await channels.joinChannel(socket, channelId);
+                if (!result.success) {
+                    ack(result);
+                    return;
                 }
 
-                // ── 3. Broadcast PRESENCE_UPDATE for new channel ─────────────
-                const newSockets = await io.in(`channel:${channelId}`).fetchSockets();
-                const occupants: IUserPresence[] = newSockets.map((s) => ({
-                    userId: s.data.userId ?? "",
-                    nickname: s.data.nickname ?? "Unknown",
-                    isMuted: false,
-                    isDeafened: false,
-                    isAway: false,
-                }));
-                io.to(`server:${socket.data.serverId}`).emit("PRESENCE_UPDATE", {
-                    channelId,
-                    occupants,
-                });
-
-                // Also update Redis presence (for server-level tracking)
-                await presence.joinChannel(userId, channelId);
-
-                ack({ success: true });
+                ack({ success: true, canSpeak: result.canSpeak });
 
                 // Notify joining user of existing voice producers in this channel
-                const existingProducers = mediasoup.getExistingProducers(
-                    channelId,
-                    userId,
-                );
-                if (existingProducers.length > 0) {
-                    // Look up nicknames for each producer
-                    const producersWithNicknames = existingProducers.map((p) => {
-                        const userSession = mediasoup.getSession(channelId, p.userId);
-                        return {
-                            userId: p.userId,
-                            nickname: p.userId, // fallback — userId is instanceId
-                            producerId: p.producerId,
-                        };
-                    });
-                    socket.emit("EXISTING_PRODUCERS", {
-                        channelId,
-                        producers: producersWithNicknames,
-                    });
-                }
+                channels.sendExistingProducers(socket, channelId);
 
                 app.log.info(
                     { socketId: socket.id, channelId },
@@ -293,21 +235,12 @@ export function registerConnectionHandlers(
                 mediasoup.cleanupUserSession(channelId, userId);
 
                 socket.data.currentChannelId = null;
+                socket.data.isMuted = false;
+                socket.data.isDeafened = false;
+                await presence.setFlags(userId, { isMuted: false, isDeafened: false });
 
                 // Broadcast updated occupants using Socket.io room (ground truth)
-                const remainingSockets = await io.in(`channel:${channelId}`).fetchSockets();
-                const occupants: IUserPresence[] = remainingSockets.map((s) => ({
-                    userId: s.data.userId ?? "",
-                    nickname: s.data.nickname ?? "Unknown",
-                    isMuted: false,
-                    isDeafened: false,
-                    isAway: false,
-                }));
-
-                io.to(`server:${socket.data.serverId}`).emit("PRESENCE_UPDATE", {
-                    channelId,
-                    occupants,
-                });
+                await channels.broadcastChannelPresence(socket.data.serverId, channelId);
 
                 app.log.info({ socketId: socket.id, channelId }, "User left channel");
             } catch (err) {
@@ -315,6 +248,54 @@ export function registerConnectionHandlers(
             }
         });
 
+        // ── SET_VOICE_STATE ─────────────────────────────────────────────────
+        socket.on("SET_VOICE_STATE", async (payload, ack) => {
+            try {
+                const { serverId, currentChannelId, userId } = socket.data;
+                if (!serverId) {
+                    ack({ success: false, error: "Not joined to a server" });
+                    return;
+                }
+
+                socket.data.isMuted = payload.isMuted === true;
+                socket.data.isDeafened = payload.isDeafened === true;
+                await presence.setFlags(userId, {
+                    isMuted: socket.data.isMuted,
+                    isDeafened: socket.data.isDeafened,
+                });
+
+                if (currentChannelId) {
+                    await channels.broadcastChannelPresence(serverId, currentChannelId);
+                }
+                ack({ success: true });
+            } catch (err) {
+                app.log.error({ err }, "Error in SET_VOICE_STATE");
+                ack({ success: false, error: "Failed to update voice state" });
+            }
+        });
+
+        // ── SET_AWAY ────────────────────────────────────────────────────────
+        socket.on("SET_AWAY", async (payload, ack) => {
+            try {
+                const { serverId, currentChannelId, userId } = socket.data;
+                if (!serverId) {
+                    ack({ success: false, error: "Not joined to a server" });
+                    return;
+                }
+
+                socket.data.isAway = payload.isAway === true;
+                await presence.setFlags(userId, { isAway: socket.data.isAway });
+
+                if (currentChannelId) {
+                    await channels.broadcastChannelPresence(serverId, currentChannelId);
+                }
+                ack({ success: true });
+            } catch (err) {
+                app.log.error({ err }, "Error in SET_AWAY");
+                ack({ success: false, error: "Failed to update away state" });
+            }
+        });
+
         // ── DISCONNECT ──────────────────────────────────────────────────────
         socket.on("disconnect", async (reason) => {
             try {
@@ -336,25 +317,8 @@ export function registerConnectionHandlers(
                         await presence.leaveChannel(userId, currentChannelId);
 
                         // Broadcast updated occupants for the channel they were in
-                        const occupantIds =
-                            await presence.getChannelOccupants(currentChannelId);
-                        const occupants: IUserPresence[] = await Promise.all(
-                            occupantIds.map(async (uid) => {
-                                const p = await presence.getUserPresence(uid);
-                                return {
-                                    userId: uid,
-                                    nickname: p?.nickname ?? "Unknown",
-                                    isMuted: false,
-                                    isDeafened: false,
-                                    isAway: false,
-                                };
-                            }),
-                        );
-
-                        io.to(`server:${serverId}`).emit("PRESENCE_UPDATE", {
-                            channelId: currentChannelId,
-                            occupants,
-                        });
+                        // (the socket has already left its rooms at this point)
+                        await channels.broadcastChannelPresence(serverId, currentChannelId);
                     }
 
                     // Clean up server presence
@@ -0,0 +1,295 @@
+/**
+ * Direct Message Handler — Socket.io events for private conversations.
+ *
+ * Handles: GET_CONVERSATIONS, SEND_DIRECT_MESSAGE, FETCH_DIRECT_MESSAGES,
+ *          BLOCK_USER, UNBLOCK_USER, GET_BLOCKED_USERS.
+ * Conversations are one-to-one or small groups, independent of channels
+ * and their permissions. Only members can read or post in a conversation;
+ * new messages are pushed to every member's user room as
+ * DIRECT_MESSAGE_RECEIVED.
+ *
+ * Sending is refused (code `BLOCKED`) when the sender and any other member
+ * have blocked each other in either direction.
+ */
+
+import type { Server as SocketIOServer, Socket } from "socket.io";
+import type { FastifyInstance } from "fastify";
+import type {
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData,
+} from "@reson8/shared-types";
+import {
+    CONVERSATION_INCLUDE,
+    isBlockedBetween,
+    normalizeRecipients,
+    toConversationDto,
+    toDirectMessageDto,
+    userRoom,
+} from "../services/direct-message.service.js";
+
+type TypedIO = SocketIOServer<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+type TypedSocket = Socket<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+/**
+ * Registers direct-message handlers on each socket connection.
+ */
+export function registerDirectMessageHandlers(
+    io: TypedIO,
+    app: FastifyInstance,
+): void {
+    /**
+     * Finds the conversation whose members are exactly `memberIds`, or
+     * creates it.
+     */
+    async function findOrCreateConversation(memberIds: string[]) {
+        const existing = await app.prisma.conversation.findFirst({
+            where: {
+                AND: memberIds.map((userId) => ({ members: { some: { userId } } })),
+                members: { every: { userId: { in: memberIds } } },
+            },
+            include: CONVERSATION_INCLUDE,
+        });
+        if (existing) return existing;
+
+        return app.prisma.conversation.create({
+            data: {
+                members: { create: memberIds.map((userId) => ({ userId })) },
+            },
+            include: CONVERSATION_INCLUDE,
+        });
+    }
+
+    io.on("connection", (socket: TypedSocket) => {
+        // ── GET_CONVERSATIONS ──────────────────────────────────────────────
+        socket.on("GET_CONVERSATIONS", async (_payload, ack) => {
+            try {
+                if (!socket.data.serverId) {
+                    ack({ success: false, error: "Not joined to a server" });
+                    return;
+                }
+
+                const conversations = await app.prisma.conversation.findMany({
+                    where: { members: { some: { userId: socket.data.userId } } },
+                    orderBy: { lastActivityAt: "desc" },
+                    include: CONVERSATION_INCLUDE,
+                });
+
+                ack({ success: true, conversations: conversations.map(toConversationDto) });
+            } catch (err) {
+                app.log.error({ err }, "Error in GET_CONVERSATIONS");
+                ack({ success: false, error: "Failed to fetch conversations" });
+            }
+        });
+
+        // ── SEND_DIRECT_MESSAGE ────────────────────────────────────────────
+        socket.on("SEND_DIRECT_MESSAGE", async (payload, ack) => {
+            try {
+                const userId = socket.data.userId;
+                const content = payload.content?.trim();
+
+                if (!socket.data.serverId) {
+                    ack({ success: false, error: "Not joined to a server" });
+                    return;
+                }
+                if (!content) {
+                    ack({ success: false, error: "Message cannot be empty" });
+                    return;
+                }
+
+                // Resolve the conversation: an existing one the sender belongs
+                // to, or the one matching the recipient set
+                let conversation;
+                if (payload.conversationId) {
+                    conversation = await app.prisma.conversation.findFirst({
+                        where: {
+                            id: payload.conversationId,
+                            members: { some: { userId } },
+                        },
+                        include: CONVERSATION_INCLUDE,
+                    });
+                    if (!conversation) {
+                        ack({ success: false, error: "Conversation not found" });
+                        return;
+                    }
+
+                    const otherIds = conversation.members
+                        .map((m) => m.userId)
+                        .filter((id) => id !== userId);
+                    if (await isBlockedBetween(app.prisma, userId, otherIds)) {
+                        ack({ success: false, error: "You can't message this user", code: "BLOCKED" });
+                        return;
+                    }
+                } else {
+                    const recipients = normalizeRecipients(userId, payload.recipientIds);
+                    if (typeof recipients === "string") {
+                        ack({ success: false, error: recipients });
+                        return;
+                    }
+
+                    const found = await app.prisma.user.count({
+                        where: { id: { in: recipients } },
+                    });
+                    if (found !== recipients.length) {
+                        ack({ success: false, error: "User not found" });
+                        return;
+                    }
+
+                    // Checked before creating, so a refused message leaves no empty conversation
+                    if (await isBlockedBetween(app.prisma, userId, recipients)) {
+                        ack({ success: false, error: "You can't message this user", code: "BLOCKED" });
+                        return;
+                    }
+
+                    conversation = await findOrCreateConversation([userId, ...recipients]);
+                }
+
+                const [message, updated] = await app.prisma.$transaction([
+                    app.prisma.directMessage.create({
+                        data: { conversationId: conversation.id, userId, content },
+                        include: { user: { select: { nickname: true } } },
+                    }),
+                    app.prisma.conversation.update({
+                        where: { id: conversation.id },
+                        data: { lastActivityAt: new Date() },
+                        include: CONVERSATION_INCLUDE,
+                    }),
+                ]);
+
+                const conversationDto = toConversationDto(updated);
+                const messageDto = toDirectMessageDto(message, message.user.nickname);
+
+                io.to(conversation.members.map((m) => userRoom(m.userId))).emit(
+                    "DIRECT_MESSAGE_RECEIVED",
+                    { conversation: conversationDto, message: messageDto },
+                );
+
+                ack({ success: true, conversation: conversationDto, message: messageDto });
+            } catch (err) {
+                app.log.error({ err }, "Error in SEND_DIRECT_MESSAGE");
+                ack({ success: false, error: "Failed to send message" });
+            }
+        });
+
+        // ── FETCH_DIRECT_MESSAGES ──────────────────────────────────────────
+        socket.on("FETCH_DIRECT_MESSAGES", async (payload, ack) => {
+            try {
+                const { conversationId, before, limit = 50 } = payload;
+                const take = Math.min(limit, 100); // cap at 100
+
+                const membership = await app.prisma.conversationMember.findUnique({
+                    where: {
+                        conversationId_userId: { conversationId, userId: socket.data.userId },
+                    },
+                });
+                if (!membership) {
+                    ack({ success: false, error: "Conversation not found" });
+                    return;
+                }
+
+                const messages = await app.prisma.directMessage.findMany({
+                    where: {
+                        conversationId,
+                        ...(before ? { createdAt: { lt: new Date(before) } } : {}),
+                    },
+                    orderBy: { createdAt: "desc" },
+                    take,
+                    include: { user: { select: { nickname: true } } },
+                });
+
+                ack({
+                    success: true,
+                    messages: messages
+                        .reverse()
+                        .map((m) => toDirectMessageDto(m, m.user.nickname)),
+                });
+            } catch (err) {
+                app.log.error({ err }, "Error in FETCH_DIRECT_MESSAGES");
+                ack({ success: false, error: "Failed to fetch messages" });
+            }
+        });
+
+        // ── BLOCK_USER ─────────────────────────────────────────────────────
+        socket.on("BLOCK_USER", async (payload, ack) => {
+            try {
+                const blockerId = socket.data.userId;
+                const blockedId = payload.userId;
+
+                if (blockedId === blockerId) {
+                    ack({ success: false, error: "You can't block yourself" });
+                    return;
+                }
+
+                const target = await app.prisma.user.findUnique({ where: { id: blockedId } });
+                if (!target) {
+                    ack({ success: false, error: "User not found" });
+                    return;
+                }
+
+                await app.prisma.userBlock.upsert({
+                    where: { blockerId_blockedId: { blockerId, blockedId } },
+                    update: {},
+                    create: { blockerId, blockedId },
+                });
+
+                app.log.info({ blockerId, blockedId }, "User blocked");
+                ack({ success: true });
+            } catch (err) {
+                app.log.error({ err }, "Error in BLOCK_USER");
+                ack({ success: false, error: "Failed to block user" });
+            }
+        });
+
+        // ── UNBLOCK_USER ───────────────────────────────────────────────────
+        socket.on("UNBLOCK_USER", async (payload, ack) => {
+            try {
+                await app.prisma.userBlock.deleteMany({
+                    where: { blockerId: socket.data.userId, blockedId: payload.userId },
+                });
+
+                app.log.info(
+                    { blockerId: socket.data.userId, blockedId: payload.userId },
+                    "User unblocked",
+                );
+                ack({ success: true });
+            } catch (err) {
+                app.log.error({ err }, "Error in UNBLOCK_USER");
+                ack({ success: false, error: "Failed to unblock user" });
+            }
+        });
+
+        // ── GET_BLOCKED_USERS ──────────────────────────────────────────────
+        socket.on("GET_BLOCKED_USERS", async (_payload, ack) => {
+            try {
+                const blocks = await app.prisma.userBlock.findMany({
+                    where: { blockerId: socket.data.userId },
+                    include: { blocked: { select: { nickname: true } } },
+                    orderBy: { createdAt: "asc" },
+                });
+
+                ack({
+                    success: true,
+                    users: blocks.map((b) => ({
+                        userId: b.blockedId,
+                        nickname: b.blocked.nickname,
+                    })),
+                });
+            } catch (err) {
+                app.log.error({ err }, "Error in GET_BLOCKED_USERS");
+                ack({ success: false, error: "Failed to fetch blocked users" });
+            }
+        });
+    });
+}
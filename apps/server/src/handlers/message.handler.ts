@@ -1,9 +1,25 @@
 /**
  * Message Handler — Socket.io events for text chat.
  *
- * Handles: SEND_MESSAGE, FETCH_MESSAGES.
- * Messages are persisted in PostgreSQL and broadcast in real-time
- * to all clients in the same channel room.
+ * Handles: SUBSCRIBE_CHANNEL, UNSUBSCRIBE_CHANNEL, SEND_MESSAGE, FETCH_MESSAGES,
+ *          EDIT_MESSAGE, DELETE_MESSAGE, GET_MESSAGE_HISTORY,
+ *          ADD_REACTION, REMOVE_REACTION, SEARCH_MESSAGES.
+ * Messages are persisted in PostgreSQL and delivered in real-time to the
+ * channel's subscribers; other users who can read the channel get a
+ * MESSAGE_NOTIFICATION instead. Reading a text channel (subscribing or
+ * fetching history) requires CONNECT in that channel.
+ *
+ * Only the author can edit a message; the author or a user with
+ * MANAGE_MESSAGES in the channel can delete it. Edit history and deleted
+ * content are visible to MANAGE_MESSAGES holders only.
+ *
+ * Replies and reactions require SEND_MESSAGES in the channel. Reaction
+ * changes are broadcast to subscribers as a fresh per-emoji summary.
+ * Attachments are uploaded over HTTP first (see attachment.routes.ts) and
+ * linked here; sending them also requires ATTACH_FILES.
+ *
+ * Search only covers channels where the user holds CONNECT, the same rule
+ * as reading history.
  */
 
 import type { Server as SocketIOServer, Socket } from "socket.io";
@@ -17,6 +33,22 @@ import type {
 } from "@reson8/shared-types";
 import { PermissionFlags } from "@reson8/shared-types";
 import { requirePermission } from "../middleware/permissions.middleware.js";
+import {
+    getAllChannelPermissions,
+    getChannelPermissions,
+    getChannelPermissionsForUsers,
+    hasPermission,
+} from "../services/permissions.service.js";
+import { parseHeadline, plainSnippet, searchMessages } from "../services/search.service.js";
+import { UPLOAD_MAX_FILES } from "../config/uploads.config.js";
+import {
+    MESSAGE_DTO_INCLUDE,
+    chatRoom,
+    isMentioned,
+    isValidReaction,
+    summarizeReactions,
+    toMessageDto,
+} from "../services/message.service.js";
 
 type TypedIO = SocketIOServer<
     ClientToServerEvents,
@@ -32,6 +64,16 @@ type TypedSocket = Socket<
     SocketData
 >;
 
+/** Longest accepted search query. */
+const MAX_SEARCH_QUERY_LENGTH = 200;
+
+/** Parses an optional ISO-8601 date; `undefined` if absent, `null` if invalid. */
+function parseOptionalDate(value: string | undefined): Date | undefined | null {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
 /**
  * Registers message-related handlers on each socket connection.
  */
@@ -39,13 +81,161 @@ export function registerMessageHandlers(
     io: TypedIO,
     app: FastifyInstance,
 ): void {
+    /**
+     * Sends MESSAGE_NOTIFICATION to every socket on the server that isn't
+     * subscribed to the channel but is allowed to read it.
+     */
+    async function notifyNonSubscribers(serverId: string, message: IMessage): Promise<void> {
+        const sockets = await io
+            .in(`server:${serverId}`)
+            .except(chatRoom(message.channelId))
+            .fetchSockets();
+
+        // Resolve read access for all recipients in one batch
+        const userIds = new Set<string>();
+        for (const s of sockets) {
+            if (s.data.userId && s.data.userId !== message.userId) userIds.add(s.data.userId);
+        }
+        const perms = await getChannelPermissionsForUsers(
+            app.prisma, [...userIds], serverId, message.channelId,
+        );
+
+        for (const s of sockets) {
+            const userPerms = perms.get(s.data.userId);
+            if (userPerms === undefined) continue;
+            if (!hasPermission(userPerms, BigInt(PermissionFlags.CONNECT))) continue;
+
+            s.emit("MESSAGE_NOTIFICATION", {
+                channelId: message.channelId,
+                messageId: message.id,
+                userId: message.userId,
+                nickname: message.nickname,
+                mentioned: isMentioned(message.content, s.data.nickname),
+            });
+        }
+    }
+
+    /** Returns `true` if the user holds MANAGE_MESSAGES in the channel. */
+    async function canManageMessages(
+        userId: string,
+        serverId: string,
+        channelId: string,
+    ): Promise<boolean> {
+        const perms = await getChannelPermissions(app.prisma, userId, serverId, channelId);
+        return hasPermission(perms, BigInt(PermissionFlags.MANAGE_MESSAGES));
+    }
+
+    /** Re-aggregates a message's reactions and sends them to subscribers. */
+    async function broadcastReactions(channelId: string, messageId: string): Promise<void> {
+        const reactions = await app.prisma.messageReaction.findMany({
+            where: { messageId },
+            select: { emoji: true, userId: true },
+            orderBy: { createdAt: "asc" },
+        });
+        io.to(chatRoom(channelId)).emit("REACTIONS_UPDATED", {
+            channelId,
+            messageId,
+            reactions: summarizeReactions(reactions),
+        });
+    }
+
+    /**
+     * Loads a live message and checks that the socket may react to it
+     * (SEND_MESSAGES in the message's channel). Returns the message, or an
+     * error string for the ack.
+     */
+    async function findReactableMessage(
+        socket: TypedSocket,
+        messageId: string,
+    ): Promise<{ channelId: string } | string> {
+        const message = await app.prisma.message.findUnique({
+            where: { id: messageId },
+            select: { channelId: true, deletedAt: true },
+        });
+        if (!message || message.deletedAt) {
+            return "Message not found";
+        }
+
+        const allowed = await requirePermission(
+            app,
+            socket,
+            BigInt(PermissionFlags.SEND_MESSAGES),
+            message.channelId,
+        );
+        return allowed ? { channelId: message.channelId } : "Permission denied";
+    }
+
     io.on("connection", (socket: TypedSocket) => {
+        // ── SUBSCRIBE_CHANNEL ──────────────────────────────────────────────
+        socket.on("SUBSCRIBE_CHANNEL", async (payload, ack) => {
+            try {
+                const { channelId } = payload;
+
+                const allowed = await requirePermission(
+                    app,
+                    socket,
+                    BigInt(PermissionFlags.CONNECT),
+                    channelId,
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                const channel = await app.prisma.channel.findUnique({
+                    where: { id: channelId },
+                });
+                if (!channel || channel.serverId !== socket.data.serverId) {
+                    ack({ success: false, error: "Channel not found" });
+                    return;
+                }
+                if (channel.type === "CATEGORY") {
+                    ack({ success: false, error: "Categories have no chat" });
+                    return;
+                }
+
+                await socket.join(chatRoom(channelId));
+                ack({
+                    success: true,
+                    canManageMessages: await canManageMessages(
+                        socket.data.userId, socket.data.serverId, channelId,
+                    ),
+                });
+
+                app.log.info({ socketId: socket.id, channelId }, "Subscribed to channel");
+            } catch (err) {
+                app.log.error({ err }, "Error in SUBSCRIBE_CHANNEL");
+                ack({ success: false, error: "Failed to subscribe to channel" });
+            }
+        });
+
+        // ── UNSUBSCRIBE_CHANNEL ────────────────────────────────────────────
+        socket.on("UNSUBSCRIBE_CHANNEL", async (payload) => {
+            try {
+                await socket.leave(chatRoom(payload.channelId));
+                app.log.info(
+                    { socketId: socket.id, channelId: payload.channelId },
+                    "Unsubscribed from channel",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in UNSUBSCRIBE_CHANNEL");
+            }
+        });
+
         // ── SEND_MESSAGE ───────────────────────────────────────────────────
         socket.on("SEND_MESSAGE", async (payload, ack) => {
             try {
-                const { channelId, content } = payload;
+                const { channelId, content, replyToId } = payload;
+                const attachmentIds = Array.isArray(payload.attachmentIds)
+                    ? [...new Set(payload.attachmentIds)]
+                    : [];
 
-                if (!content || content.trim().length === 0) {
+                // A message needs text, attachments, or both
+                if ((!content || content.trim().length === 0) && attachmentIds.length === 0) {
+                    ack({ success: false });
+                    return;
+                }
+                if (attachmentIds.length > UPLOAD_MAX_FILES) {
                     ack({ success: false });
                     return;
                 }
@@ -55,48 +245,85 @@ export function registerMessageHandlers(
                     app,
                     socket,
                     BigInt(PermissionFlags.SEND_MESSAGES),
+                    channelId,
                 );
                 if (!allowed) {
                     ack({ success: false });
                     return;
                 }
 
-                // Verify channel exists
+                // Verify channel exists on this server (categories have no chat)
                 const channel = await app.prisma.channel.findUnique({
                     where: { id: channelId },
                 });
-                if (!channel) {
+                if (!channel || channel.serverId !== socket.data.serverId || channel.type === "CATEGORY") {
                     ack({ success: false });
                     return;
                 }
 
+                // Replies must point at a live message in the same channel
+                if (replyToId) {
+                    const original = await app.prisma.message.findUnique({
+                        where: { id: replyToId },
+                        select: { channelId: true, deletedAt: true },
+                    });
+                    if (!original || original.deletedAt || original.channelId !== channelId) {
+                        ack({ success: false });
+                        return;
+                    }
+                }
+
+                // Attachments must be our own, unsent uploads to this channel
+                if (attachmentIds.length > 0) {
+                    const canAttach = await requirePermission(
+                        app,
+                        socket,
+                        BigInt(PermissionFlags.ATTACH_FILES),
+                        channelId,
+                    );
+                    if (!canAttach) {
+                        ack({ success: false });
+                        return;
+                    }
+
+                    const pending = await app.prisma.attachment.count({
+                        where: {
+                            id: { in: attachmentIds },
+                            channelId,
+                            uploaderId: socket.data.userId,
+                            messageId: null,
+                        },
+                    });
+                    if (pending !== attachmentIds.length) {
+                        ack({ success: false });
+                        return;
+                    }
+                }
+
                 // Persist message
                 const message = await app.prisma.message.create({
                     data: {
                         channelId,
                         userId: socket.data.userId,
-                        content: content.trim(),
+                        content: content?.trim() ?? "",
+                        replyToId: replyToId ?? null,
+                        attachments: {
+                            connect: attachmentIds.map((id) => ({ id })),
+                        },
                     },
+                    include: MESSAGE_DTO_INCLUDE,
                 });
 
-                const messageDto: IMessage = {
-                    id: message.id,
-                    channelId: message.channelId,
-                    userId: message.userId,
-                    nickname: socket.data.nickname,
-                    content: message.content,
-                    createdAt: message.createdAt.toISOString(),
-                };
-
-                // Broadcast to all clients in the server
-                // (they may have the channel's tab open)
-                io.to(`server:${socket.data.serverId}`).emit(
-                    "MESSAGE_RECEIVED",
-                    messageDto,
-                );
+                const messageDto = toMessageDto(message, socket.data.nickname);
+
+                // Deliver to subscribers (clients with the channel's tab open)
+                io.to(chatRoom(channelId)).emit("MESSAGE_RECEIVED", messageDto);
 
                 ack({ success: true, messageId: message.id });
 
+                // Everyone else who can read the channel gets an unread notification
+                await notifyNonSubscribers(socket.data.serverId, messageDto);
+
                 app.log.info(
                     { socketId: socket.id, channelId, messageId: message.id },
                     "Message sent",
@@ -110,10 +337,54 @@ export function registerMessageHandlers(
         // ── FETCH_MESSAGES ─────────────────────────────────────────────────
         socket.on("FETCH_MESSAGES", async (payload, ack) => {
             try {
-                const { channelId, before, limit = 50 } = payload;
+                const { channelId, before, around, limit = 50 } = payload;
                 const take = Math.min(limit, 100); // cap at 100
 
-                const where: any = { channelId };
+                const allowed = await requirePermission(
+                    app,
+                    socket,
+                    BigInt(PermissionFlags.CONNECT),
+                    channelId,
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                // Page centred on a message (jump to a search result)
+                if (around) {
+                    const target = await app.prisma.message.findUnique({
+                        where: { id: around },
+                        select: { channelId: true, createdAt: true },
+                    });
+                    if (!target || target.channelId !== channelId) {
+                        ack({ success: false, error: "Message not found" });
+                        return;
+                    }
+
+                    const half = Math.floor(take / 2);
+                    const [older, newer] = await Promise.all([
+                        app.prisma.message.findMany({
+                            where: { channelId, deletedAt: null, createdAt: { lt: target.createdAt } },
+                            orderBy: { createdAt: "desc" },
+                            take: half,
+                            include: MESSAGE_DTO_INCLUDE,
+                        }),
+                        app.prisma.message.findMany({
+                            where: { channelId, deletedAt: null, createdAt: { gte: target.createdAt } },
+                            orderBy: { createdAt: "asc" },
+                            take: take - half,
+                            include: MESSAGE_DTO_INCLUDE,
+                        }),
+                    ]);
+
+                    const dtos: IMessage[] = [...older.reverse(), ...newer]
+                        .map((m) => toMessageDto(m, m.user.nickname));
+                    ack({ success: true, messages: dtos });
+                    return;
+                }
+
+                const where: any = { channelId, deletedAt: null };
                 if (before) {
                     where.createdAt = { lt: new Date(before) };
                 }
@@ -122,22 +393,13 @@ export function registerMessageHandlers(
                     where,
                     orderBy: { createdAt: "desc" },
                     take,
-                    include: {
-                        user: { select: { nickname: true } },
-                    },
+                    include: MESSAGE_DTO_INCLUDE,
                 });
 
-                // Convert to DTOs in chronological order
+                // Convert to DTOs (with reply previews and reactions) in chronological order
                 const dtos: IMessage[] = messages
                     .reverse()
-                    .map((m) => ({
-                        id: m.id,
-                        channelId: m.channelId,
-                        userId: m.userId,
-                        nickname: m.user.nickname,
-                        content: m.content,
-                        createdAt: m.createdAt.toISOString(),
-                    }));
+                    .map((m) => toMessageDto(m, m.user.nickname));
 
                 ack({ success: true, messages: dtos });
             } catch (err) {
@@ -145,5 +407,312 @@ export function registerMessageHandlers(
                 ack({ success: false, error: "Failed to fetch messages" });
             }
         });
+
+        // ── EDIT_MESSAGE ───────────────────────────────────────────────────
+        socket.on("EDIT_MESSAGE", async (payload, ack) => {
+            try {
+                const { messageId } = payload;
+                const content = payload.content?.trim();
+                const userId = socket.data.userId;
+
+                if (!content) {
+                    ack({ success: false, error: "Message cannot be empty" });
+                    return;
+                }
+
+                const message = await app.prisma.message.findUnique({
+                    where: { id: messageId },
+                    include: { user: { select: { nickname: true } } },
+                });
+                if (!message || message.deletedAt) {
+                    ack({ success: false, error: "Message not found" });
+                    return;
+                }
+                if (message.userId !== userId) {
+                    ack({ success: false, error: "You can only edit your own messages" });
+                    return;
+                }
+
+                // Must still be allowed to post in the channel
+                const allowed = await requirePermission(
+                    app,
+                    socket,
+                    BigInt(PermissionFlags.SEND_MESSAGES),
+                    message.channelId,
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                if (content === message.content) {
+                    ack({ success: true });
+                    return;
+                }
+
+                // Keep the old content as a revision, then apply the edit
+                const [, updated] = await app.prisma.$transaction([
+                    app.prisma.messageRevision.create({
+                        data: { messageId, content: message.content, editedById: userId },
+                    }),
+                    app.prisma.message.update({
+                        where: { id: messageId },
+                        data: { content, editedAt: new Date() },
+                        include: MESSAGE_DTO_INCLUDE,
+                    }),
+                ]);
+
+                io.to(chatRoom(message.channelId)).emit(
+                    "MESSAGE_UPDATED",
+                    toMessageDto(updated, message.user.nickname),
+                );
+
+                ack({ success: true });
+
+                app.log.info(
+                    { socketId: socket.id, channelId: message.channelId, messageId },
+                    "Message edited",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in EDIT_MESSAGE");
+                ack({ success: false, error: "Failed to edit message" });
+            }
+        });
+
+        // ── DELETE_MESSAGE ─────────────────────────────────────────────────
+        socket.on("DELETE_MESSAGE", async (payload, ack) => {
+            try {
+                const { messageId } = payload;
+                const { userId, serverId } = socket.data;
+
+                const message = await app.prisma.message.findUnique({
+                    where: { id: messageId },
+                });
+                if (!message || message.deletedAt) {
+                    ack({ success: false, error: "Message not found" });
+                    return;
+                }
+
+                const isAuthor = message.userId === userId;
+                if (!isAuthor && !(await canManageMessages(userId, serverId, message.channelId))) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                // Soft delete — the content stays available in the moderation history
+                await app.prisma.message.update({
+                    where: { id: messageId },
+                    data: { deletedAt: new Date() },
+                });
+
+                io.to(chatRoom(message.channelId)).emit("MESSAGE_DELETED", {
+                    channelId: message.channelId,
+                    messageId,
+                });
+
+                ack({ success: true });
+
+                app.log.info(
+                    {
+                        socketId: socket.id,
+                        channelId: message.channelId,
+                        messageId,
+                        byModerator: !isAuthor,
+                    },
+                    "Message deleted",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in DELETE_MESSAGE");
+                ack({ success: false, error: "Failed to delete message" });
+            }
+        });
+
+        // ── ADD_REACTION ───────────────────────────────────────────────────
+        socket.on("ADD_REACTION", async (payload, ack) => {
+            try {
+                const { messageId, emoji } = payload;
+
+                if (!isValidReaction(emoji)) {
+                    ack({ success: false, error: "Invalid reaction" });
+                    return;
+                }
+
+                const message = await findReactableMessage(socket, messageId);
+                if (typeof message === "string") {
+                    ack({ success: false, error: message });
+                    return;
+                }
+
+                // Reacting twice with the same emoji is a no-op
+                await app.prisma.messageReaction.upsert({
+                    where: {
+                        messageId_userId_emoji: { messageId, userId: socket.data.userId, emoji },
+                    },
+                    create: { messageId, userId: socket.data.userId, emoji },
+                    update: {},
+                });
+
+                await broadcastReactions(message.channelId, messageId);
+                ack({ success: true });
+            } catch (err) {
+                app.log.error({ err }, "Error in ADD_REACTION");
+                ack({ success: false, error: "Failed to add reaction" });
+            }
+        });
+
+        // ── REMOVE_REACTION ────────────────────────────────────────────────
+        socket.on("REMOVE_REACTION", async (payload, ack) => {
+            try {
+                const { messageId, emoji } = payload;
+
+                // Without an emoji the delete would match all of the caller's reactions
+                if (!isValidReaction(emoji)) {
+                    ack({ success: false, error: "Invalid reaction" });
+                    return;
+                }
+
+                const message = await findReactableMessage(socket, messageId);
+                if (typeof message === "string") {
+                    ack({ success: false, error: message });
+                    return;
+                }
+
+                const { count } = await app.prisma.messageReaction.deleteMany({
+                    where: { messageId, userId: socket.data.userId, emoji },
+                });
+                if (count > 0) {
+                    await broadcastReactions(message.channelId, messageId);
+                }
+
+                ack({ success: true });
+            } catch (err) {
+                app.log.error({ err }, "Error in REMOVE_REACTION");
+                ack({ success: false, error: "Failed to remove reaction" });
+            }
+        });
+
+        // ── SEARCH_MESSAGES ────────────────────────────────────────────────
+        socket.on("SEARCH_MESSAGES", async (payload, ack) => {
+            try {
+                const { userId, serverId } = socket.data;
+                const query = payload.query?.trim() || undefined;
+                const author = payload.author?.trim() || undefined;
+                const limit = Math.min(Math.max(payload.limit ?? 25, 1), 50);
+                const offset = Math.max(payload.offset ?? 0, 0);
+
+                if (!query && !author) {
+                    ack({ success: false, error: "Enter search terms or an author" });
+                    return;
+                }
+                if (query && query.length > MAX_SEARCH_QUERY_LENGTH) {
+                    ack({ success: false, error: "Search query is too long" });
+                    return;
+                }
+
+                const after = parseOptionalDate(payload.after);
+                const before = parseOptionalDate(payload.before);
+                if (after === null || before === null) {
+                    ack({ success: false, error: "Invalid date range" });
+                    return;
+                }
+
+                // Only search channels the user can read
+                const channelPerms = await getAllChannelPermissions(app.prisma, userId, serverId);
+                const connect = BigInt(PermissionFlags.CONNECT);
+                let channelIds = [...channelPerms]
+                    .filter(([, perms]) => hasPermission(perms, connect))
+                    .map(([id]) => id);
+
+                if (payload.channelId) {
+                    if (!channelIds.includes(payload.channelId)) {
+                        ack({ success: false, error: "Permission denied" });
+                        return;
+                    }
+                    channelIds = [payload.channelId];
+                }
+
+                // Fetch one extra row to know whether there is another page
+                const hits = await searchMessages(app.prisma, {
+                    query,
+                    author,
+                    channelIds,
+                    after,
+                    before,
+                    limit: limit + 1,
+                    offset,
+                });
+                const page = hits.slice(0, limit);
+
+                const messages = await app.prisma.message.findMany({
+                    where: { id: { in: page.map((h) => h.id) } },
+                    include: MESSAGE_DTO_INCLUDE,
+                });
+                const byId = new Map(messages.map((m) => [m.id, m]));
+
+                const results = page.flatMap((hit) => {
+                    const message = byId.get(hit.id);
+                    if (!message) return [];
+                    return [{
+                        message: toMessageDto(message, message.user.nickname),
+                        snippet: hit.headline !== null
+                            ? parseHeadline(hit.headline)
+                            : plainSnippet(message.content),
+                    }];
+                });
+
+                ack({ success: true, results, hasMore: hits.length > limit });
+            } catch (err) {
+                app.log.error({ err }, "Error in SEARCH_MESSAGES");
+                ack({ success: false, error: "Failed to search messages" });
+            }
+        });
+
+        // ── GET_MESSAGE_HISTORY ────────────────────────────────────────────
+        socket.on("GET_MESSAGE_HISTORY", async (payload, ack) => {
+            try {
+                const { messageId } = payload;
+
+                const message = await app.prisma.message.findUnique({
+                    where: { id: messageId },
+                    include: {
+                        revisions: {
+                            orderBy: { createdAt: "asc" },
+                            include: { editedBy: { select: { nickname: true } } },
+                        },
+                    },
+                });
+                if (!message) {
+                    ack({ success: false, error: "Message not found" });
+                    return;
+                }
+
+                const allowed = await requirePermission(
+                    app,
+                    socket,
+                    BigInt(PermissionFlags.MANAGE_MESSAGES),
+                    message.channelId,
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                ack({
+                    success: true,
+                    content: message.content,
+                    deletedAt: message.deletedAt?.toISOString() ?? null,
+                    revisions: message.revisions.map((r) => ({
+                        id: r.id,
+                        messageId: r.messageId,
+                        content: r.content,
+                        editedBy: r.editedBy?.nickname ?? null,
+                        createdAt: r.createdAt.toISOString(),
+                    })),
+                });
+            } catch (err) {
+                app.log.error({ err }, "Error in GET_MESSAGE_HISTORY");
+                ack({ success: false, error: "Failed to fetch message history" });
+            }
+        });
     });
 }
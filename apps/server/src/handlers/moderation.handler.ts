@@ -0,0 +1,521 @@
+/**
+ * Moderation Handler — Socket.io events for kicking, banning and
+ * moderating users' voice.
+ *
+ * Handles: KICK_USER, BAN_USER, UNBAN_USER, GET_BANS,
+ *          SERVER_MUTE_USER, SERVER_DEAFEN_USER, MOVE_USER.
+ * Each action is gated by its permission flag (KICK_USER, BAN_USER,
+ * MUTE_MEMBERS, DEAFEN_MEMBERS, MOVE_MEMBERS) and by power level: a
+ * moderator can only act on users whose highest role is strictly below
+ * their own. Lifting a ban also requires outranking whoever placed it.
+ *
+ * Server mute/deafen is enforced by pausing the target's mediasoup
+ * producer/consumers, and persists in Redis until lifted. MOVE_USER goes
+ * through the same join path as USER_JOIN_CHANNEL (bypassing the user
+ * limit); the target's client then redoes its voice handshake.
+ */
+
+import type { Server as SocketIOServer, Socket } from "socket.io";
+import type { FastifyInstance } from "fastify";
+import type {
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData,
+    IBan,
+} from "@reson8/shared-types";
+import { PermissionFlags } from "@reson8/shared-types";
+import { requirePermission } from "../middleware/permissions.middleware.js";
+import { canModerate, getUserPowerLevel } from "../services/permissions.service.js";
+import { isBanActive } from "../services/moderation.service.js";
+import type { MediasoupService } from "../services/mediasoup.service.js";
+import { PresenceService } from "../services/presence.service.js";
+import { VoiceChannelService } from "../services/voice-channel.service.js";
+
+type TypedIO = SocketIOServer<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+type TypedSocket = Socket<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+/** Longest allowed temporary ban (one year, in minutes). */
+const MAX_BAN_MINUTES = 60 * 24 * 365;
+
+/**
+ * Registers moderation handlers on each socket connection.
+ */
+export function registerModerationHandlers(
+    io: TypedIO,
+    app: FastifyInstance,
+    mediasoup: MediasoupService,
+): void {
+    const presence = new PresenceService(app.redis);
+    const channels = new VoiceChannelService(io, app, mediasoup);
+
+    /**
+     * Checks that the socket's user may moderate `targetId`.
+     * @returns An error message, or `null` if allowed.
+     */
+    async function checkTarget(socket: TypedSocket, targetId: string): Promise<string | null> {
+        if (!targetId) return "No user specified";
+        if (targetId === socket.data.userId) return "You cannot moderate yourself";
+
+        const serverId = socket.data.serverId;
+        const [actorLevel, targetLevel] = await Promise.all([
+            getUserPowerLevel(app.prisma, socket.data.userId, serverId),
+            getUserPowerLevel(app.prisma, targetId, serverId),
+        ]);
+
+        if (!canModerate(actorLevel, targetLevel)) {
+            app.log.warn(
+                { actorId: socket.data.userId, targetId, actorLevel, targetLevel },
+                "Moderation blocked by power level",
+            );
+            return "Target has an equal or higher power level";
+        }
+        return null;
+    }
+
+    /**
+     * Tears down every socket the target has open on the server:
+     * closes their mediasoup session, notifies the server, then disconnects.
+     * The regular `disconnect` handler takes care of presence cleanup.
+     */
+    async function removeFromServer(
+        serverId: string,
+        targetId: string,
+        reason: string | null,
+        banned: boolean,
+        expiresAt: Date | null,
+    ): Promise<boolean> {
+        const sockets = await io.in(`server:${serverId}`).fetchSockets();
+        const targets = sockets.filter((s) => s.data.userId === targetId);
+        if (targets.length === 0) return false;
+
+        io.to(`server:${serverId}`).emit("USER_KICKED", {
+            userId: targetId,
+            nickname: targets[0].data.nickname ?? "Unknown",
+            serverId,
+            reason,
+            banned,
+            expiresAt: expiresAt?.toISOString() ?? null,
+        });
+
+        for (const target of targets) {
+            const channelId = target.data.currentChannelId;
+            if (channelId) {
+                const producerId = mediasoup.getSession(channelId, targetId)?.producer?.id;
+                if (producerId) {
+                    io.to(`channel:${channelId}`).except(target.id).emit("PRODUCER_CLOSED", {
+                        userId: targetId,
+                        producerId,
+                    });
+                }
+                mediasoup.cleanupUserSession(channelId, targetId);
+            }
+            target.disconnect(true);
+        }
+        return true;
+    }
+
+    /**
+     * Returns the target's sockets on this server. Local sockets only, like
+     * the mediasoup sessions whose state they carry.
+     */
+    function findUserSockets(serverId: string, targetId: string): TypedSocket[] {
+        return [...io.sockets.sockets.values()].filter(
+            (s) => s.data.serverId === serverId && s.data.userId === targetId,
+        );
+    }
+
+    /**
+     * Applies a change in moderator restrictions to the target's sockets,
+     * enforces it on their voice session and updates channel presence.
+     */
+    async function updateVoiceRestrictions(
+        serverId: string,
+        targetId: string,
+        change: { isServerMuted?: boolean; isServerDeafened?: boolean },
+    ): Promise<void> {
+        const affectedChannels = new Set<string>();
+
+        for (const target of findUserSockets(serverId, targetId)) {
+            Object.assign(target.data, change);
+
+            const channelId = target.data.currentChannelId;
+            if (channelId) {
+                await mediasoup.applyVoiceRestrictions(channelId, targetId, {
+                    muted: target.data.isServerMuted === true,
+                    deafened: target.data.isServerDeafened === true,
+                });
+                affectedChannels.add(channelId);
+            }
+        }
+
+        for (const channelId of affectedChannels) {
+            await channels.broadcastChannelPresence(serverId, channelId);
+        }
+    }
+
+    io.on("connection", (socket: TypedSocket) => {
+        // ── KICK_USER ──────────────────────────────────────────────────────
+        socket.on("KICK_USER", async (payload, ack) => {
+            try {
+                const { userId, reason } = payload;
+
+                const allowed = await requirePermission(
+                    app, socket, BigInt(PermissionFlags.KICK_USER),
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                const blocked = await checkTarget(socket, userId);
+                if (blocked) {
+                    ack({ success: false, error: blocked });
+                    return;
+                }
+
+                const kicked = await removeFromServer(
+                    socket.data.serverId,
+                    userId,
+                    reason?.trim() || null,
+                    false,
+                    null,
+                );
+                if (!kicked) {
+                    ack({ success: false, error: "User is not online" });
+                    return;
+                }
+
+                ack({ success: true });
+
+                app.log.info(
+                    { actorId: socket.data.userId, targetId: userId, reason },
+                    "User kicked",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in KICK_USER");
+                ack({ success: false, error: "Failed to kick user" });
+            }
+        });
+
+        // ── BAN_USER ───────────────────────────────────────────────────────
+        socket.on("BAN_USER", async (payload, ack) => {
+            try {
+                const { userId, durationMinutes } = payload;
+                const reason = payload.reason?.trim() || null;
+                const serverId = socket.data.serverId;
+
+                const allowed = await requirePermission(
+                    app, socket, BigInt(PermissionFlags.BAN_USER),
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                const blocked = await checkTarget(socket, userId);
+                if (blocked) {
+                    ack({ success: false, error: blocked });
+                    return;
+                }
+
+                if (
+                    durationMinutes != null &&
+                    (!Number.isFinite(durationMinutes) ||
+                        durationMinutes <= 0 ||
+                        durationMinutes > MAX_BAN_MINUTES)
+                ) {
+                    ack({ success: false, error: "Invalid ban duration" });
+                    return;
+                }
+
+                const target = await app.prisma.user.findUnique({ where: { id: userId } });
+                if (!target) {
+                    ack({ success: false, error: "User not found" });
+                    return;
+                }
+
+                const expiresAt = durationMinutes != null
+                    ? new Date(Date.now() + durationMinutes * 60_000)
+                    : null;
+
+                // One ban row per user per server — re-banning replaces the old one
+                await app.prisma.ban.upsert({
+                    where: { serverId_userId: { serverId, userId } },
+                    update: { reason, expiresAt, bannedById: socket.data.userId, createdAt: new Date() },
+                    create: { serverId, userId, reason, expiresAt, bannedById: socket.data.userId },
+                });
+
+                await removeFromServer(serverId, userId, reason, true, expiresAt);
+
+                ack({ success: true });
+
+                app.log.info(
+                    { actorId: socket.data.userId, targetId: userId, reason, expiresAt },
+                    "User banned",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in BAN_USER");
+                ack({ success: false, error: "Failed to ban user" });
+            }
+        });
+
+        // ── UNBAN_USER ─────────────────────────────────────────────────────
+        socket.on("UNBAN_USER", async (payload, ack) => {
+            try {
+                const { userId } = payload;
+
+                const allowed = await requirePermission(
+                    app, socket, BigInt(PermissionFlags.BAN_USER),
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                const serverId = socket.data.serverId;
+                const ban = await app.prisma.ban.findUnique({
+                    where: { serverId_userId: { serverId, userId } },
+                });
+                if (!ban) {
+                    ack({ success: false, error: "User is not banned" });
+                    return;
+                }
+
+                // Same rank rules as BAN_USER: outrank the banned user, and
+                // whoever placed the ban unless it was the actor
+                const blocked = await checkTarget(socket, userId);
+                if (blocked) {
+                    ack({ success: false, error: blocked });
+                    return;
+                }
+                if (ban.bannedById && ban.bannedById !== socket.data.userId) {
+                    const [actorLevel, bannerLevel] = await Promise.all([
+                        getUserPowerLevel(app.prisma, socket.data.userId, serverId),
+                        getUserPowerLevel(app.prisma, ban.bannedById, serverId),
+                    ]);
+                    if (!canModerate(actorLevel, bannerLevel)) {
+                        ack({ success: false, error: "Ban was placed by someone with an equal or higher power level" });
+                        return;
+                    }
+                }
+
+                await app.prisma.ban.deleteMany({
+                    where: { serverId, userId },
+                });
+
+                ack({ success: true });
+
+                app.log.info(
+                    { actorId: socket.data.userId, targetId: userId },
+                    "User unbanned",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in UNBAN_USER");
+                ack({ success: false, error: "Failed to unban user" });
+            }
+        });
+
+        // ── GET_BANS ───────────────────────────────────────────────────────
+        socket.on("GET_BANS", async (_payload, ack) => {
+            const allowed = await requirePermission(
+                app, socket, BigInt(PermissionFlags.BAN_USER),
+            );
+            if (!allowed) {
+                ack({ success: false, error: "Permission denied" });
+                return;
+            }
+
+            try {
+                const bans = await app.prisma.ban.findMany({
+                    where: { serverId: socket.data.serverId },
+                    include: {
+                        user: { select: { nickname: true } },
+                        bannedBy: { select: { nickname: true } },
+                    },
+                    orderBy: { createdAt: "desc" },
+                });
+
+                const mapped: IBan[] = bans
+                    .filter((b) => isBanActive(b))
+                    .map((b) => ({
+                        id: b.id,
+                        serverId: b.serverId,
+                        userId: b.userId,
+                        nickname: b.user.nickname,
+                        bannedBy: b.bannedBy?.nickname ?? null,
+                        reason: b.reason,
+                        expiresAt: b.expiresAt?.toISOString() ?? null,
+                        createdAt: b.createdAt.toISOString(),
+                    }));
+
+                ack({ success: true, bans: mapped });
+            } catch (err) {
+                app.log.error({ err }, "Error in GET_BANS");
+                ack({ success: false, error: "Failed to fetch bans" });
+            }
+        });
+
+        // ── SERVER_MUTE_USER ───────────────────────────────────────────────
+        socket.on("SERVER_MUTE_USER", async (payload, ack) => {
+            try {
+                const { userId } = payload;
+                const muted = payload.muted === true;
+
+                const allowed = await requirePermission(
+                    app, socket, BigInt(PermissionFlags.MUTE_MEMBERS),
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                const blocked = await checkTarget(socket, userId);
+                if (blocked) {
+                    ack({ success: false, error: blocked });
+                    return;
+                }
+
+                await presence.setServerMuted(socket.data.serverId, userId, muted);
+                await updateVoiceRestrictions(socket.data.serverId, userId, { isServerMuted: muted });
+
+                ack({ success: true });
+
+                app.log.info(
+                    { actorId: socket.data.userId, targetId: userId, muted },
+                    "User server-muted",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in SERVER_MUTE_USER");
+                ack({ success: false, error: "Failed to mute user" });
+            }
+        });
+
+        // ── SERVER_DEAFEN_USER ─────────────────────────────────────────────
+        socket.on("SERVER_DEAFEN_USER", async (payload, ack) => {
+            try {
+                const { userId } = payload;
+                const deafened = payload.deafened === true;
+
+                const allowed = await requirePermission(
+                    app, socket, BigInt(PermissionFlags.DEAFEN_MEMBERS),
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                const blocked = await checkTarget(socket, userId);
+                if (blocked) {
+                    ack({ success: false, error: blocked });
+                    return;
+                }
+
+                await presence.setServerDeafened(socket.data.serverId, userId, deafened);
+                await updateVoiceRestrictions(socket.data.serverId, userId, { isServerDeafened: deafened });
+
+                ack({ success: true });
+
+                app.log.info(
+                    { actorId: socket.data.userId, targetId: userId, deafened },
+                    "User server-deafened",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in SERVER_DEAFEN_USER");
+                ack({ success: false, error: "Failed to deafen user" });
+            }
+        });
+
+        // ── MOVE_USER ──────────────────────────────────────────────────────
+        socket.on("MOVE_USER", async (payload, ack) => {
+            try {
+                const { userId, channelId } = payload;
+                const serverId = socket.data.serverId;
+
+                const allowed = await requirePermission(
+                    app, socket, BigInt(PermissionFlags.MOVE_MEMBERS), channelId,
+                );
+                if (!allowed) {
+                    ack({ success: false, error: "Permission denied" });
+                    return;
+                }
+
+                const blocked = await checkTarget(socket, userId);
+                if (blocked) {
+                    ack({ success: false, error: blocked });
+                    return;
+                }
+
+                const channel = await app.prisma.channel.findUnique({ where: { id: channelId } });
+                if (!channel || channel.serverId !== serverId) {
+                    ack({ success: false, error: "Channel not found" });
+                    return;
+                }
+                if (channel.type !== "VOICE") {
+                    ack({ success: false, error: "Users can only be moved into voice channels" });
+                    return;
+                }
+
+                // Only a socket that is in voice can be moved
+                const target = findUserSockets(serverId, userId).find((s) => s.data.currentChannelId);
+                if (!target) {
+                    ack({ success: false, error: "User is not in a voice channel" });
+                    return;
+                }
+                if (target.data.currentChannelId === channelId) {
+                    ack({ success: false, error: "User is already in that channel" });
+                    return;
+                }
+                if (target.data.joiningChannel) {
+                    ack({ success: false, error: "User is switching channels, try again" });
+                    return;
+                }
+
+                target.data.joiningChannel = true;
+                let result;
+                try {
+                    result = await channels.joinChannel(target, channelId, { ignoreUserLimit: true });
+                } finally {
+                    target.data.joiningChannel = false;
+                }
+                if (!result.success) {
+                    ack({
+                        success: false,
+                        error: result.code === "NO_CONNECT_PERMISSION"
+                            ? "User does not have permission to join that channel"
+                            : result.error,
+                    });
+                    return;
+                }
+
+                target.emit("VOICE_MOVED", {
+                    channelId,
+                    canSpeak: result.canSpeak,
+                    movedBy: socket.data.nickname,
+                });
+                channels.sendExistingProducers(target, channelId);
+
+                ack({ success: true });
+
+                app.log.info(
+                    { actorId: socket.data.userId, targetId: userId, channelId },
+                    "User moved",
+                );
+            } catch (err) {
+                app.log.error({ err }, "Error in MOVE_USER");
+                ack({ success: false, error: "Failed to move user" });
+            }
+        });
+    });
+}
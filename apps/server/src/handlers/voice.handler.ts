@@ -10,6 +10,14 @@
  * 6. RESUME_CONSUMER
  *
  * Also handles CLOSE_PRODUCER for mute.
+ * PRODUCE requires the SPEAK permission in the user's current channel, and
+ * every encoding must stay within the channel's Opus bitrate cap (sent to
+ * the client with the router capabilities). Producing again replaces the
+ * user's previous producer.
+ * Producers of server-muted users start paused, and consumers of
+ * server-deafened users stay paused (see moderation.handler.ts).
+ * Every producer is added to the channel's audio level observer, whose
+ * changes are broadcast to the channel as ACTIVE_SPEAKERS.
  */
 
 import type { Server as SocketIOServer, Socket } from "socket.io";
@@ -20,7 +28,11 @@ import type {
     InterServerEvents,
     SocketData,
 } from "@reson8/shared-types";
+import { PermissionFlags } from "@reson8/shared-types";
+import { exceedsBitrateCap } from "../services/mediasoup.service.js";
 import type { MediasoupService } from "../services/mediasoup.service.js";
+import { toChannelAudio } from "../services/channel-tree.service.js";
+import { getChannelPermissions, hasPermission } from "../services/permissions.service.js";
 
 type TypedIO = SocketIOServer<
     ClientToServerEvents,
@@ -44,16 +56,33 @@ export function registerVoiceHandlers(
     app: FastifyInstance,
     mediasoup: MediasoupService,
 ): void {
+    mediasoup.setActiveSpeakersListener((channelId, userIds) => {
+        io.to(`channel:${channelId}`).emit("ACTIVE_SPEAKERS", { channelId, userIds });
+    });
+
     io.on("connection", (socket: TypedSocket) => {
         // ── 1. GET_ROUTER_CAPABILITIES ──────────────────────────────────────
         socket.on("GET_ROUTER_CAPABILITIES", async (payload, ack) => {
             try {
                 const { channelId } = payload;
+                const channel = await app.prisma.channel.findUnique({
+                    where: { id: channelId },
+                });
+                if (!channel || channel.serverId !== socket.data.serverId) {
+                    ack({ success: false, error: "Channel not found" });
+                    return;
+                }
+                if (channel.type === "CATEGORY") {
+                    ack({ success: false, error: "Categories have no voice" });
+                    return;
+                }
+
                 const router = await mediasoup.getOrCreateRouter(channelId);
 
                 ack({
                     success: true,
                     rtpCapabilities: router.rtpCapabilities,
+                    audio: toChannelAudio(channel),
                 });
 
                 app.log.info(
@@ -169,24 +198,70 @@ export function registerVoiceHandlers(
                     return;
                 }
 
+                const perms = await getChannelPermissions(
+                    app.prisma, socket.data.userId, socket.data.serverId, channelId,
+                );
+                if (!hasPermission(perms, BigInt(PermissionFlags.SPEAK))) {
+                    ack({
+                        success: false,
+                        code: "NO_SPEAK_PERMISSION",
+                        error: "You do not have permission to speak in this channel",
+                    });
+                    return;
+                }
+
+                const channel = await app.prisma.channel.findUnique({
+                    where: { id: channelId },
+                });
+                if (!channel) {
+                    ack({ success: false, error: "Channel not found" });
+                    return;
+                }
+                if (exceedsBitrateCap(rtpParameters, channel.audioBitrate)) {
+                    ack({
+                        success: false,
+                        code: "BITRATE_TOO_HIGH",
+                        error: `Audio bitrate exceeds this channel's ${channel.audioBitrate / 1000} kbps limit`,
+                    });
+                    return;
+                }
+
                 const session = mediasoup.getSession(channelId, socket.data.userId);
                 if (!session?.sendTransport || session.sendTransport.id !== transportId) {
                     ack({ success: false, error: "Send transport not found" });
                     return;
                 }
 
+                // Producing again (e.g. after the channel's audio settings
+                // changed) replaces the previous producer
+                const previous = session.producer;
+                if (previous) {
+                    previous.close();
+                    session.producer = null;
+                    socket.to(`channel:${channelId}`).emit("PRODUCER_CLOSED", {
+                        userId: socket.data.userId,
+                        producerId: previous.id,
+                    });
+                }
+
                 const producer = await session.sendTransport.produce({
                     kind,
                     rtpParameters,
+                    appData: { userId: socket.data.userId },
                 });
 
                 session.producer = producer;
+                if (socket.data.isServerMuted) {
+                    await producer.pause();
+                }
 
                 // Handle producer close
                 producer.on("transportclose", () => {
                     session.producer = null;
                 });
 
+                await mediasoup.observeProducer(channelId, producer);
+
                 // Notify other users in the channel about the new producer
                 socket.to(`channel:${channelId}`).emit("NEW_PRODUCER", {
                     userId: socket.data.userId,
@@ -292,7 +367,10 @@ export function registerVoiceHandlers(
                     return;
                 }
 
-                await consumer.resume();
+                // A server-deafened user's consumers are resumed when the deafen is lifted
+                if (!socket.data.isServerDeafened) {
+                    await consumer.resume();
+                }
                 ack({ success: true });
 
                 app.log.info(
@@ -9,6 +9,7 @@ import "dotenv/config";
 import { randomUUID } from "node:crypto";
 import Fastify from "fastify";
 import cors from "@fastify/cors";
+import multipart from "@fastify/multipart";
 import { Server as SocketIOServer } from "socket.io";
 import type {
     ClientToServerEvents,
@@ -23,7 +24,28 @@ import { registerVoiceHandlers } from "./handlers/voice.handler.js";
 import { registerChannelHandlers } from "./handlers/channel.handler.js";
 import { registerMessageHandlers } from "./handlers/message.handler.js";
 import { registerAdminHandlers } from "./handlers/admin.handler.js";
+import { registerModerationHandlers } from "./handlers/moderation.handler.js";
+import { registerDirectMessageHandlers } from "./handlers/direct-message.handler.js";
+import { registerAuthRoutes } from "./routes/auth.routes.js";
+import { registerAttachmentRoutes } from "./routes/attachment.routes.js";
+import { createSocketAuthMiddleware } from "./middleware/auth.middleware.js";
 import { MediasoupService } from "./services/mediasoup.service.js";
+import { SessionService } from "./services/session.service.js";
+import { LoginThrottle } from "./services/login-throttle.service.js";
+import { LocalDiskStorage } from "./services/storage.service.js";
+import { ensureMessageSearchIndex } from "./services/search.service.js";
+import { migrateLegacyCategories } from "./services/channel-tree.service.js";
+import {
+    migrateMemberAttachFiles,
+    purgeUnlinkedAttachments,
+} from "./services/attachment.service.js";
+import { parsePositiveInt } from "./config/env.js";
+import {
+    UPLOAD_DIR,
+    UPLOAD_MAX_FILE_SIZE,
+    UPLOAD_MAX_FILES,
+    UPLOAD_UNLINKED_TTL_MINUTES,
+} from "./config/uploads.config.js";
 
 // Augment Fastify with the resolved server ID
 declare module "fastify" {
@@ -35,6 +57,12 @@ declare module "fastify" {
 const PORT = parseInt(process.env.PORT ?? "9800", 10);
 const HOST = process.env.HOST ?? "0.0.0.0";
 
+/** Client cap for a new server record when MAX_CLIENTS is unset or invalid. */
+const DEFAULT_MAX_CLIENTS = 32;
+
+/** How often uploads that were never sent are cleaned up. */
+const ATTACHMENT_PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
 async function main(): Promise<void> {
     // ── Fastify ────────────────────────────────────────────────────────────
     const app = Fastify({
@@ -50,6 +78,11 @@ async function main(): Promise<void> {
     // CORS — allow any origin in dev; lock down in production
     await app.register(cors, { origin: true });
 
+    // Multipart bodies for attachment uploads (limits from uploads.config.ts)
+    await app.register(multipart, {
+        limits: { fileSize: UPLOAD_MAX_FILE_SIZE, files: UPLOAD_MAX_FILES },
+    });
+
     // ── Plugins (Prisma + Redis) ───────────────────────────────────────────
     await app.register(prismaPlugin);
     await app.register(redisPlugin);
@@ -58,7 +91,13 @@ async function main(): Promise<void> {
     // Auto-create (or reuse) the server record in the database.
     const serverName = process.env.SERVER_NAME ?? "Reson8 Server";
     const serverAddress = process.env.SERVER_ADDRESS ?? `localhost:${PORT}`;
-    const maxClients = parseInt(process.env.MAX_CLIENTS ?? "32", 10);
+
+    // A MAX_CLIENTS that isn't a positive integer is ignored, never stored as the cap
+    const configuredMaxClients = parsePositiveInt(process.env.MAX_CLIENTS, 0) || null;
+    if (process.env.MAX_CLIENTS && configuredMaxClients === null) {
+        app.log.warn(`MAX_CLIENTS="${process.env.MAX_CLIENTS}" is not a positive integer — ignoring it`);
+    }
+    const maxClients = configuredMaxClients ?? DEFAULT_MAX_CLIENTS;
 
     let server = await app.prisma.server.findFirst();
     if (!server) {
@@ -73,10 +112,37 @@ async function main(): Promise<void> {
         app.log.info(`🆕 Created server record: ${server.name} (${server.id})`);
     } else {
         app.log.info(`✅ Using existing server record: ${server.name} (${server.id})`);
+
+        // Keep the stored client cap in sync with MAX_CLIENTS
+        if (configuredMaxClients !== null && server.maxClients !== maxClients) {
+            server = await app.prisma.server.update({
+                where: { id: server.id },
+                data: { maxClients },
+            });
+            app.log.info(`👥 Max clients set to ${maxClients}`);
+        }
     }
 
     app.decorate("serverId", server.id);
 
+    // Voice channels with children were categories before CATEGORY existed (runs once)
+    const migratedCategories = await migrateLegacyCategories(app.prisma);
+    if (migratedCategories > 0) {
+        app.log.info(`📁 Converted ${migratedCategories} voice channel(s) with sub-channels into categories`);
+    }
+
+    // Members of databases seeded before attachments existed can upload too (runs once)
+    if (await migrateMemberAttachFiles(app.prisma)) {
+        app.log.info("📎 Granted ATTACH_FILES to the Member role");
+    }
+
+    // Full-text search index on message content (see search.service.ts)
+    try {
+        await ensureMessageSearchIndex(app.prisma);
+    } catch (err) {
+        app.log.warn({ err }, "Could not create the message search index — search will be slow");
+    }
+
     // ── mediasoup SFU ──────────────────────────────────────────────────────
     const mediasoupService = new MediasoupService();
     await mediasoupService.init();
@@ -85,6 +151,30 @@ async function main(): Promise<void> {
     // ── Health-check route ─────────────────────────────────────────────────
     app.get("/health", async () => ({ status: "ok", uptime: process.uptime() }));
 
+    // ── Auth routes ────────────────────────────────────────────────────────
+    const sessions = new SessionService(app.redis);
+    registerAuthRoutes(app, sessions, new LoginThrottle(app.redis));
+
+    // ── Attachment routes ──────────────────────────────────────────────────
+    const storage = new LocalDiskStorage(UPLOAD_DIR);
+    registerAttachmentRoutes(app, sessions, storage);
+
+    // Drop uploads that were never attached to a message
+    const purgeTimer = setInterval(async () => {
+        try {
+            const cutoff = new Date(Date.now() - UPLOAD_UNLINKED_TTL_MINUTES * 60 * 1000);
+            const removed = await purgeUnlinkedAttachments(app.prisma, storage, cutoff);
+            if (removed > 0) {
+                app.log.info(`🧹 Removed ${removed} unsent attachment(s)`);
+            }
+        } catch (err) {
+            app.log.error({ err }, "Error purging unsent attachments");
+        }
+    }, ATTACHMENT_PURGE_INTERVAL_MS);
+    app.addHook("onClose", async () => {
+        clearInterval(purgeTimer);
+    });
+
     // ── Socket.io ──────────────────────────────────────────────────────────
     const io = new SocketIOServer<
         ClientToServerEvents,
@@ -97,12 +187,17 @@ async function main(): Promise<void> {
         pingTimeout: 5_000,
     });
 
+    // Authenticate every handshake before any handler runs
+    io.use(createSocketAuthMiddleware(app, sessions));
+
     // Register socket event handlers
     registerConnectionHandlers(io, app, mediasoupService);
     registerVoiceHandlers(io, app, mediasoupService);
     registerChannelHandlers(io, app);
     registerMessageHandlers(io, app);
     registerAdminHandlers(io, app);
+    registerModerationHandlers(io, app, mediasoupService);
+    registerDirectMessageHandlers(io, app);
 
     // ── Start ──────────────────────────────────────────────────────────────
     try {
@@ -0,0 +1,89 @@
+/**
+ * Auth Middleware — authenticates Socket.io handshakes.
+ *
+ * Runs via `io.use()` before any event handler is registered for the socket.
+ * Accepts either a session token (`auth.token`) or, when guest access is
+ * enabled, a client instance ID (`auth.instanceId`). On success the socket's
+ * `userId`, `nickname` and `isGuest` fields are populated; on failure the
+ * connection is refused with a `connect_error`.
+ */
+
+import type { FastifyInstance } from "fastify";
+import type { Socket } from "socket.io";
+import type {
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData,
+    SocketAuth,
+} from "@reson8/shared-types";
+import { guestAccessEnabled, isGuestPassword } from "../services/auth.service.js";
+import type { SessionService } from "../services/session.service.js";
+
+type TypedSocket = Socket<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+/**
+ * Creates the Socket.io handshake middleware.
+ */
+export function createSocketAuthMiddleware(
+    app: FastifyInstance,
+    sessions: SessionService,
+): (socket: TypedSocket, next: (err?: Error) => void) => Promise<void> {
+    return async (socket, next) => {
+        try {
+            const auth = (socket.handshake.auth ?? {}) as SocketAuth;
+
+            // ── Account session ────────────────────────────────────────────
+            if (auth.token) {
+                const userId = await sessions.resolve(auth.token);
+                const user = userId
+                    ? await app.prisma.user.findUnique({ where: { id: userId } })
+                    : null;
+
+                if (!user) {
+                    next(new Error("Session expired — please log in again"));
+                    return;
+                }
+
+                socket.data.userId = user.id;
+                socket.data.nickname = user.nickname;
+                socket.data.isGuest = false;
+                next();
+                return;
+            }
+
+            // ── Guest (instance ID) ────────────────────────────────────────
+            if (auth.instanceId) {
+                if (!guestAccessEnabled()) {
+                    next(new Error("Guest access is disabled on this server — please log in"));
+                    return;
+                }
+
+                // An instance ID must never resolve to a real account
+                const existing = await app.prisma.user.findUnique({
+                    where: { id: auth.instanceId },
+                });
+                if (existing && !isGuestPassword(existing.password)) {
+                    next(new Error("Invalid guest identity"));
+                    return;
+                }
+
+                socket.data.userId = auth.instanceId;
+                socket.data.nickname = existing?.nickname ?? "Guest";
+                socket.data.isGuest = true;
+                next();
+                return;
+            }
+
+            next(new Error("Authentication required"));
+        } catch (err) {
+            app.log.error({ err }, "Error in socket auth middleware");
+            next(new Error("Authentication failed"));
+        }
+    };
+}
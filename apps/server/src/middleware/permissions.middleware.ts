@@ -4,6 +4,7 @@
  * Provides a `requirePermission` helper that resolves the socket user's
  * effective permissions and checks the required flag.  If the check fails,
  * returns `false` (callers should ack with an error and `return`).
+ * Pass a `channelId` to take that channel's permission overrides into account.
  */
 
 import type { FastifyInstance } from "fastify";
@@ -14,7 +15,11 @@ import type {
     InterServerEvents,
     SocketData,
 } from "@reson8/shared-types";
-import { getUserPermissions, hasPermission } from "../services/permissions.service.js";
+import {
+    getChannelPermissions,
+    getUserPermissions,
+    hasPermission,
+} from "../services/permissions.service.js";
 
 type TypedSocket = Socket<
     ClientToServerEvents,
@@ -33,6 +38,7 @@ export async function requirePermission(
     app: FastifyInstance,
     socket: TypedSocket,
     permission: bigint,
+    channelId?: string,
 ): Promise<boolean> {
     const userId = socket.data.userId;
     const serverId = socket.data.serverId;
@@ -45,11 +51,9 @@ export async function requirePermission(
         return false;
     }
 
-    const userPerms = await getUserPermissions(
-        app.prisma as any,
-        userId,
-        serverId,
-    );
+    const userPerms = channelId
+        ? await getChannelPermissions(app.prisma as any, userId, serverId, channelId)
+        : await getUserPermissions(app.prisma as any, userId, serverId);
 
     if (!hasPermission(userPerms, permission)) {
         socket.emit("ERROR", {
@@ -57,7 +61,7 @@ export async function requirePermission(
             message: "You do not have permission to perform this action.",
         });
         app.log.warn(
-            { userId, serverId, requiredPermission: permission.toString() },
+            { userId, serverId, channelId, requiredPermission: permission.toString() },
             "Permission denied",
         );
         return false;
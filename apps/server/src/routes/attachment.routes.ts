@@ -0,0 +1,188 @@
+/**
+ * Attachment Routes — HTTP upload and download of chat attachments.
+ *
+ * Routes: POST /channels/:channelId/attachments, GET /attachments/:attachmentId/:filename.
+ * Uploads are multipart/form-data, authenticated with the session token
+ * (`Authorization: Bearer <token>`), and require SEND_MESSAGES plus
+ * ATTACH_FILES in the channel. Uploaded files stay unlinked until the
+ * client sends a message referencing them (SEND_MESSAGE `attachmentIds`).
+ *
+ * Downloads are not authenticated — the random attachment ID acts as the
+ * capability, so the client can use the URL directly in <img> tags.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { IUploadResponse } from "@reson8/shared-types";
+import { PermissionFlags } from "@reson8/shared-types";
+import {
+    UPLOAD_ALLOWED_MIME_TYPES,
+    UPLOAD_MAX_FILES,
+} from "../config/uploads.config.js";
+import {
+    isMimeAllowed,
+    isPreviewableImage,
+    sanitizeFilename,
+    toAttachmentDto,
+} from "../services/attachment.service.js";
+import { findActiveBan } from "../services/moderation.service.js";
+import { getChannelPermissions, hasPermission } from "../services/permissions.service.js";
+import type { SessionService } from "../services/session.service.js";
+import type { FileStorage } from "../services/storage.service.js";
+
+/** Resolves the `Authorization: Bearer` header to a user ID. */
+async function authenticateRequest(
+    request: FastifyRequest,
+    sessions: SessionService,
+): Promise<string | null> {
+    const header = request.headers.authorization;
+    if (!header?.startsWith("Bearer ")) return null;
+    return sessions.resolve(header.slice("Bearer ".length).trim());
+}
+
+/**
+ * Registers the attachment routes on the Fastify instance.
+ * Requires @fastify/multipart to be registered beforehand.
+ */
+export function registerAttachmentRoutes(
+    app: FastifyInstance,
+    sessions: SessionService,
+    storage: FileStorage,
+): void {
+    // ── POST /channels/:channelId/attachments ──────────────────────────────
+    app.post<{ Params: { channelId: string }; Reply: IUploadResponse }>(
+        "/channels/:channelId/attachments",
+        async (request, reply) => {
+            const userId = await authenticateRequest(request, sessions);
+            if (!userId) {
+                return reply.code(401).send({ success: false, error: "Log in to upload files" });
+            }
+
+            const { channelId } = request.params;
+            const channel = await app.prisma.channel.findUnique({
+                where: { id: channelId },
+            });
+            if (!channel) {
+                return reply.code(404).send({ success: false, error: "Channel not found" });
+            }
+
+            if (await findActiveBan(app.prisma, userId, channel.serverId)) {
+                return reply.code(403).send({ success: false, error: "Permission denied" });
+            }
+
+            const perms = await getChannelPermissions(app.prisma, userId, channel.serverId, channelId);
+            if (
+                !hasPermission(perms, BigInt(PermissionFlags.SEND_MESSAGES)) ||
+                !hasPermission(perms, BigInt(PermissionFlags.ATTACH_FILES))
+            ) {
+                return reply.code(403).send({ success: false, error: "Permission denied" });
+            }
+
+            if (!request.isMultipart()) {
+                return reply.code(400).send({ success: false, error: "Expected multipart/form-data" });
+            }
+
+            // Stream each file to storage; on any failure remove what was already written
+            const stored: Array<{ id: string; filename: string; mimeType: string; size: number }> = [];
+            let currentId: string | null = null;
+
+            const discardStored = async (): Promise<void> => {
+                const ids = stored.map((f) => f.id);
+                if (currentId) ids.push(currentId);
+                await Promise.all(ids.map((id) => storage.delete(id).catch(() => { })));
+            };
+
+            try {
+                for await (const part of request.files()) {
+                    const mimeType = part.mimetype.toLowerCase();
+                    if (!isMimeAllowed(mimeType, UPLOAD_ALLOWED_MIME_TYPES)) {
+                        part.file.resume();
+                        await discardStored();
+                        return reply.code(415).send({
+                            success: false,
+                            error: `File type ${mimeType} is not allowed`,
+                        });
+                    }
+
+                    currentId = randomUUID();
+                    const size = await storage.save(currentId, part.file);
+                    if (part.file.truncated) {
+                        throw new app.multipartErrors.RequestFileTooLargeError();
+                    }
+                    stored.push({
+                        id: currentId,
+                        filename: sanitizeFilename(part.filename),
+                        mimeType,
+                        size,
+                    });
+                    currentId = null;
+                }
+            } catch (err) {
+                await discardStored();
+                if (err instanceof app.multipartErrors.RequestFileTooLargeError) {
+                    return reply.code(413).send({ success: false, error: "File is too large" });
+                }
+                if (err instanceof app.multipartErrors.FilesLimitError) {
+                    return reply.code(400).send({
+                        success: false,
+                        error: `At most ${UPLOAD_MAX_FILES} files can be uploaded at once`,
+                    });
+                }
+                throw err;
+            }
+
+            if (stored.length === 0) {
+                return reply.code(400).send({ success: false, error: "No files uploaded" });
+            }
+
+            const attachments = await app.prisma.$transaction(
+                stored.map((file) =>
+                    app.prisma.attachment.create({
+                        data: { ...file, channelId, uploaderId: userId },
+                    }),
+                ),
+            );
+
+            app.log.info(
+                { userId, channelId, count: attachments.length },
+                "Attachments uploaded",
+            );
+
+            return { success: true, attachments: attachments.map(toAttachmentDto) };
+        },
+    );
+
+    // ── GET /attachments/:attachmentId/:filename ───────────────────────────
+    app.get<{
+        Params: { attachmentId: string; filename: string };
+        Querystring: { download?: string };
+    }>(
+        "/attachments/:attachmentId/:filename",
+        async (request, reply) => {
+            const attachment = await app.prisma.attachment.findUnique({
+                where: { id: request.params.attachmentId },
+                include: { message: { select: { deletedAt: true } } },
+            });
+
+            // Unsent uploads and attachments of deleted messages are not served
+            if (!attachment || !attachment.message || attachment.message.deletedAt) {
+                return reply.code(404).send({ error: "Attachment not found" });
+            }
+
+            // Only known-safe images render inline; everything else is a download
+            const inline = isPreviewableImage(attachment.mimeType) && request.query.download === undefined;
+            const disposition = inline ? "inline" : "attachment";
+
+            return reply
+                .header("Content-Type", attachment.mimeType)
+                .header("Content-Length", attachment.size)
+                .header("X-Content-Type-Options", "nosniff")
+                .header("Cache-Control", "private, max-age=86400")
+                .header(
+                    "Content-Disposition",
+                    `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+                )
+                .send(storage.read(attachment.id));
+        },
+    );
+}
@@ -0,0 +1,137 @@
+/**
+ * Auth Routes — HTTP endpoints for account registration and login.
+ *
+ * Routes: POST /auth/register, POST /auth/login, POST /auth/logout.
+ * A successful register/login returns a session token which the client
+ * then presents in the Socket.io handshake (`auth.token`). Repeated failed
+ * logins are throttled per username and per IP (see LoginThrottle).
+ */
+
+import type { FastifyInstance } from "fastify";
+import { Prisma } from "@prisma/client";
+import type { IAuthRequest, IAuthResponse, IUser } from "@reson8/shared-types";
+import {
+    hashPassword,
+    validateCredentials,
+    validateNickname,
+    verifyPassword,
+} from "../services/auth.service.js";
+import type { LoginThrottle } from "../services/login-throttle.service.js";
+import type { SessionService } from "../services/session.service.js";
+
+/** Maps a Prisma user row to the public IUser DTO. */
+function toUserDto(user: {
+    id: string;
+    username: string;
+    nickname: string;
+    createdAt: Date;
+}): IUser {
+    return {
+        id: user.id,
+        username: user.username,
+        nickname: user.nickname,
+        createdAt: user.createdAt.toISOString(),
+    };
+}
+
+/**
+ * Registers the /auth/* routes on the Fastify instance.
+ */
+export function registerAuthRoutes(
+    app: FastifyInstance,
+    sessions: SessionService,
+    throttle: LoginThrottle,
+): void {
+    // ── POST /auth/register ────────────────────────────────────────────────
+    app.post<{ Body: IAuthRequest; Reply: IAuthResponse }>(
+        "/auth/register",
+        async (request, reply) => {
+            const { username, password, nickname } = request.body ?? ({} as IAuthRequest);
+
+            const invalid = validateCredentials(username, password) ?? validateNickname(nickname);
+            if (invalid) {
+                return reply.code(400).send({ success: false, error: invalid });
+            }
+
+            const existing = await app.prisma.user.findUnique({
+                where: { username },
+            });
+            if (existing) {
+                return reply.code(409).send({ success: false, error: "Username is already taken" });
+            }
+
+            let user;
+            try {
+                user = await app.prisma.user.create({
+                    data: {
+                        username,
+                        nickname: nickname?.trim() || username,
+                        password: await hashPassword(password),
+                    },
+                });
+            } catch (err) {
+                // Lost a race with a concurrent registration of the same name
+                if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+                    return reply.code(409).send({ success: false, error: "Username is already taken" });
+                }
+                throw err;
+            }
+
+            const token = await sessions.create(user.id);
+            app.log.info({ userId: user.id, username }, "Account registered");
+
+            return { success: true, token, user: toUserDto(user) };
+        },
+    );
+
+    // ── POST /auth/login ───────────────────────────────────────────────────
+    app.post<{ Body: IAuthRequest; Reply: IAuthResponse }>(
+        "/auth/login",
+        async (request, reply) => {
+            const { username, password } = request.body ?? ({} as IAuthRequest);
+
+            if (typeof username !== "string" || typeof password !== "string") {
+                return reply.code(400).send({ success: false, error: "Username and password are required" });
+            }
+
+            const retryAfter = await throttle.retryAfter(username, request.ip);
+            if (retryAfter > 0) {
+                app.log.warn({ username, ip: request.ip }, "Login throttled");
+                return reply
+                    .code(429)
+                    .header("Retry-After", String(retryAfter))
+                    .send({ success: false, error: "Too many failed login attempts — try again later" });
+            }
+
+            const user = await app.prisma.user.findUnique({
+                where: { username },
+            });
+
+            // Same error for unknown user and wrong password — don't leak which one failed
+            if (!user || !(await verifyPassword(password, user.password))) {
+                await throttle.recordFailure(username, request.ip);
+                app.log.warn({ username }, "Failed login attempt");
+                return reply.code(401).send({ success: false, error: "Invalid username or password" });
+            }
+
+            await throttle.reset(username);
+
+            const token = await sessions.create(user.id);
+            app.log.info({ userId: user.id, username }, "User logged in");
+
+            return { success: true, token, user: toUserDto(user) };
+        },
+    );
+
+    // ── POST /auth/logout ──────────────────────────────────────────────────
+    app.post<{ Body: { token?: string }; Reply: IAuthResponse }>(
+        "/auth/logout",
+        async (request) => {
+            const token = request.body?.token;
+            if (token) {
+                await sessions.revoke(token);
+            }
+            return { success: true };
+        },
+    );
+}
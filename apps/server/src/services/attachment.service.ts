@@ -0,0 +1,147 @@
+/**
+ * Attachment Service — helpers for files shared in text channels.
+ *
+ * Files are uploaded over HTTP first (unlinked, owned by the uploader)
+ * and then attached to a message by passing their IDs to SEND_MESSAGE.
+ * Downloads are served from `/attachments/{id}/{filename}`; the random
+ * attachment ID is what makes the URL unguessable. Uploads that are
+ * never sent are removed by `purgeUnlinkedAttachments`.
+ *
+ * Databases seeded before attachments existed get ATTACH_FILES added to
+ * the Member role once, by `migrateMemberAttachFiles`.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import type { IAttachment } from "@reson8/shared-types";
+import { PermissionFlags } from "@reson8/shared-types";
+import type { FileStorage } from "./storage.service.js";
+
+/** Longest filename kept from an upload (extension included). */
+const MAX_FILENAME_LENGTH = 128;
+
+/**
+ * Returns `true` if the MIME type matches the allow-list. Entries ending
+ * in `/*` accept every subtype (e.g. `image/*`).
+ */
+export function isMimeAllowed(mimeType: string, allowList: readonly string[]): boolean {
+    const type = mimeType.trim().toLowerCase();
+    return allowList.some((allowed) =>
+        allowed.endsWith("/*")
+            ? type.startsWith(allowed.slice(0, -1))
+            : type === allowed,
+    );
+}
+
+/** Image types the client may render inline as previews. */
+export function isPreviewableImage(mimeType: string): boolean {
+    return ["image/png", "image/jpeg", "image/gif", "image/webp"].includes(mimeType);
+}
+
+/**
+ * Reduces an uploaded filename to something safe to store and echo back
+ * in headers: no path components, control characters or quotes, and a
+ * bounded length that keeps the extension.
+ */
+export function sanitizeFilename(filename: string): string {
+    const base = filename.split(/[\\/]/).pop() ?? "";
+    const cleaned = base
+        .replace(/[\x00-\x1f\x7f"]/g, "")
+        .trim()
+        .replace(/^\.+/, "");
+
+    if (!cleaned) return "file";
+    if (cleaned.length <= MAX_FILENAME_LENGTH) return cleaned;
+
+    const dot = cleaned.lastIndexOf(".");
+    const ext = dot > 0 && cleaned.length - dot <= 16 ? cleaned.slice(dot) : "";
+    return cleaned.slice(0, MAX_FILENAME_LENGTH - ext.length) + ext;
+}
+
+/** Server-relative download URL for an attachment. */
+export function attachmentUrl(id: string, filename: string): string {
+    return `/attachments/${id}/${encodeURIComponent(filename)}`;
+}
+
+/** Maps a Prisma attachment row to the IAttachment DTO. */
+export function toAttachmentDto(attachment: {
+    id: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+}): IAttachment {
+    return {
+        id: attachment.id,
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        url: attachmentUrl(attachment.id, attachment.filename),
+    };
+}
+
+/** Most unlinked uploads removed by one purge pass. */
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Deletes uploads that were never attached to a message and were created
+ * before `olderThan`, together with their stored files. Each row is only
+ * deleted while it is still unlinked, so a SEND_MESSAGE racing the purge
+ * keeps its files. Resolves to the number of attachments removed.
+ */
+export async function purgeUnlinkedAttachments(
+    prisma: PrismaClient,
+    storage: FileStorage,
+    olderThan: Date,
+): Promise<number> {
+    const stale = await prisma.attachment.findMany({
+        where: { messageId: null, createdAt: { lt: olderThan } },
+        select: { id: true },
+        orderBy: { createdAt: "asc" },
+        take: PURGE_BATCH_SIZE,
+    });
+
+    let removed = 0;
+    for (const { id } of stale) {
+        const { count } = await prisma.attachment.deleteMany({
+            where: { id, messageId: null },
+        });
+        if (count === 0) continue;
+        await storage.delete(id);
+        removed++;
+    }
+    return removed;
+}
+
+/** The data_migrations row recording that migrateMemberAttachFiles ran. */
+export const MEMBER_ATTACH_FILES_MIGRATION = "member-attach-files";
+
+/**
+ * Grants ATTACH_FILES to the default Member role (`role-default`), which
+ * the seed only sets on new databases. Runs once per database, so an
+ * admin who later takes the flag away again isn't overruled on the next
+ * boot.
+ *
+ * @returns `true` if the role was changed.
+ */
+export async function migrateMemberAttachFiles(prisma: PrismaClient): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+        // Claiming the row first also keeps a second server booting at the same time out
+        const { count: claimed } = await tx.dataMigration.createMany({
+            data: [{ name: MEMBER_ATTACH_FILES_MIGRATION }],
+            skipDuplicates: true,
+        });
+        if (claimed === 0) return false;
+
+        const role = await tx.role.findUnique({
+            where: { id: "role-default" },
+            select: { permissions: true },
+        });
+        const flag = BigInt(PermissionFlags.ATTACH_FILES);
+        if (!role || (role.permissions & flag) === flag) return false;
+
+        await tx.role.update({
+            where: { id: "role-default" },
+            data: { permissions: role.permissions | flag },
+        });
+        return true;
+    });
+}
@@ -0,0 +1,85 @@
+/**
+ * Auth Service — credential validation and password hashing for Reson8.
+ *
+ * Passwords are stored as bcrypt hashes in `User.password`.
+ * Guest users (instance-ID identities) carry the `GUEST_PASSWORD`
+ * sentinel instead, which can never match a real login attempt.
+ */
+
+import bcrypt from "bcryptjs";
+
+/** bcrypt cost factor. */
+const BCRYPT_ROUNDS = 12;
+
+/** Placeholder stored in `User.password` for guest (instance-ID) users. */
+export const GUEST_PASSWORD = "instance-auth";
+
+/** Username prefix for guest users — `:` is not allowed in real usernames. */
+export const GUEST_USERNAME_PREFIX = "guest:";
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+const PASSWORD_MIN_LENGTH = 8;
+const PASSWORD_MAX_LENGTH = 72; // bcrypt ignores bytes past 72
+
+// ---------------------------------------------------------------------------
+// Pure utility functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates a username/password pair for registration.
+ *
+ * @returns An error message, or `null` if the credentials are acceptable.
+ */
+export function validateCredentials(username: unknown, password: unknown): string | null {
+    if (typeof username !== "string" || !USERNAME_PATTERN.test(username)) {
+        return "Username must be 3-32 characters: letters, digits, '_', '.' or '-'";
+    }
+    if (typeof password !== "string") {
+        return "Password is required";
+    }
+    if (password.length < PASSWORD_MIN_LENGTH) {
+        return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+    }
+    if (password.length > PASSWORD_MAX_LENGTH) {
+        return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+    }
+    return null;
+}
+
+/**
+ * Validates the optional nickname sent on registration.
+ *
+ * @returns An error message, or `null` if it is absent or text.
+ */
+export function validateNickname(nickname: unknown): string | null {
+    if (nickname === undefined || nickname === null || typeof nickname === "string") return null;
+    return "Nickname must be text";
+}
+
+/** Returns `true` if the stored password belongs to a guest user. */
+export function isGuestPassword(stored: string): boolean {
+    return stored === GUEST_PASSWORD;
+}
+
+/** Returns `true` when guest (instance-ID) logins are enabled in server config. */
+export function guestAccessEnabled(): boolean {
+    return process.env.ALLOW_GUEST_ACCESS === "true";
+}
+
+// ---------------------------------------------------------------------------
+// Hashing
+// ---------------------------------------------------------------------------
+
+/** Hashes a plaintext password with bcrypt. */
+export async function hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+/**
+ * Compares a plaintext password against a stored hash.
+ * Always returns `false` for guest users.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    if (isGuestPassword(stored)) return false;
+    return bcrypt.compare(password, stored);
+}
@@ -8,14 +8,156 @@
  *
  * This is intentionally allocation-light and cache-friendly for
  * high-concurrency scenarios where the tree is rebuilt on every mutation.
+ *
+ * Categories used to be voice channels with children; migrateLegacyCategories
+ * converts those rows once, on the first startup after upgrading.
+ *
+ * Every tree change bumps the server's tree revision (bumpTreeRevision) and
+ * is sent to clients as a patch carrying it; loadChannelTree returns the
+ * full tree for clients that join or fall behind.
+ *
+ * Also plans channel moves (planChannelMove): re-parenting with cycle and
+ * depth checks, and renumbering the siblings at both ends so positions
+ * stay 0..n-1 under every parent. Deletes are planned the same way
+ * (planChannelDelete) and applied by deleteChannel.
+ */
+
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { Server as SocketIOServer } from "socket.io";
+import type {
+    ChannelType,
+    ClientToServerEvents,
+    IChannel,
+    IChannelAudioSettings,
+    IChannelTreeNode,
+    IUserPresence,
+    InterServerEvents,
+    ServerToClientEvents,
+    SocketData,
+} from "@reson8/shared-types";
+import { groupOccupantsByChannel } from "./presence.service.js";
+
+type TypedIO = SocketIOServer<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+/** The Channel columns that make up an IChannel. */
+export interface ChannelRow {
+    id: string;
+    serverId: string;
+    name: string;
+    type: string;
+    parentId: string | null;
+    position: number;
+    maxUsers: number | null;
+    topic: string | null;
+    description: string | null;
+    joinMessage: string | null;
+    audioBitrate: number;
+    audioStereo: boolean;
+    audioPtime: number;
+    audioFec: boolean;
+    audioDtx: boolean;
+    createdAt: Date;
+}
+
+/** Gathers a channel row's Opus columns. */
+export function toChannelAudio(row: Pick<
+    ChannelRow,
+    "audioBitrate" | "audioStereo" | "audioPtime" | "audioFec" | "audioDtx"
+>): IChannelAudioSettings {
+    return {
+        maxBitrate: row.audioBitrate,
+        stereo: row.audioStereo,
+        ptime: row.audioPtime,
+        fec: row.audioFec,
+        dtx: row.audioDtx,
+    };
+}
+
+/** Maps a Prisma Channel row to its IChannel DTO. */
+export function toChannelDto(row: ChannelRow): IChannel {
+    return {
+        id: row.id,
+        serverId: row.serverId,
+        name: row.name,
+        type: row.type as ChannelType,
+        parentId: row.parentId,
+        position: row.position,
+        maxUsers: row.maxUsers,
+        topic: row.topic,
+        description: row.description,
+        joinMessage: row.joinMessage,
+        audio: toChannelAudio(row),
+        createdAt: row.createdAt.toISOString(),
+    };
+}
+
+/** Longest allowed channel texts, in characters. */
+export const CHANNEL_TEXT_LIMITS = {
+    topic: 255,
+    description: 2000,
+    joinMessage: 1000,
+} as const;
+
+/** The UPDATE_CHANNEL fields describing a channel rather than placing it. */
+export interface ChannelInfo {
+    topic?: string | null;
+    description?: string | null;
+    joinMessage?: string | null;
+    maxUsers?: number | null;
+}
+
+const CHANNEL_TEXT_LABELS: Record<keyof typeof CHANNEL_TEXT_LIMITS, string> = {
+    topic: "Topic",
+    description: "Description",
+    joinMessage: "Join message",
+};
+
+/**
+ * Validates channel info from UPDATE_CHANNEL and normalises it for the
+ * database: texts are trimmed and blank ones become null. Fields left
+ * undefined stay undefined.
  */
+export function parseChannelInfo(
+    info: ChannelInfo,
+): { success: true; data: ChannelInfo } | { success: false; error: string } {
+    const data: ChannelInfo = {};
 
-import type { IChannel, IChannelTreeNode } from "@reson8/shared-types";
+    for (const field of Object.keys(CHANNEL_TEXT_LIMITS) as Array<keyof typeof CHANNEL_TEXT_LIMITS>) {
+        const value = info[field];
+        if (value === undefined) continue;
+        if (value !== null && typeof value !== "string") {
+            return { success: false, error: `${CHANNEL_TEXT_LABELS[field]} must be text` };
+        }
+        const text = value?.trim() || null;
+        if (text !== null && text.length > CHANNEL_TEXT_LIMITS[field]) {
+            return {
+                success: false,
+                error: `${CHANNEL_TEXT_LABELS[field]} can be at most ${CHANNEL_TEXT_LIMITS[field]} characters`,
+            };
+        }
+        data[field] = text;
+    }
+
+    if (info.maxUsers !== undefined) {
+        if (info.maxUsers !== null && (!Number.isInteger(info.maxUsers) || info.maxUsers < 1)) {
+            return { success: false, error: "User limit must be a whole number of at least 1" };
+        }
+        data.maxUsers = info.maxUsers;
+    }
+
+    return { success: true, data };
+}
 
 /**
  * Converts a flat array of channel records into a nested tree structure.
  *
  * @param channels - Flat array of channel records (e.g. from Prisma).
+ * @param occupants - Each channel's occupants, by channel ID (see groupOccupantsByChannel).
  * @returns Root-level nodes with nested `children` arrays, sorted by `position`.
  *
  * @example
@@ -25,7 +167,10 @@ import type { IChannel, IChannelTreeNode } from "@reson8/shared-types";
  * io.to(serverId).emit("CHANNEL_TREE_UPDATE", { serverId, tree });
  * ```
  */
-export function buildChannelTree(channels: IChannel[]): IChannelTreeNode[] {
+export function buildChannelTree(
+    channels: IChannel[],
+    occupants: ReadonlyMap<string, IUserPresence[]> = new Map(),
+): IChannelTreeNode[] {
     if (channels.length === 0) return [];
 
     // Step 1: Create a map of all nodes with empty children arrays
@@ -35,7 +180,7 @@ export function buildChannelTree(channels: IChannel[]): IChannelTreeNode[] {
         nodeMap.set(channel.id, {
             ...channel,
             children: [],
-            occupants: [], // populated separately from Redis presence
+            occupants: occupants.get(channel.id) ?? [],
         });
     }
 
@@ -72,3 +217,299 @@ export function buildChannelTree(channels: IChannel[]): IChannelTreeNode[] {
 
     return roots;
 }
+
+/** The data_migrations row recording that migrateLegacyCategories ran. */
+export const LEGACY_CATEGORIES_MIGRATION = "legacy-categories";
+
+/**
+ * Turns voice channels that have children (the old way of making a
+ * category) into CATEGORY channels. Runs once per database: later boots
+ * find the migration recorded and leave voice channels with sub-channels
+ * alone.
+ *
+ * @returns How many channels were converted (0 once it has run).
+ */
+export async function migrateLegacyCategories(prisma: PrismaClient): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+        // Claiming the row first also keeps a second server booting at the same time out
+        const { count: claimed } = await tx.dataMigration.createMany({
+            data: [{ name: LEGACY_CATEGORIES_MIGRATION }],
+            skipDuplicates: true,
+        });
+        if (claimed === 0) return 0;
+
+        const { count } = await tx.channel.updateMany({
+            where: { type: "VOICE", children: { some: {} } },
+            data: { type: "CATEGORY" },
+        });
+        return count;
+    });
+}
+
+// ── Tree revisions ─────────────────────────────────────────────────────────
+
+/**
+ * Increments a server's channel tree revision inside a transaction and
+ * returns the new value. Call it before changing any channels: the server
+ * row stays locked until commit, which serialises tree changes per server.
+ */
+export async function bumpTreeRevision(
+    tx: Prisma.TransactionClient,
+    serverId: string,
+): Promise<number> {
+    const server = await tx.server.update({
+        where: { id: serverId },
+        data: { channelTreeRevision: { increment: 1 } },
+        select: { channelTreeRevision: true },
+    });
+    return server.channelTreeRevision;
+}
+
+/**
+ * Loads a server's channel tree with the revision it's at, occupants
+ * included. The revision is read first, so a change committed in between
+ * shows up in the tree and again as a patch, which clients apply
+ * idempotently. Occupants come from one lookup of the server's sockets,
+ * the same room state PRESENCE_UPDATEs are built from.
+ */
+export async function loadChannelTree(
+    prisma: PrismaClient,
+    io: TypedIO,
+    serverId: string,
+): Promise<{ tree: IChannelTreeNode[]; revision: number }> {
+    const server = await prisma.server.findUnique({
+        where: { id: serverId },
+        select: { channelTreeRevision: true },
+    });
+    const [channels, sockets] = await Promise.all([
+        prisma.channel.findMany({
+            where: { serverId },
+            orderBy: { position: "asc" },
+        }),
+        io.in(`server:${serverId}`).fetchSockets(),
+    ]);
+    return {
+        tree: buildChannelTree(
+            channels.map(toChannelDto),
+            groupOccupantsByChannel(sockets.map((s) => s.data)),
+        ),
+        revision: server?.channelTreeRevision ?? 0,
+    };
+}
+
+// ── Moving channels ────────────────────────────────────────────────────────
+
+/** Deepest allowed nesting; root channels are at depth 1. */
+export const MAX_CHANNEL_DEPTH = 5;
+
+/** Where a channel sits in the tree. */
+export interface ChannelPlacement {
+    id: string;
+    parentId: string | null;
+    position: number;
+}
+
+export type ChannelMovePlan =
+    | { success: true; updates: ChannelPlacement[] }
+    | { success: false; error: string };
+
+/**
+ * Depth of a channel (1 for a root channel). A parent pointing nowhere
+ * counts as root, matching buildChannelTree's orphan handling.
+ */
+export function getChannelDepth(channels: ChannelPlacement[], channelId: string): number {
+    const parentOf = new Map(channels.map((c) => [c.id, c.parentId]));
+    let depth = 1;
+    let parentId = parentOf.get(channelId) ?? null;
+    // Bounded by the channel count in case the stored tree already has a cycle
+    while (parentId !== null && parentOf.has(parentId) && depth <= channels.length) {
+        depth++;
+        parentId = parentOf.get(parentId) ?? null;
+    }
+    return depth;
+}
+
+/** Number of levels in a channel's subtree, counting the channel itself. */
+function getSubtreeHeight(channels: ChannelPlacement[], channelId: string): number {
+    const childrenOf = new Map<string, string[]>();
+    for (const c of channels) {
+        if (c.parentId === null) continue;
+        const siblings = childrenOf.get(c.parentId) ?? [];
+        siblings.push(c.id);
+        childrenOf.set(c.parentId, siblings);
+    }
+
+    let height = 0;
+    let level = [channelId];
+    const seen = new Set<string>();
+    while (level.length > 0) {
+        height++;
+        const next: string[] = [];
+        for (const id of level) {
+            if (seen.has(id)) continue;
+            seen.add(id);
+            next.push(...(childrenOf.get(id) ?? []));
+        }
+        level = next;
+    }
+    return height;
+}
+
+/**
+ * Plans moving `channelId` under `newParentId` (null = root) at index
+ * `newPosition` among its new siblings (clamped to the ends).
+ *
+ * Rejects moving a channel into itself or one of its descendants, and moves
+ * that would nest anything deeper than MAX_CHANNEL_DEPTH. Siblings at the
+ * old and new parent are renumbered 0..n-1; only rows whose parent or
+ * position actually change are returned.
+ */
+export function planChannelMove(
+    channels: ChannelPlacement[],
+    channelId: string,
+    newParentId: string | null,
+    newPosition: number,
+): ChannelMovePlan {
+    const byId = new Map(channels.map((c) => [c.id, c]));
+    const moved = byId.get(channelId);
+    if (!moved) return { success: false, error: "Channel not found" };
+    if (!Number.isFinite(newPosition)) return { success: false, error: "Invalid position" };
+
+    if (newParentId !== null) {
+        if (!byId.has(newParentId)) return { success: false, error: "Parent channel not found" };
+
+        // Walk up from the new parent: meeting the moved channel means a cycle
+        let ancestorId: string | null = newParentId;
+        for (let steps = 0; ancestorId !== null && steps <= channels.length; steps++) {
+            if (ancestorId === channelId) {
+                return { success: false, error: "Cannot move a channel into itself or its sub-channels" };
+            }
+            ancestorId = byId.get(ancestorId)?.parentId ?? null;
+        }
+
+        const depth = getChannelDepth(channels, newParentId) + getSubtreeHeight(channels, channelId);
+        if (depth > MAX_CHANNEL_DEPTH) {
+            return {
+                success: false,
+                error: `Channels can only be nested ${MAX_CHANNEL_DEPTH} levels deep`,
+            };
+        }
+    }
+
+    const siblingsOf = (parentId: string | null): ChannelPlacement[] =>
+        channels
+            .filter((c) => c.parentId === parentId && c.id !== channelId)
+            .sort((a, b) => a.position - b.position);
+
+    const placements = new Map<string, ChannelPlacement>();
+
+    // Close the gap at the old parent
+    if (moved.parentId !== newParentId) {
+        siblingsOf(moved.parentId).forEach((c, position) => {
+            placements.set(c.id, { id: c.id, parentId: moved.parentId, position });
+        });
+    }
+
+    // Insert at the new parent
+    const target = siblingsOf(newParentId);
+    const index = Math.max(0, Math.min(Math.trunc(newPosition), target.length));
+    target.splice(index, 0, moved);
+    target.forEach((c, position) => {
+        placements.set(c.id, { id: c.id, parentId: newParentId, position });
+    });
+
+    const updates = [...placements.values()].filter((p) => {
+        const current = byId.get(p.id)!;
+        return current.parentId !== p.parentId || current.position !== p.position;
+    });
+    return { success: true, updates };
+}
+
+/**
+ * Plans the placements left behind by deleting `channelId`: its siblings
+ * close the gap, and its children (set to root by the schema) are appended
+ * after the existing root channels in their current order. Only rows whose
+ * parent or position actually change are returned.
+ */
+export function planChannelDelete(channels: ChannelPlacement[], channelId: string): ChannelPlacement[] {
+    const byId = new Map(channels.map((c) => [c.id, c]));
+    const deleted = byId.get(channelId);
+    if (!deleted) return [];
+
+    const childrenOf = (parentId: string | null): ChannelPlacement[] =>
+        channels
+            .filter((c) => c.parentId === parentId && c.id !== channelId)
+            .sort((a, b) => a.position - b.position);
+
+    const placements = new Map<string, ChannelPlacement>();
+
+    // Close the gap at the old parent (the root is renumbered below)
+    if (deleted.parentId !== null) {
+        childrenOf(deleted.parentId).forEach((c, position) => {
+            placements.set(c.id, { id: c.id, parentId: deleted.parentId, position });
+        });
+    }
+
+    [...childrenOf(null), ...childrenOf(channelId)].forEach((c, position) => {
+        placements.set(c.id, { id: c.id, parentId: null, position });
+    });
+
+    return [...placements.values()].filter((p) => {
+        const current = byId.get(p.id)!;
+        return current.parentId !== p.parentId || current.position !== p.position;
+    });
+}
+
+/** The patches a channel delete is broadcast as. */
+export interface ChannelDeleteResult {
+    /** Revision of the CHANNEL_REMOVED patch. */
+    revision: number;
+    /** CHANNEL_UPDATED patch for the renumbered rows (null if none moved). */
+    renumbered: { revision: number; channels: ChannelRow[] } | null;
+}
+
+/**
+ * Deletes a channel and applies planChannelDelete in one transaction.
+ * Removal and renumbering are sent as two patches, so they take a
+ * revision each: CHANNEL_REMOVED at n, CHANNEL_UPDATED at n + 1.
+ */
+export async function deleteChannel(
+    prisma: PrismaClient,
+    serverId: string,
+    channelId: string,
+): Promise<ChannelDeleteResult> {
+    return prisma.$transaction(async (tx) => {
+        const revision = await bumpTreeRevision(tx, serverId);
+        const channels = await tx.channel.findMany({
+            where: { serverId },
+            select: { id: true, parentId: true, position: true },
+        });
+        const updates = planChannelDelete(channels, channelId);
+
+        // Cascade: Prisma schema has onDelete: Cascade for messages,
+        // and onDelete: SetNull for children
+        await tx.channel.delete({
+            where: { id: channelId },
+        });
+
+        if (updates.length === 0) return { revision, renumbered: null };
+
+        const renumberRevision = await bumpTreeRevision(tx, serverId);
+        for (const update of updates) {
+            await tx.channel.update({
+                where: { id: update.id },
+                data: { parentId: update.parentId, position: update.position },
+            });
+        }
+        return {
+            revision,
+            renumbered: {
+                revision: renumberRevision,
+                channels: await tx.channel.findMany({
+                    where: { id: { in: updates.map((u) => u.id) } },
+                    orderBy: { position: "asc" },
+                }),
+            },
+        };
+    });
+}
@@ -0,0 +1,111 @@
+/**
+ * Direct Message Service — helpers for private conversations.
+ *
+ * A conversation is identified by its exact member set: messaging the same
+ * recipients again reuses the existing conversation. Messages are delivered
+ * through per-user rooms (`user:{userId}`), which every socket joins when it
+ * joins the server, so all of a member's clients receive them.
+ *
+ * A block is stored one-way but enforced both ways: a user can't send to a
+ * conversation containing someone they blocked or someone who blocked them.
+ */
+
+import type { PrismaClient } from "@prisma/client";
+import type { IConversation, IDirectMessage } from "@reson8/shared-types";
+
+/** Largest conversation, sender included. */
+export const MAX_CONVERSATION_MEMBERS = 10;
+
+/** Prisma `include` for loading conversations as DTOs. */
+export const CONVERSATION_INCLUDE = {
+    members: {
+        include: { user: { select: { nickname: true } } },
+        orderBy: { joinedAt: "asc" },
+    },
+} as const;
+
+/** Socket.io room holding every socket of one user. */
+export function userRoom(userId: string): string {
+    return `user:${userId}`;
+}
+
+/**
+ * Validates the recipients of a new conversation: unique user IDs, without
+ * the sender, within the member limit. Returns the cleaned list, or an error
+ * message.
+ */
+export function normalizeRecipients(
+    senderId: string,
+    recipientIds: unknown,
+): string[] | string {
+    if (!Array.isArray(recipientIds) || !recipientIds.every((id) => typeof id === "string" && id)) {
+        return "Invalid recipients";
+    }
+
+    const unique = [...new Set(recipientIds as string[])].filter((id) => id !== senderId);
+    if (unique.length === 0) {
+        return "Choose at least one recipient";
+    }
+    if (unique.length + 1 > MAX_CONVERSATION_MEMBERS) {
+        return `Conversations are limited to ${MAX_CONVERSATION_MEMBERS} members`;
+    }
+    return unique;
+}
+
+/**
+ * Returns `true` if the sender has blocked any of the other members, or
+ * any of them has blocked the sender.
+ */
+export async function isBlockedBetween(
+    prisma: PrismaClient,
+    senderId: string,
+    otherIds: string[],
+): Promise<boolean> {
+    if (otherIds.length === 0) return false;
+    const block = await prisma.userBlock.findFirst({
+        where: {
+            OR: [
+                { blockerId: { in: otherIds }, blockedId: senderId },
+                { blockerId: senderId, blockedId: { in: otherIds } },
+            ],
+        },
+    });
+    return block !== null;
+}
+
+/** Maps a Prisma conversation (with CONVERSATION_INCLUDE) to the DTO. */
+export function toConversationDto(conversation: {
+    id: string;
+    lastActivityAt: Date;
+    members: Array<{ userId: string; user: { nickname: string } }>;
+}): IConversation {
+    return {
+        id: conversation.id,
+        members: conversation.members.map((m) => ({
+            userId: m.userId,
+            nickname: m.user.nickname,
+        })),
+        lastActivityAt: conversation.lastActivityAt.toISOString(),
+    };
+}
+
+/** Maps a Prisma direct message row to the IDirectMessage DTO. */
+export function toDirectMessageDto(
+    message: {
+        id: string;
+        conversationId: string;
+        userId: string;
+        content: string;
+        createdAt: Date;
+    },
+    nickname: string,
+): IDirectMessage {
+    return {
+        id: message.id,
+        conversationId: message.conversationId,
+        userId: message.userId,
+        nickname,
+        content: message.content,
+        createdAt: message.createdAt.toISOString(),
+    };
+}
@@ -0,0 +1,63 @@
+/**
+ * Login Throttle — Redis-backed failed-login counters for Reson8.
+ *
+ * Failed logins are counted per username and per client IP. Each counter
+ * expires `FAILURE_WINDOW` seconds after its first failure; while either
+ * one is at its limit, login attempts are refused without checking the
+ * password. A successful login clears the username's counter.
+ *
+ * Key schema:
+ *   login-failures:user:{username}  → STRING failure count
+ *   login-failures:ip:{ip}          → STRING failure count
+ */
+
+import type { Redis } from "ioredis";
+
+const KEY = {
+    user: (username: string) => `login-failures:user:${username}`,
+    ip: (ip: string) => `login-failures:ip:${ip}`,
+} as const;
+
+/** How long failures are remembered (seconds). */
+const FAILURE_WINDOW = 15 * 60; // 15 minutes
+
+/** Failed attempts allowed per username within the window. */
+export const MAX_FAILURES_PER_USER = 5;
+
+/** Failed attempts allowed per client IP within the window (any username). */
+export const MAX_FAILURES_PER_IP = 20;
+
+export class LoginThrottle {
+    constructor(private readonly redis: Redis) { }
+
+    /**
+     * Seconds until a login for `username` from `ip` may be attempted,
+     * or 0 if it may be attempted now.
+     */
+    async retryAfter(username: string, ip: string): Promise<number> {
+        const [userFailures, ipFailures] = await this.redis.mget(KEY.user(username), KEY.ip(ip));
+
+        const blocked: string[] = [];
+        if (Number(userFailures) >= MAX_FAILURES_PER_USER) blocked.push(KEY.user(username));
+        if (Number(ipFailures) >= MAX_FAILURES_PER_IP) blocked.push(KEY.ip(ip));
+        if (blocked.length === 0) return 0;
+
+        const ttls = await Promise.all(blocked.map((key) => this.redis.ttl(key)));
+        return Math.max(1, ...ttls);
+    }
+
+    /** Counts a failed login; the window starts at a counter's first failure. */
+    async recordFailure(username: string, ip: string): Promise<void> {
+        const pipe = this.redis.pipeline();
+        for (const key of [KEY.user(username), KEY.ip(ip)]) {
+            pipe.incr(key);
+            pipe.expire(key, FAILURE_WINDOW, "NX");
+        }
+        await pipe.exec();
+    }
+
+    /** Forgets a username's failures after a successful login. */
+    async reset(username: string): Promise<void> {
+        await this.redis.del(KEY.user(username));
+    }
+}
@@ -7,14 +7,25 @@
  * Workers are assigned to new Routers via round-robin.
  * Routers are lazily created when the first user joins a voice channel,
  * and cleaned up when the last user leaves.
+ *
+ * Each Router gets an AudioLevelObserver; whenever the set of speaking
+ * users changes, the registered ActiveSpeakersListener is called.
+ *
+ * Opus settings are per channel: clients produce with them, and producers
+ * declaring more than the channel's bitrate cap are refused.
  */
 
 import * as mediasoup from "mediasoup";
 import type { types as mediasoupTypes } from "mediasoup";
+import type { IChannelAudioSettings } from "@reson8/shared-types";
 import {
     NUM_WORKERS,
     WORKER_SETTINGS,
     MEDIA_CODECS,
+    AUDIO_LEVEL_OBSERVER_OPTIONS,
+    OPUS_MIN_BITRATE,
+    OPUS_MAX_BITRATE,
+    OPUS_PTIMES,
     getTransportOptions,
 } from "../config/mediasoup.config.js";
 
@@ -26,6 +37,59 @@ export interface UserVoiceSession {
     consumers: Map<string, mediasoupTypes.Consumer>; // keyed by consumerId
 }
 
+/** Called with a channel's speaking userIds whenever that set changes. */
+export type ActiveSpeakersListener = (channelId: string, userIds: string[]) => void;
+
+/**
+ * Maps an observer "volumes" event to the speaking userIds (taken from the
+ * producers' appData), sorted and de-duplicated so sets can be compared.
+ */
+export function toActiveSpeakers(
+    volumes: Array<{ producer: { appData: Record<string, unknown> } }>,
+): string[] {
+    const userIds = new Set<string>();
+    for (const { producer } of volumes) {
+        const userId = producer.appData.userId;
+        if (typeof userId === "string") userIds.add(userId);
+    }
+    return [...userIds].sort();
+}
+
+/**
+ * Checks a (partial) channel audio update. Returns an error message, or
+ * null when every provided field is valid.
+ */
+export function validateChannelAudio(audio: Partial<IChannelAudioSettings>): string | null {
+    const { maxBitrate, stereo, ptime, fec, dtx } = audio;
+    if (
+        maxBitrate !== undefined &&
+        (!Number.isInteger(maxBitrate) || maxBitrate < OPUS_MIN_BITRATE || maxBitrate > OPUS_MAX_BITRATE)
+    ) {
+        return `Bitrate must be between ${OPUS_MIN_BITRATE / 1000} and ${OPUS_MAX_BITRATE / 1000} kbps`;
+    }
+    if (ptime !== undefined && !OPUS_PTIMES.includes(ptime)) {
+        return `Packet time must be one of ${OPUS_PTIMES.join(", ")} ms`;
+    }
+    for (const flag of [stereo, fec, dtx]) {
+        if (flag !== undefined && typeof flag !== "boolean") return "Invalid audio settings";
+    }
+    return null;
+}
+
+/**
+ * Whether a producer's RTP parameters break a channel's bitrate cap. Every
+ * encoding must declare a `maxBitrate` at or below the cap — one without a
+ * limit could send at Opus' full rate.
+ */
+export function exceedsBitrateCap(
+    rtpParameters: { encodings?: Array<{ maxBitrate?: number }> },
+    maxBitrate: number,
+): boolean {
+    const encodings = rtpParameters.encodings ?? [];
+    if (encodings.length === 0) return true;
+    return encodings.some((e) => e.maxBitrate === undefined || e.maxBitrate > maxBitrate);
+}
+
 export class MediasoupService {
     private workers: mediasoupTypes.Worker[] = [];
     private nextWorkerIdx = 0;
@@ -36,6 +100,11 @@ export class MediasoupService {
     /** channelId → Map<userId, UserVoiceSession> */
     private sessions = new Map<string, Map<string, UserVoiceSession>>();
 
+    /** channelId → AudioLevelObserver on that channel's Router */
+    private audioObservers = new Map<string, mediasoupTypes.AudioLevelObserver>();
+
+    private activeSpeakersListener: ActiveSpeakersListener | null = null;
+
     // ── Initialization ────────────────────────────────────────────────────
 
     /** Spawns the Worker pool. Must be called once at server startup. */
@@ -76,6 +145,18 @@ export class MediasoupService {
         this.routers.set(channelId, router);
         this.sessions.set(channelId, new Map());
 
+        const observer = await router.createAudioLevelObserver(AUDIO_LEVEL_OBSERVER_OPTIONS);
+        let lastSpeakers = "";
+        const report = (userIds: string[]) => {
+            const key = userIds.join(",");
+            if (key === lastSpeakers) return;
+            lastSpeakers = key;
+            this.activeSpeakersListener?.(channelId, userIds);
+        };
+        observer.on("volumes", (volumes) => report(toActiveSpeakers(volumes)));
+        observer.on("silence", () => report([]));
+        this.audioObservers.set(channelId, observer);
+
         console.log(`[mediasoup] Router created for channel ${channelId}`);
         return router;
     }
@@ -84,9 +165,10 @@ export class MediasoupService {
     removeRouter(channelId: string): void {
         const router = this.routers.get(channelId);
         if (router) {
-            router.close();
+            router.close(); // also closes its audio level observer
             this.routers.delete(channelId);
             this.sessions.delete(channelId);
+            this.audioObservers.delete(channelId);
             console.log(`[mediasoup] Router destroyed for channel ${channelId}`);
         }
     }
@@ -96,6 +178,24 @@ export class MediasoupService {
         return this.routers.get(channelId);
     }
 
+    // ── Speaking indicators ───────────────────────────────────────────────
+
+    /** Registers the callback for changes in a channel's speaking users. */
+    setActiveSpeakersListener(listener: ActiveSpeakersListener): void {
+        this.activeSpeakersListener = listener;
+    }
+
+    /**
+     * Adds a producer to its channel's audio level observer. The producer
+     * must carry `appData.userId`. Closed producers drop out on their own.
+     */
+    async observeProducer(
+        channelId: string,
+        producer: mediasoupTypes.Producer,
+    ): Promise<void> {
+        await this.audioObservers.get(channelId)?.addProducer({ producerId: producer.id });
+    }
+
     // ── Transport management ──────────────────────────────────────────────
 
     /** Creates a WebRtcTransport on a given Router. */
@@ -162,6 +262,30 @@ export class MediasoupService {
         return producers;
     }
 
+    /**
+     * Enforces moderator restrictions on a user's session: a server-muted
+     * user's producer and a server-deafened user's consumers are paused
+     * here, so nothing the client does can get around it.
+     */
+    async applyVoiceRestrictions(
+        channelId: string,
+        userId: string,
+        restrictions: { muted: boolean; deafened: boolean },
+    ): Promise<void> {
+        const session = this.sessions.get(channelId)?.get(userId);
+        if (!session) return;
+
+        if (session.producer) {
+            if (restrictions.muted) await session.producer.pause();
+            else await session.producer.resume();
+        }
+
+        for (const consumer of session.consumers.values()) {
+            if (restrictions.deafened) await consumer.pause();
+            else await consumer.resume();
+        }
+    }
+
     /** Cleans up all voice resources for a user leaving a channel. */
     cleanupUserSession(channelId: string, userId: string): void {
         const session = this.sessions.get(channelId)?.get(userId);
@@ -206,6 +330,7 @@ export class MediasoupService {
         this.workers = [];
         this.routers.clear();
         this.sessions.clear();
+        this.audioObservers.clear();
         console.log("[mediasoup] All workers closed");
     }
 }
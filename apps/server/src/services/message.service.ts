@@ -0,0 +1,155 @@
+/**
+ * Message Service — text chat helpers for Reson8.
+ *
+ * Live messages are delivered through per-channel subscription rooms
+ * (`chat:{channelId}`), which a client joins while it has the channel's
+ * chat tab open. Everyone else who can read the channel only gets a
+ * lightweight MESSAGE_NOTIFICATION for unread counts and mentions.
+ *
+ * Edits keep the previous content as a MessageRevision and deletes are
+ * soft (`deletedAt`), so moderators can always review what was said.
+ *
+ * Message DTOs carry a short preview of the message they reply to and
+ * reaction counts grouped by emoji, so history needs no extra round trips.
+ */
+
+import type { IMessage, IMessageReplyPreview, IReactionSummary } from "@reson8/shared-types";
+import { toAttachmentDto } from "./attachment.service.js";
+
+/** Maximum length of the quoted content in a reply preview. */
+export const REPLY_PREVIEW_LENGTH = 100;
+
+/** Maximum length of a reaction (a single emoji, possibly with modifiers/ZWJ). */
+const MAX_REACTION_LENGTH = 32;
+
+/**
+ * Prisma `include` for loading messages as DTOs: author nickname, the
+ * replied-to message with its author, and reactions and attachments in
+ * insertion order.
+ */
+export const MESSAGE_DTO_INCLUDE = {
+    user: { select: { nickname: true } },
+    replyTo: { include: { user: { select: { nickname: true } } } },
+    reactions: {
+        select: { emoji: true, userId: true },
+        orderBy: { createdAt: "asc" },
+    },
+    attachments: { orderBy: { createdAt: "asc" } },
+} as const;
+
+interface ReplySource {
+    id: string;
+    userId: string;
+    content: string;
+    deletedAt: Date | null;
+    user: { nickname: string };
+}
+
+/** Socket.io room holding a text channel's subscribers. */
+export function chatRoom(channelId: string): string {
+    return `chat:${channelId}`;
+}
+
+/** Escapes a string for literal use inside a RegExp. */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Returns `true` if the message content @-mentions the given nickname.
+ * Matching is case-insensitive and the mention must stand on its own,
+ * so `@bob` does not match inside `@bobby` or `email@bob`.
+ */
+export function isMentioned(content: string, nickname: string): boolean {
+    if (!nickname) return false;
+    const pattern = new RegExp(
+        `(^|\\s)@${escapeRegExp(nickname)}(?=$|[\\s.,!?:;)])`,
+        "i",
+    );
+    return pattern.test(content);
+}
+
+/**
+ * Returns `true` if the string is acceptable as a reaction: a short,
+ * non-blank token without whitespace that contains at least one
+ * non-ASCII character (plain words aren't emoji).
+ */
+export function isValidReaction(emoji: unknown): emoji is string {
+    return (
+        typeof emoji === "string" &&
+        emoji.length > 0 &&
+        emoji.length <= MAX_REACTION_LENGTH &&
+        !/\s/.test(emoji) &&
+        /[^\x00-\x7f]/.test(emoji)
+    );
+}
+
+/**
+ * Groups reaction rows by emoji. Emojis keep the order in which they were
+ * first added, so reactions don't jump around as counts change.
+ */
+export function summarizeReactions(
+    reactions: ReadonlyArray<{ emoji: string; userId: string }>,
+): IReactionSummary[] {
+    const byEmoji = new Map<string, IReactionSummary>();
+    for (const { emoji, userId } of reactions) {
+        let summary = byEmoji.get(emoji);
+        if (!summary) {
+            summary = { emoji, count: 0, userIds: [] };
+            byEmoji.set(emoji, summary);
+        }
+        summary.count++;
+        summary.userIds.push(userId);
+    }
+    return [...byEmoji.values()];
+}
+
+/** Builds the quote shown above a reply. Deleted originals show no content. */
+export function toReplyPreview(source: ReplySource): IMessageReplyPreview {
+    const deleted = source.deletedAt !== null;
+    const content = deleted
+        ? ""
+        : source.content.length > REPLY_PREVIEW_LENGTH
+            ? `${source.content.slice(0, REPLY_PREVIEW_LENGTH - 1)}…`
+            : source.content;
+
+    return {
+        id: source.id,
+        userId: source.userId,
+        nickname: source.user.nickname,
+        content,
+        deleted,
+    };
+}
+
+/**
+ * Maps a Prisma message row to the IMessage DTO. `replyTo`, `reactions`
+ * and `attachments` are optional so freshly created rows can be mapped too.
+ */
+export function toMessageDto(
+    message: {
+        id: string;
+        channelId: string;
+        userId: string;
+        content: string;
+        createdAt: Date;
+        editedAt: Date | null;
+        replyTo?: ReplySource | null;
+        reactions?: ReadonlyArray<{ emoji: string; userId: string }>;
+        attachments?: ReadonlyArray<{ id: string; filename: string; mimeType: string; size: number }>;
+    },
+    nickname: string,
+): IMessage {
+    return {
+        id: message.id,
+        channelId: message.channelId,
+        userId: message.userId,
+        nickname,
+        content: message.content,
+        createdAt: message.createdAt.toISOString(),
+        editedAt: message.editedAt?.toISOString() ?? null,
+        replyTo: message.replyTo ? toReplyPreview(message.replyTo) : null,
+        reactions: summarizeReactions(message.reactions ?? []),
+        attachments: (message.attachments ?? []).map(toAttachmentDto),
+    };
+}
@@ -0,0 +1,63 @@
+/**
+ * Moderation Service — ban lookups for Reson8.
+ *
+ * Bans are stored one-per-user-per-server in the `bans` table.
+ * A ban with `expiresAt = null` is permanent; otherwise it stops
+ * applying once `expiresAt` has passed (expired rows are left in place
+ * and simply ignored, and get replaced by the next ban).
+ *
+ * checkServerJoin is the gate USER_JOIN_SERVER runs before touching any
+ * state: the server must exist and the user must not be banned from it.
+ */
+
+import type { PrismaClient, Ban, Server } from "@prisma/client";
+
+/** Returns `true` if the ban is still in effect at `now`. */
+export function isBanActive(
+    ban: { expiresAt: Date | null },
+    now: Date = new Date(),
+): boolean {
+    return ban.expiresAt === null || ban.expiresAt.getTime() > now.getTime();
+}
+
+/** Returns the user's active ban on a server, or `null` if not banned. */
+export async function findActiveBan(
+    prisma: PrismaClient,
+    userId: string,
+    serverId: string,
+): Promise<Ban | null> {
+    const ban = await prisma.ban.findUnique({
+        where: { serverId_userId: { serverId, userId } },
+    });
+    return ban && isBanActive(ban) ? ban : null;
+}
+
+/** Human-readable description of a ban, shown to the banned user. */
+export function describeBan(ban: { reason: string | null; expiresAt: Date | null }): string {
+    const until = ban.expiresAt ? ` until ${ban.expiresAt.toISOString()}` : " permanently";
+    const reason = ban.reason ? `: ${ban.reason}` : "";
+    return `You are banned from this server${until}${reason}`;
+}
+
+export type ServerJoinCheck =
+    | { success: true; server: Server }
+    | { success: false; error: string };
+
+/**
+ * Checks that `serverId` names an existing server and that the user isn't
+ * banned from it. Unknown IDs are refused rather than skipped, so a made-up
+ * ID can't be used to get past the ban (no ban exists for it).
+ */
+export async function checkServerJoin(
+    prisma: PrismaClient,
+    userId: string,
+    serverId: string,
+): Promise<ServerJoinCheck> {
+    const server = await prisma.server.findUnique({ where: { id: serverId } });
+    if (!server) return { success: false, error: "Server not found" };
+
+    const ban = await findActiveBan(prisma, userId, serverId);
+    if (ban) return { success: false, error: describeBan(ban) };
+
+    return { success: true, server };
+}
@@ -5,7 +5,10 @@
  * permission flag (see PermissionFlags in shared-types).
  *
  * A user's effective permissions are the bitwise OR of all their
- * roles' permission values.
+ * roles' permission values. Inside a channel, those base permissions are
+ * then adjusted by the channel permission overrides along the channel's
+ * ancestry (root first), so a sub-channel inherits its parents' overrides
+ * and can refine them.
  */
 
 import type { PrismaClient } from "@prisma/client";
@@ -36,6 +39,110 @@ export function isAdmin(userPerms: bigint): boolean {
     return (userPerms & BigInt(PermissionFlags.ADMIN)) === BigInt(PermissionFlags.ADMIN);
 }
 
+/**
+ * Returns `true` if an actor may moderate (kick, ban, …) a target.
+ * The actor's power level must be strictly higher than the target's.
+ */
+export function canModerate(actorPowerLevel: number, targetPowerLevel: number): boolean {
+    return actorPowerLevel > targetPowerLevel;
+}
+
+/** Bitmask of every defined PermissionFlags bit. */
+export const ALL_PERMISSIONS: bigint = Object.values(PermissionFlags)
+    .filter((v): v is number => typeof v === "number")
+    .reduce((acc, flag) => acc | BigInt(flag), 0n);
+
+/**
+ * Parses a permission bitfield sent over the wire as a decimal string.
+ * Returns `null` if it isn't a non-negative integer or sets unknown bits.
+ */
+export function parsePermissions(value: unknown): bigint | null {
+    if (typeof value !== "string" || !/^\d+$/.test(value)) return null;
+    const perms = BigInt(value);
+    return (perms & ~ALL_PERMISSIONS) === 0n ? perms : null;
+}
+
+/**
+ * Returns `true` if an actor may hand out the requested permissions.
+ * Non-admins can only grant flags they hold themselves.
+ */
+export function canGrantPermissions(actorPerms: bigint, requested: bigint): boolean {
+    if (isAdmin(actorPerms)) return true;
+    return (requested & actorPerms) === requested;
+}
+
+/**
+ * Returns why an actor may not add or remove a role for a target, or
+ * `null` if they may. Both the role and the target must rank strictly
+ * below the actor, and adding a role must not grant permissions the
+ * actor lacks.
+ */
+export function checkRoleAssignment(
+    actor: { powerLevel: number; permissions: bigint },
+    targetPowerLevel: number,
+    role: { powerLevel: number; permissions: bigint },
+    action: "add" | "remove",
+): string | null {
+    if (!canModerate(actor.powerLevel, role.powerLevel)) {
+        return "You can only assign roles below your own power level";
+    }
+    if (!canModerate(actor.powerLevel, targetPowerLevel)) {
+        return "You can only change roles of users below your own power level";
+    }
+    if (action === "add" && !canGrantPermissions(actor.permissions, role.permissions)) {
+        return "You cannot grant permissions you do not have";
+    }
+    return null;
+}
+
+/** A channel override with its bits already parsed. */
+export interface PermissionOverride {
+    roleId: string | null;
+    userId: string | null;
+    allow: bigint;
+    deny: bigint;
+}
+
+/**
+ * Applies channel permission overrides on top of a user's base permissions.
+ *
+ * `chain` holds one entry per channel from the root down to the target
+ * channel. At each level the user's role overrides are merged first (allow
+ * wins when two roles disagree), then their user-specific override. ADMIN
+ * bypasses overrides entirely and can never be granted by one.
+ */
+export function applyChannelOverrides(
+    base: bigint,
+    chain: PermissionOverride[][],
+    userId: string,
+    roleIds: ReadonlySet<string>,
+): bigint {
+    if (isAdmin(base)) return base;
+
+    const grantable = ~BigInt(PermissionFlags.ADMIN);
+    let perms = base;
+
+    for (const overrides of chain) {
+        let roleAllow = 0n;
+        let roleDeny = 0n;
+        for (const o of overrides) {
+            if (o.roleId && roleIds.has(o.roleId)) {
+                roleAllow |= o.allow;
+                roleDeny |= o.deny;
+            }
+        }
+        perms = (perms & ~roleDeny) | (roleAllow & grantable);
+
+        for (const o of overrides) {
+            if (o.userId === userId) {
+                perms = (perms & ~o.deny) | (o.allow & grantable);
+            }
+        }
+    }
+
+    return perms;
+}
+
 // ---------------------------------------------------------------------------
 // Database helper
 // ---------------------------------------------------------------------------
@@ -68,3 +175,190 @@ export async function getUserPermissions(
 
     return combined;
 }
+
+/**
+ * Returns a user's power level on a server — the highest `powerLevel`
+ * among their roles, or `0` if they hold none.
+ */
+export async function getUserPowerLevel(
+    prisma: PrismaClient,
+    userId: string,
+    serverId: string,
+): Promise<number> {
+    const top = await prisma.role.aggregate({
+        where: { serverId, users: { some: { userId } } },
+        _max: { powerLevel: true },
+    });
+    return top._max.powerLevel ?? 0;
+}
+
+/** Guards against malformed (cyclic) parent chains. */
+const MAX_CHANNEL_DEPTH = 32;
+
+/**
+ * Returns the IDs of a channel and all its ancestors, root first.
+ */
+export async function getChannelAncestry(
+    prisma: PrismaClient,
+    channelId: string,
+): Promise<string[]> {
+    const ids: string[] = [];
+    let currentId: string | null = channelId;
+
+    while (currentId && ids.length < MAX_CHANNEL_DEPTH && !ids.includes(currentId)) {
+        ids.push(currentId);
+        const channel: { parentId: string | null } | null = await prisma.channel.findUnique({
+            where: { id: currentId },
+            select: { parentId: true },
+        });
+        currentId = channel?.parentId ?? null;
+    }
+
+    return ids.reverse();
+}
+
+/**
+ * Resolves a user's effective permissions inside a channel: their combined
+ * role permissions with the overrides of the channel and its ancestors
+ * applied (see `applyChannelOverrides`).
+ */
+export async function getChannelPermissions(
+    prisma: PrismaClient,
+    userId: string,
+    serverId: string,
+    channelId: string,
+): Promise<bigint> {
+    const userRoles = await prisma.userRole.findMany({
+        where: { userId },
+        include: { role: true },
+    });
+
+    let base = 0n;
+    const roleIds = new Set<string>();
+    for (const ur of userRoles) {
+        if (ur.role.serverId === serverId) {
+            base |= ur.role.permissions;
+            roleIds.add(ur.roleId);
+        }
+    }
+
+    if (isAdmin(base)) return base;
+
+    const ancestry = await getChannelAncestry(prisma, channelId);
+    const overrides = await prisma.channelPermissionOverride.findMany({
+        where: {
+            channelId: { in: ancestry },
+            OR: [{ roleId: { in: [...roleIds] } }, { userId }],
+        },
+    });
+
+    const chain = ancestry.map((id) => overrides.filter((o) => o.channelId === id));
+    return applyChannelOverrides(base, chain, userId, roleIds);
+}
+
+/**
+ * Resolves several users' effective permissions in one channel with a
+ * fixed number of queries (plus the ancestry walk), for callers that fan
+ * out to many users at once (e.g. message notifications).
+ */
+export async function getChannelPermissionsForUsers(
+    prisma: PrismaClient,
+    userIds: string[],
+    serverId: string,
+    channelId: string,
+): Promise<Map<string, bigint>> {
+    const result = new Map<string, bigint>();
+    if (userIds.length === 0) return result;
+
+    const [userRoles, ancestry] = await Promise.all([
+        prisma.userRole.findMany({
+            where: { userId: { in: userIds }, role: { serverId } },
+            include: { role: true },
+        }),
+        getChannelAncestry(prisma, channelId),
+    ]);
+    const overrides = await prisma.channelPermissionOverride.findMany({
+        where: { channelId: { in: ancestry } },
+    });
+    // applyChannelOverrides only applies the entries matching each user
+    const chain = ancestry.map((id) => overrides.filter((o) => o.channelId === id));
+
+    for (const userId of userIds) {
+        let base = 0n;
+        const roleIds = new Set<string>();
+        for (const ur of userRoles) {
+            if (ur.userId === userId) {
+                base |= ur.role.permissions;
+                roleIds.add(ur.roleId);
+            }
+        }
+        result.set(userId, applyChannelOverrides(base, chain, userId, roleIds));
+    }
+    return result;
+}
+
+/**
+ * Resolves a user's effective permissions in every channel of a server
+ * with a fixed number of queries, for callers that need many channels at
+ * once (e.g. filtering search results by visibility).
+ */
+export async function getAllChannelPermissions(
+    prisma: PrismaClient,
+    userId: string,
+    serverId: string,
+): Promise<Map<string, bigint>> {
+    const userRoles = await prisma.userRole.findMany({
+        where: { userId },
+        include: { role: true },
+    });
+
+    let base = 0n;
+    const roleIds = new Set<string>();
+    for (const ur of userRoles) {
+        if (ur.role.serverId === serverId) {
+            base |= ur.role.permissions;
+            roleIds.add(ur.roleId);
+        }
+    }
+
+    const channels = await prisma.channel.findMany({
+        where: { serverId },
+        select: { id: true, parentId: true },
+    });
+
+    const result = new Map<string, bigint>();
+    if (isAdmin(base)) {
+        for (const c of channels) result.set(c.id, base);
+        return result;
+    }
+
+    const overrides = await prisma.channelPermissionOverride.findMany({
+        where: {
+            channel: { serverId },
+            OR: [{ roleId: { in: [...roleIds] } }, { userId }],
+        },
+    });
+
+    const parentOf = new Map(channels.map((c) => [c.id, c.parentId]));
+    const overridesOf = new Map<string, PermissionOverride[]>();
+    for (const o of overrides) {
+        const list = overridesOf.get(o.channelId) ?? [];
+        list.push(o);
+        overridesOf.set(o.channelId, list);
+    }
+
+    for (const c of channels) {
+        // Same walk as getChannelAncestry, but over the in-memory tree
+        const ancestry: string[] = [];
+        let currentId: string | null = c.id;
+        while (currentId && ancestry.length < MAX_CHANNEL_DEPTH && !ancestry.includes(currentId)) {
+            ancestry.push(currentId);
+            currentId = parentOf.get(currentId) ?? null;
+        }
+
+        const chain = ancestry.reverse().map((id) => overridesOf.get(id) ?? []);
+        result.set(c.id, applyChannelOverrides(base, chain, userId, roleIds));
+    }
+
+    return result;
+}
@@ -7,21 +7,80 @@
  * Key schema:
  *   presence:server:{serverId}    → SET of userIds
  *   presence:channel:{channelId}  → SET of userIds
- *   presence:user:{userId}        → HASH { serverId, channelId, nickname }
+ *   presence:user:{userId}        → HASH { serverId, channelId, nickname,
+ *                                           isMuted, isDeafened, isAway }
+ *   voice:server-muted:{serverId}    → SET of userIds muted by a moderator
+ *   voice:server-deafened:{serverId} → SET of userIds deafened by a moderator
+ *
+ * Voice/away flags are stored as "1"/"0" and mirror the socket's own state,
+ * which is what channel PRESENCE_UPDATEs are built from. Moderator
+ * restrictions outlive the session so reconnecting doesn't lift them.
  */
 
 import type { Redis } from "ioredis";
+import type { IUserPresence } from "@reson8/shared-types";
 
 /** Prefix constants to keep key construction DRY. */
 const KEY = {
     server: (id: string) => `presence:server:${id}`,
     channel: (id: string) => `presence:channel:${id}`,
     user: (id: string) => `presence:user:${id}`,
+    serverMuted: (serverId: string) => `voice:server-muted:${serverId}`,
+    serverDeafened: (serverId: string) => `voice:server-deafened:${serverId}`,
 } as const;
 
 /** TTL for user presence hashes (seconds). Safety net for zombie sessions. */
 const USER_TTL = 60 * 60; // 1 hour
 
+/** Per-user flags shown next to channel occupants. */
+export type PresenceFlags = Pick<IUserPresence, "isMuted" | "isDeafened" | "isAway">;
+
+/** The socket data occupant entries are built from. */
+export interface OccupantSocketData {
+    userId?: string;
+    nickname?: string;
+    currentChannelId?: string | null;
+    isMuted?: boolean;
+    isDeafened?: boolean;
+    isAway?: boolean;
+    isServerMuted?: boolean;
+    isServerDeafened?: boolean;
+}
+
+/**
+ * Builds an occupant entry from a socket's data. Missing identity or flags
+ * fall back to defaults so half-initialised sockets still render.
+ */
+export function toUserPresence(data: OccupantSocketData): IUserPresence {
+    return {
+        userId: data.userId ?? "",
+        nickname: data.nickname ?? "Unknown",
+        isMuted: data.isMuted === true,
+        isDeafened: data.isDeafened === true,
+        isAway: data.isAway === true,
+        isServerMuted: data.isServerMuted === true,
+        isServerDeafened: data.isServerDeafened === true,
+    };
+}
+
+/**
+ * Groups sockets into occupant lists by the channel each one is in, so a
+ * whole tree can be filled from a single server-wide socket lookup.
+ * Sockets outside any channel are left out.
+ */
+export function groupOccupantsByChannel(
+    sockets: OccupantSocketData[],
+): Map<string, IUserPresence[]> {
+    const byChannel = new Map<string, IUserPresence[]>();
+    for (const data of sockets) {
+        if (!data.currentChannelId) continue;
+        const occupants = byChannel.get(data.currentChannelId) ?? [];
+        occupants.push(toUserPresence(data));
+        byChannel.set(data.currentChannelId, occupants);
+    }
+    return byChannel;
+}
+
 export class PresenceService {
     constructor(private readonly redis: Redis) { }
 
@@ -38,7 +97,14 @@ export class PresenceService {
     ): Promise<void> {
         const pipe = this.redis.pipeline();
         pipe.sadd(KEY.server(serverId), userId);
-        pipe.hset(KEY.user(userId), { serverId, nickname, channelId: "" });
+        pipe.hset(KEY.user(userId), {
+            serverId,
+            nickname,
+            channelId: "",
+            isMuted: "0",
+            isDeafened: "0",
+            isAway: "0",
+        });
         pipe.expire(KEY.user(userId), USER_TTL);
         await pipe.exec();
     }
@@ -85,6 +151,46 @@ export class PresenceService {
         await pipe.exec();
     }
 
+    // ── Voice / away state ─────────────────────────────────────────────────
+
+    /** Updates some of a user's presence flags. */
+    async setFlags(userId: string, flags: Partial<PresenceFlags>): Promise<void> {
+        const fields: Record<string, string> = {};
+        for (const [key, value] of Object.entries(flags)) {
+            if (value !== undefined) fields[key] = value ? "1" : "0";
+        }
+        if (Object.keys(fields).length === 0) return;
+
+        const pipe = this.redis.pipeline();
+        pipe.hset(KEY.user(userId), fields);
+        pipe.expire(KEY.user(userId), USER_TTL);
+        await pipe.exec();
+    }
+
+    // ── Moderator voice restrictions ───────────────────────────────────────
+
+    async setServerMuted(serverId: string, userId: string, muted: boolean): Promise<void> {
+        if (muted) await this.redis.sadd(KEY.serverMuted(serverId), userId);
+        else await this.redis.srem(KEY.serverMuted(serverId), userId);
+    }
+
+    async setServerDeafened(serverId: string, userId: string, deafened: boolean): Promise<void> {
+        if (deafened) await this.redis.sadd(KEY.serverDeafened(serverId), userId);
+        else await this.redis.srem(KEY.serverDeafened(serverId), userId);
+    }
+
+    /** Returns the moderator restrictions currently on a user. */
+    async getVoiceRestrictions(
+        serverId: string,
+        userId: string,
+    ): Promise<{ isServerMuted: boolean; isServerDeafened: boolean }> {
+        const [muted, deafened] = await Promise.all([
+            this.redis.sismember(KEY.serverMuted(serverId), userId),
+            this.redis.sismember(KEY.serverDeafened(serverId), userId),
+        ]);
+        return { isServerMuted: muted === 1, isServerDeafened: deafened === 1 };
+    }
+
     // ── Queries ────────────────────────────────────────────────────────────
 
     /** Returns the set of userIds currently online on a server. */
@@ -97,16 +203,19 @@ export class PresenceService {
         return this.redis.smembers(KEY.channel(channelId));
     }
 
-    /** Returns the user's current presence metadata (serverId, channelId, nickname). */
+    /** Returns the user's current presence metadata (serverId, channelId, nickname, flags). */
     async getUserPresence(
         userId: string,
-    ): Promise<{ serverId: string; channelId: string; nickname: string } | null> {
+    ): Promise<({ serverId: string; channelId: string; nickname: string } & PresenceFlags) | null> {
         const data = await this.redis.hgetall(KEY.user(userId));
         if (!data.serverId) return null;
         return {
             serverId: data.serverId,
             channelId: data.channelId ?? "",
             nickname: data.nickname ?? "Unknown",
+            isMuted: data.isMuted === "1",
+            isDeafened: data.isDeafened === "1",
+            isAway: data.isAway === "1",
         };
     }
 
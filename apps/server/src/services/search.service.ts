@@ -0,0 +1,130 @@
+/**
+ * Search Service — PostgreSQL full-text search over chat messages.
+ *
+ * Messages are matched with `to_tsvector(content) @@ websearch_to_tsquery(q)`
+ * (so users can write `"exact phrase"`, `-exclude` and `or`), backed by a GIN
+ * expression index. The `simple` text search configuration is used: no
+ * stemming or stop words, which behaves predictably for any language.
+ *
+ * Snippets come from `ts_headline`, with control characters as highlight
+ * markers. They are split into plain/matched parts here so clients never
+ * have to render server-produced HTML.
+ */
+
+import { Prisma, type PrismaClient } from "@prisma/client";
+import type { ISnippetPart } from "@reson8/shared-types";
+
+/** Text search configuration — must match between the index and queries. */
+const TS_CONFIG = Prisma.raw("'simple'::regconfig");
+
+/** Highlight markers passed to ts_headline (control characters don't occur in normal chat text). */
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_STOP = "\u0003";
+
+const HEADLINE_OPTIONS =
+    `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, ` +
+    `MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/** Length of snippets for author/date-only searches (no terms to highlight). */
+export const PLAIN_SNIPPET_LENGTH = 160;
+
+/**
+ * Creates the GIN index used by message search if it doesn't exist yet.
+ * Prisma's schema language can't express expression indexes, so this runs
+ * once at startup instead of living in schema.prisma.
+ */
+export async function ensureMessageSearchIndex(prisma: PrismaClient): Promise<void> {
+    await prisma.$executeRaw`
+        CREATE INDEX IF NOT EXISTS "messages_content_search_idx"
+        ON "messages" USING GIN (to_tsvector(${TS_CONFIG}, "content"))
+    `;
+}
+
+export interface MessageSearchFilters {
+    /** Search terms (websearch syntax); omit to match any content. */
+    query?: string;
+    /** Author nickname, matched case-insensitively. */
+    author?: string;
+    /** Channels to search — callers pass only channels the user can read. */
+    channelIds: string[];
+    after?: Date;
+    before?: Date;
+    limit: number;
+    offset: number;
+}
+
+/**
+ * Returns matching message IDs, newest first, with a highlighted headline
+ * when search terms were given (`null` otherwise).
+ */
+export async function searchMessages(
+    prisma: PrismaClient,
+    filters: MessageSearchFilters,
+): Promise<Array<{ id: string; headline: string | null }>> {
+    if (filters.channelIds.length === 0) return [];
+
+    const conditions: Prisma.Sql[] = [
+        Prisma.sql`m."deletedAt" IS NULL`,
+        Prisma.sql`m."channelId" IN (${Prisma.join(filters.channelIds)})`,
+    ];
+
+    let headline = Prisma.sql`NULL`;
+    if (filters.query) {
+        const tsQuery = Prisma.sql`websearch_to_tsquery(${TS_CONFIG}, ${filters.query})`;
+        conditions.push(Prisma.sql`to_tsvector(${TS_CONFIG}, m."content") @@ ${tsQuery}`);
+        headline = Prisma.sql`ts_headline(${TS_CONFIG}, m."content", ${tsQuery}, ${HEADLINE_OPTIONS})`;
+    }
+    if (filters.author) {
+        conditions.push(Prisma.sql`lower(u."nickname") = lower(${filters.author})`);
+    }
+    if (filters.after) {
+        conditions.push(Prisma.sql`m."createdAt" >= ${filters.after}`);
+    }
+    if (filters.before) {
+        conditions.push(Prisma.sql`m."createdAt" < ${filters.before}`);
+    }
+
+    return prisma.$queryRaw<Array<{ id: string; headline: string | null }>>`
+        SELECT m."id", ${headline} AS "headline"
+        FROM "messages" m
+        JOIN "users" u ON u."id" = m."userId"
+        WHERE ${Prisma.join(conditions, " AND ")}
+        ORDER BY m."createdAt" DESC
+        LIMIT ${filters.limit} OFFSET ${filters.offset}
+    `;
+}
+
+/** Splits a ts_headline result into plain and highlighted parts. */
+export function parseHeadline(headline: string): ISnippetPart[] {
+    const parts: ISnippetPart[] = [];
+    let text = "";
+    let match = false;
+
+    const flush = (): void => {
+        if (text) parts.push({ text, match });
+        text = "";
+    };
+
+    for (const ch of headline) {
+        if (ch === HIGHLIGHT_START) {
+            flush();
+            match = true;
+        } else if (ch === HIGHLIGHT_STOP) {
+            flush();
+            match = false;
+        } else {
+            text += ch;
+        }
+    }
+    flush();
+
+    return parts;
+}
+
+/** Snippet for results without search terms: the start of the message. */
+export function plainSnippet(content: string): ISnippetPart[] {
+    const text = content.length > PLAIN_SNIPPET_LENGTH
+        ? `${content.slice(0, PLAIN_SNIPPET_LENGTH - 1)}…`
+        : content;
+    return text ? [{ text, match: false }] : [];
+}
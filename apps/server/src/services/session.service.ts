@@ -0,0 +1,48 @@
+/**
+ * Session Service — Redis-backed session tokens for Reson8.
+ *
+ * Tokens are opaque random strings issued on login/registration and
+ * presented in the Socket.io handshake. Each token maps to a user ID
+ * and expires after `SESSION_TTL` seconds of not being used.
+ *
+ * Key schema:
+ *   session:{token}  → STRING userId
+ */
+
+import { randomBytes } from "node:crypto";
+import type { Redis } from "ioredis";
+
+const KEY = {
+    session: (token: string) => `session:${token}`,
+} as const;
+
+/** Session lifetime (seconds). Refreshed every time the token is used. */
+const SESSION_TTL = 60 * 60 * 24 * 30; // 30 days
+
+export class SessionService {
+    constructor(private readonly redis: Redis) { }
+
+    /** Issues a new session token for a user. */
+    async create(userId: string): Promise<string> {
+        const token = randomBytes(32).toString("hex");
+        await this.redis.set(KEY.session(token), userId, "EX", SESSION_TTL);
+        return token;
+    }
+
+    /**
+     * Resolves a token to its user ID, refreshing the TTL.
+     * Returns `null` for unknown or expired tokens.
+     */
+    async resolve(token: string): Promise<string | null> {
+        if (!token) return null;
+        const userId = await this.redis.get(KEY.session(token));
+        if (!userId) return null;
+        await this.redis.expire(KEY.session(token), SESSION_TTL);
+        return userId;
+    }
+
+    /** Invalidates a session token (logout). */
+    async revoke(token: string): Promise<void> {
+        await this.redis.del(KEY.session(token));
+    }
+}
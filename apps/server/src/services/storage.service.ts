@@ -0,0 +1,53 @@
+/**
+ * Storage Service — where attachment bytes live.
+ *
+ * Handlers only talk to the `FileStorage` interface, so the local-disk
+ * implementation can be swapped for an object store without touching
+ * the upload or download routes. Keys are opaque identifiers chosen by
+ * the caller (attachment IDs); they never contain user-supplied names.
+ */
+
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, rm } from "node:fs/promises";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+export interface FileStorage {
+    /** Writes the stream to `key`, replacing any existing file. Resolves to the size in bytes. */
+    save(key: string, data: Readable): Promise<number>;
+    /** Opens the file stored under `key`. */
+    read(key: string): Readable;
+    /** Removes the file stored under `key` (no-op if missing). */
+    delete(key: string): Promise<void>;
+}
+
+/** Keys are restricted to a safe charset so they can't escape the root. */
+const KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** Stores files as plain files in a single directory. */
+export class LocalDiskStorage implements FileStorage {
+    constructor(private readonly rootDir: string) { }
+
+    async save(key: string, data: Readable): Promise<number> {
+        await mkdir(this.rootDir, { recursive: true });
+        const out = createWriteStream(this.pathFor(key));
+        await pipeline(data, out);
+        return out.bytesWritten;
+    }
+
+    read(key: string): Readable {
+        return createReadStream(this.pathFor(key));
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.pathFor(key), { force: true });
+    }
+
+    private pathFor(key: string): string {
+        if (!KEY_PATTERN.test(key)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return path.join(this.rootDir, key);
+    }
+}
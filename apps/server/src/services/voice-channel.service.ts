@@ -0,0 +1,186 @@
+/**
+ * Voice Channel Service — moving sockets between channels.
+ *
+ * Shared by USER_JOIN_CHANNEL (a user joining by themselves) and MOVE_USER
+ * (a moderator moving someone), so both go through the same permission
+ * checks, room changes, mediasoup cleanup and PRESENCE_UPDATE broadcasts.
+ * Socket.io room membership (`channel:{id}`) is the single source of truth
+ * for who is in which channel; Redis presence is kept in sync for
+ * server-level tracking.
+ */
+
+import type { Server as SocketIOServer, Socket } from "socket.io";
+import type { FastifyInstance } from "fastify";
+import type {
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData,
+} from "@reson8/shared-types";
+import { PermissionFlags } from "@reson8/shared-types";
+import type { MediasoupService } from "./mediasoup.service.js";
+import { getChannelPermissions, hasPermission } from "./permissions.service.js";
+import { PresenceService, toUserPresence } from "./presence.service.js";
+
+type TypedIO = SocketIOServer<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+type TypedSocket = Socket<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    InterServerEvents,
+    SocketData
+>;
+
+export type JoinChannelResult =
+    | { success: true; canSpeak: boolean }
+    | { success: false; error: string; code?: string };
+
+export interface JoinChannelOptions {
+    /** Skip the channel's user limit (moderator moves). */
+    ignoreUserLimit?: boolean;
+}
+
+export class VoiceChannelService {
+    private readonly presence: PresenceService;
+
+    constructor(
+        private readonly io: TypedIO,
+        private readonly app: FastifyInstance,
+        private readonly mediasoup: MediasoupService,
+    ) {
+        this.presence = new PresenceService(app.redis);
+    }
+
+    /**
+     * Sends the channel's occupants (with their voice/away state) to the
+     * whole server, built from the Socket.io room.
+     */
+    async broadcastChannelPresence(serverId: string, channelId: string): Promise<void> {
+        const sockets = await this.io.in(`channel:${channelId}`).fetchSockets();
+        this.io.to(`server:${serverId}`).emit("PRESENCE_UPDATE", {
+            channelId,
+            occupants: sockets.map((s) => toUserPresence(s.data)),
+        });
+    }
+
+    /**
+     * Moves a socket into a channel: checks CONNECT (and the user limit),
+     * leaves the previous channel and its voice session, and broadcasts
+     * presence for both channels. SPEAK is reported back as `canSpeak`.
+     * A channel's join message goes to the socket when it enters.
+     */
+    async joinChannel(
+        socket: TypedSocket,
+        channelId: string,
+        options: JoinChannelOptions = {},
+    ): Promise<JoinChannelResult> {
+        const { app, io, mediasoup, presence } = this;
+        const userId = socket.data.userId;
+        const previousChannelId = socket.data.currentChannelId;
+
+        // ── 0. Check CONNECT, SPEAK and the channel's user limit ─────────
+        const channel = await app.prisma.channel.findUnique({
+            where: { id: channelId },
+        });
+        if (!channel || channel.serverId !== socket.data.serverId) {
+            return { success: false, error: "Channel not found" };
+        }
+        if (channel.type === "CATEGORY") {
+            return { success: false, code: "CATEGORY", error: "Categories can't be joined" };
+        }
+
+        const perms = await getChannelPermissions(
+            app.prisma, userId, socket.data.serverId, channelId,
+        );
+        if (!hasPermission(perms, BigInt(PermissionFlags.CONNECT))) {
+            return {
+                success: false,
+                code: "NO_CONNECT_PERMISSION",
+                error: "You do not have permission to join this channel",
+            };
+        }
+
+        if (!options.ignoreUserLimit && channel.maxUsers !== null && previousChannelId !== channelId) {
+            const present = await io.in(`channel:${channelId}`).fetchSockets();
+            const others = new Set(
+                present.map((s) => s.data.userId).filter((id) => id !== userId),
+            );
+            if (others.size >= channel.maxUsers) {
+                return { success: false, code: "CHANNEL_FULL", error: "Channel is full" };
+            }
+        }
+
+        const canSpeak = hasPermission(perms, BigInt(PermissionFlags.SPEAK));
+
+        // ── 1. Move socket rooms ─────────────────────────────────────────
+        // Leave old room first, then join new — Socket.io room membership
+        // becomes the single source of truth for who is in which channel.
+        if (previousChannelId && previousChannelId !== channelId) {
+            await socket.leave(`channel:${previousChannelId}`);
+
+            // Notify peers in old channel that producer is gone
+            const producerId = mediasoup.getSession(previousChannelId, userId)?.producer?.id;
+            if (producerId) {
+                io.to(`channel:${previousChannelId}`).emit("PRODUCER_CLOSED", {
+                    userId,
+                    producerId,
+                });
+            }
+            mediasoup.cleanupUserSession(previousChannelId, userId);
+        }
+
+        socket.data.currentChannelId = channelId;
+        await socket.join(`channel:${channelId}`);
+
+        // A fresh voice session starts unmuted; the client reports
+        // its state again once its producer is up
+        if (previousChannelId !== channelId) {
+            socket.data.isMuted = false;
+            socket.data.isDeafened = false;
+        }
+
+        // ── 2. Broadcast PRESENCE_UPDATE for old channel ─────────────────
+        if (previousChannelId && previousChannelId !== channelId) {
+            await this.broadcastChannelPresence(socket.data.serverId, previousChannelId);
+        }
+
+        // ── 3. Broadcast PRESENCE_UPDATE for new channel ─────────────────
+        await this.broadcastChannelPresence(socket.data.serverId, channelId);
+
+        if (channel.joinMessage && previousChannelId !== channelId) {
+            socket.emit("CHANNEL_JOIN_MESSAGE", { channelId, message: channel.joinMessage });
+        }
+
+        // Also update Redis presence (for server-level tracking)
+        await presence.joinChannel(userId, channelId);
+        await presence.setFlags(userId, {
+            isMuted: socket.data.isMuted,
+            isDeafened: socket.data.isDeafened,
+        });
+
+        return { success: true, canSpeak };
+    }
+
+    /** Tells a socket that just joined a channel about the voice producers already there. */
+    sendExistingProducers(socket: TypedSocket, channelId: string): void {
+        const existingProducers = this.mediasoup.getExistingProducers(
+            channelId,
+            socket.data.userId,
+        );
+        if (existingProducers.length === 0) return;
+
+        socket.emit("EXISTING_PRODUCERS", {
+            channelId,
+            producers: existingProducers.map((p) => ({
+                userId: p.userId,
+                nickname: p.userId, // fallback — nickname lookup not wired yet
+                producerId: p.producerId,
+            })),
+        });
+    }
+}
@@ -9,10 +9,11 @@
 // Enums
 // ---------------------------------------------------------------------------
 
-/** Channel type discriminator. */
+/** Channel type discriminator. Categories only group other channels and can't be joined. */
 export enum ChannelType {
     TEXT = "TEXT",
     VOICE = "VOICE",
+    CATEGORY = "CATEGORY",
 }
 
 /**
@@ -32,6 +33,11 @@ export enum PermissionFlags {
     KICK_USER = 1 << 6,  // 64
     BAN_USER = 1 << 7,  // 128
     ADMIN = 1 << 8,  // 256 — bypasses all checks
+    MANAGE_MESSAGES = 1 << 9,  // 512 — delete others' messages, view edit history
+    ATTACH_FILES = 1 << 10, // 1024 — upload files (also requires SEND_MESSAGES)
+    MUTE_MEMBERS = 1 << 11, // 2048 — server-mute others in voice
+    DEAFEN_MEMBERS = 1 << 12, // 4096 — server-deafen others in voice
+    MOVE_MEMBERS = 1 << 13, // 8192 — move others between voice channels
 }
 
 // ---------------------------------------------------------------------------
@@ -50,6 +56,19 @@ export interface IServer {
 // Channel
 // ---------------------------------------------------------------------------
 
+/** Opus settings for voice in a channel; voice clients produce with these. */
+export interface IChannelAudioSettings {
+    /** Bitrate cap in bits per second — producers above it are rejected. */
+    maxBitrate: number;
+    stereo: boolean;
+    /** Packet duration in ms (10, 20, 40 or 60). */
+    ptime: number;
+    /** In-band forward error correction. */
+    fec: boolean;
+    /** Discontinuous transmission (no packets during silence). */
+    dtx: boolean;
+}
+
 /** Flat channel record as stored in the database. */
 export interface IChannel {
     id: string;
@@ -59,6 +78,12 @@ export interface IChannel {
     parentId: string | null;
     position: number;
     maxUsers: number | null; // null = unlimited
+    /** One-line topic shown in the channel's header. */
+    topic: string | null;
+    description: string | null;
+    /** Sent privately to users as they enter the channel. */
+    joinMessage: string | null;
+    audio: IChannelAudioSettings;
     createdAt: string;
 }
 
@@ -83,6 +108,23 @@ export interface IUser {
     createdAt: string;
 }
 
+/** Credentials posted to the `/auth/register` and `/auth/login` routes. */
+export interface IAuthRequest {
+    username: string;
+    password: string;
+    /** Display name — only used on registration (defaults to the username). */
+    nickname?: string;
+}
+
+/** Response body of the `/auth/*` routes. */
+export interface IAuthResponse {
+    success: boolean;
+    /** Opaque session token — pass it as `auth.token` in the Socket.io handshake. */
+    token?: string;
+    user?: IUser;
+    error?: string;
+}
+
 /** Lightweight presence record for channel occupants. */
 export interface IUserPresence {
     userId: string;
@@ -90,6 +132,10 @@ export interface IUserPresence {
     isMuted: boolean;
     isDeafened: boolean;
     isAway: boolean;
+    /** Muted by a moderator — enforced on the server. */
+    isServerMuted: boolean;
+    /** Deafened by a moderator — enforced on the server. */
+    isServerDeafened: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -108,6 +154,37 @@ export interface IRole {
     createdAt: string;
 }
 
+/**
+ * Per-channel permission override for a single role or user.
+ * Exactly one of `roleId` / `userId` is set. Bits are strings, like IRole.
+ */
+export interface IChannelPermissionOverride {
+    id: string;
+    channelId: string;
+    roleId: string | null;
+    userId: string | null;
+    /** Flags granted in this channel (and its sub-channels). */
+    allow: string;
+    /** Flags revoked in this channel (and its sub-channels). */
+    deny: string;
+}
+
+// ---------------------------------------------------------------------------
+// Ban
+// ---------------------------------------------------------------------------
+
+export interface IBan {
+    id: string;
+    serverId: string;
+    userId: string;
+    nickname: string;
+    /** Nickname of the moderator who issued the ban (null if their account is gone). */
+    bannedBy: string | null;
+    reason: string | null;
+    expiresAt: string | null; // null = permanent
+    createdAt: string;
+}
+
 // ---------------------------------------------------------------------------
 // Message
 // ---------------------------------------------------------------------------
@@ -119,6 +196,97 @@ export interface IMessage {
     nickname: string;
     content: string;
     createdAt: string;
+    /** ISO-8601 time of the last edit, or `null` if never edited. */
+    editedAt: string | null;
+    /** Preview of the message this one replies to, or `null` if not a reply. */
+    replyTo: IMessageReplyPreview | null;
+    /** Reactions grouped by emoji, in the order they were first added. */
+    reactions: IReactionSummary[];
+    attachments: IAttachment[];
+}
+
+/** A file shared in a text channel. */
+export interface IAttachment {
+    id: string;
+    filename: string;
+    mimeType: string;
+    /** Size in bytes. */
+    size: number;
+    /** Download path, relative to the server's HTTP address. */
+    url: string;
+}
+
+/** Response body of `POST /channels/:channelId/attachments`. */
+export interface IUploadResponse {
+    success: boolean;
+    /** Uploaded files, in request order — pass their IDs to SEND_MESSAGE. */
+    attachments?: IAttachment[];
+    error?: string;
+}
+
+/** One piece of a search snippet; `match` marks a highlighted search term. */
+export interface ISnippetPart {
+    text: string;
+    match: boolean;
+}
+
+/** A message matching a SEARCH_MESSAGES query. */
+export interface IMessageSearchResult {
+    message: IMessage;
+    /** Excerpt of the content around the matched terms. */
+    snippet: ISnippetPart[];
+}
+
+/** A short quote of the message being replied to. */
+export interface IMessageReplyPreview {
+    id: string;
+    userId: string;
+    nickname: string;
+    /** Truncated content; empty when the original was deleted. */
+    content: string;
+    deleted: boolean;
+}
+
+/** Aggregated count for one emoji on a message. */
+export interface IReactionSummary {
+    emoji: string;
+    count: number;
+    /** Who reacted, so clients can highlight their own reactions. */
+    userIds: string[];
+}
+
+/** A previous version of an edited message (visible to moderators). */
+export interface IMessageRevision {
+    id: string;
+    messageId: string;
+    /** The message content before this edit. */
+    content: string;
+    /** Nickname of the user who made the edit. */
+    editedBy: string | null;
+    /** When the edit was made. */
+    createdAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Direct Messages
+// ---------------------------------------------------------------------------
+
+/** A private conversation between two or more users. */
+export interface IConversation {
+    id: string;
+    /** Every member, including the requesting user. */
+    members: Array<{ userId: string; nickname: string }>;
+    /** ISO-8601 time of the latest message (or of creation). */
+    lastActivityAt: string;
+}
+
+export interface IDirectMessage {
+    id: string;
+    conversationId: string;
+    userId: string;
+    nickname: string;
+    content: string;
+    createdAt: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -8,10 +8,18 @@
  */
 
 import type {
+    IBan,
     IChannel,
+    IChannelAudioSettings,
     IChannelTreeNode,
+    IConversation,
+    IDirectMessage,
     IMessage,
     IRole,
+    IChannelPermissionOverride,
+    IMessageRevision,
+    IMessageSearchResult,
+    IReactionSummary,
     IUser,
     IUserPresence,
     ITransportOptions,
@@ -25,10 +33,19 @@ import type {
 export interface ClientToServerEvents {
     /**
      * Client requests to join a server instance.
+     * Identity comes from the handshake (see `SocketAuth`), not the payload.
      */
     USER_JOIN_SERVER: (
-        payload: { serverId?: string; nickname: string; instanceId: string },
-        ack: (response: { success: boolean; serverId?: string; error?: string }) => void,
+        payload: { serverId?: string; nickname?: string },
+        ack: (response: {
+            success: boolean;
+            serverId?: string;
+            userId?: string;
+            nickname?: string;
+            error?: string;
+            /** Machine-readable failure reason, e.g. `SERVER_FULL`. */
+            code?: string;
+        }) => void,
     ) => void;
 
     /** Client signals they are leaving the server. */
@@ -37,25 +54,54 @@ export interface ClientToServerEvents {
     /** Client moves into a specific voice/text channel. */
     USER_JOIN_CHANNEL: (
         payload: { channelId: string },
-        ack: (response: { success: boolean; error?: string }) => void,
+        ack: (response: {
+            success: boolean;
+            /** `false` when the user may listen but not SPEAK in this channel. */
+            canSpeak?: boolean;
+            error?: string;
+            /** Machine-readable failure reason: `CHANNEL_FULL`, `NO_CONNECT_PERMISSION` or `CATEGORY`. */
+            code?: string;
+        }) => void,
     ) => void;
 
     /** Client leaves their current channel. */
     USER_LEAVE_CHANNEL: (payload: { channelId: string }) => void;
 
-    /** Client requests a channel to be repositioned in the tree. */
-    CHANNEL_MOVED: (payload: {
-        channelId: string;
-        newParentId: string | null;
-        newPosition: number;
-    }) => void;
+    /**
+     * Client reports its self-mute/deafen state. Reset to unmuted whenever
+     * the user enters a channel; shown to others via PRESENCE_UPDATE.
+     */
+    SET_VOICE_STATE: (
+        payload: { isMuted: boolean; isDeafened: boolean },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Client marks itself away (manually or after system idle) or back. */
+    SET_AWAY: (
+        payload: { isAway: boolean },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /**
+     * Client moves a channel in the tree: under `newParentId` (null = root)
+     * at index `newPosition` among its new siblings. Requires
+     * MANAGE_CHANNELS in the channel and in the new parent.
+     */
+    CHANNEL_MOVED: (
+        payload: {
+            channelId: string;
+            newParentId: string | null;
+            newPosition: number;
+        },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
 
     /** Client requests creation of a new channel. */
     CREATE_CHANNEL: (
         payload: {
             serverId: string;
             name: string;
-            type: "TEXT" | "VOICE";
+            type: "TEXT" | "VOICE" | "CATEGORY";
             parentId?: string | null;
         },
         ack: (response: { success: boolean; channelId?: string; error?: string }) => void,
@@ -67,24 +113,146 @@ export interface ClientToServerEvents {
         ack: (response: { success: boolean; error?: string }) => void,
     ) => void;
 
-    /** Client requests an update to a channel's properties. */
+    /**
+     * Client requests an update to a channel's properties (MANAGE_CHANNELS).
+     * Blank text fields are cleared; `maxUsers: null` lifts the limit.
+     */
     UPDATE_CHANNEL: (
-        payload: { channelId: string; name?: string; position?: number },
+        payload: {
+            channelId: string;
+            name?: string;
+            position?: number;
+            topic?: string | null;
+            description?: string | null;
+            joinMessage?: string | null;
+            maxUsers?: number | null;
+            /** Opus settings for the channel's voice; omitted fields are left as they are. */
+            audio?: Partial<IChannelAudioSettings>;
+        },
         ack: (response: { success: boolean; error?: string }) => void,
     ) => void;
 
-    /** Client sends a text message to their current channel. */
+    /**
+     * Client asks for a full channel tree snapshot, e.g. after missing a
+     * tree revision.
+     */
+    GET_CHANNEL_TREE: (
+        payload: Record<string, never>,
+        ack: (response: {
+            success: boolean;
+            tree?: IChannelTreeNode[];
+            revision?: number;
+            error?: string;
+        }) => void,
+    ) => void;
+
+    /**
+     * Client subscribes to a text channel's live messages (e.g. when opening
+     * its chat tab). Requires CONNECT in that channel.
+     */
+    SUBSCRIBE_CHANNEL: (
+        payload: { channelId: string },
+        ack: (response: {
+            success: boolean;
+            /** Whether the user holds MANAGE_MESSAGES in this channel. */
+            canManageMessages?: boolean;
+            error?: string;
+        }) => void,
+    ) => void;
+
+    /** Client stops receiving a text channel's live messages. */
+    UNSUBSCRIBE_CHANNEL: (payload: { channelId: string }) => void;
+
+    /**
+     * Client sends a text message to their current channel, optionally as a
+     * reply to another message in the same channel. `attachmentIds` are
+     * files the sender uploaded beforehand over HTTP; content may be empty
+     * when at least one attachment is given.
+     */
     SEND_MESSAGE: (
-        payload: { channelId: string; content: string },
+        payload: {
+            channelId: string;
+            content: string;
+            replyToId?: string;
+            attachmentIds?: string[];
+        },
         ack: (response: { success: boolean; messageId?: string }) => void,
     ) => void;
 
-    /** Client requests paginated message history for a channel. */
+    /**
+     * Client requests paginated message history for a channel. With
+     * `around` (a message ID) the page is centred on that message instead,
+     * which is used to jump to a search result in context.
+     */
     FETCH_MESSAGES: (
-        payload: { channelId: string; before?: string; limit?: number },
+        payload: { channelId: string; before?: string; around?: string; limit?: number },
         ack: (response: { success: boolean; messages?: IMessage[]; error?: string }) => void,
     ) => void;
 
+    /**
+     * Full-text search over the channels the user can read. At least one of
+     * `query` or `author` (a nickname) is required; the other filters narrow
+     * the results further. Results are newest first.
+     */
+    SEARCH_MESSAGES: (
+        payload: {
+            query?: string;
+            author?: string;
+            channelId?: string;
+            /** ISO-8601 lower bound (inclusive). */
+            after?: string;
+            /** ISO-8601 upper bound (exclusive). */
+            before?: string;
+            limit?: number;
+            offset?: number;
+        },
+        ack: (response: {
+            success: boolean;
+            results?: IMessageSearchResult[];
+            /** More results are available past `offset + limit`. */
+            hasMore?: boolean;
+            error?: string;
+        }) => void,
+    ) => void;
+
+    /** Author edits their own message. The previous content is kept as a revision. */
+    EDIT_MESSAGE: (
+        payload: { messageId: string; content: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Author (or a user with MANAGE_MESSAGES) deletes a message. */
+    DELETE_MESSAGE: (
+        payload: { messageId: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Client reacts to a message with an emoji. */
+    ADD_REACTION: (
+        payload: { messageId: string; emoji: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Client removes their own emoji reaction from a message. */
+    REMOVE_REACTION: (
+        payload: { messageId: string; emoji: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Moderator requests a message's edit history (requires MANAGE_MESSAGES). */
+    GET_MESSAGE_HISTORY: (
+        payload: { messageId: string },
+        ack: (response: {
+            success: boolean;
+            /** Current content, including for deleted messages. */
+            content?: string;
+            deletedAt?: string | null;
+            /** Oldest first. */
+            revisions?: IMessageRevision[];
+            error?: string;
+        }) => void,
+    ) => void;
+
     // ── Admin / Role Management ──────────────────────────────────────────────
 
     /** Admin requests list of all known users on the server. */
@@ -109,14 +277,181 @@ export interface ClientToServerEvents {
         ack: (response: { success: boolean; error?: string }) => void,
     ) => void;
 
+    /**
+     * Admin creates a role on the current server. `permissions` is a bigint
+     * serialized as a string. The new role's power level must be below the
+     * actor's own.
+     */
+    CREATE_ROLE: (
+        payload: {
+            name: string;
+            color?: string | null;
+            permissions: string;
+            powerLevel: number;
+        },
+        ack: (response: { success: boolean; role?: IRole; error?: string }) => void,
+    ) => void;
+
+    /**
+     * Admin edits a role. Only roles below the actor's power level can be
+     * edited, and the role cannot be raised to or above it.
+     */
+    UPDATE_ROLE: (
+        payload: {
+            roleId: string;
+            name?: string;
+            color?: string | null;
+            permissions?: string;
+            powerLevel?: number;
+        },
+        ack: (response: { success: boolean; role?: IRole; error?: string }) => void,
+    ) => void;
+
+    /** Admin deletes a role below their own power level. */
+    DELETE_ROLE: (
+        payload: { roleId: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Admin requests the permission overrides set directly on a channel. */
+    GET_CHANNEL_PERMISSIONS: (
+        payload: { channelId: string },
+        ack: (response: {
+            success: boolean;
+            overrides?: IChannelPermissionOverride[];
+            error?: string;
+        }) => void,
+    ) => void;
+
+    /**
+     * Admin sets a channel override for either a role or a user.
+     * Passing `allow: "0"` and `deny: "0"` removes the override.
+     */
+    SET_CHANNEL_PERMISSION: (
+        payload: {
+            channelId: string;
+            roleId?: string;
+            userId?: string;
+            allow: string;
+            deny: string;
+        },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    // ── Moderation ──────────────────────────────────────────────────────────
+
+    /** Moderator disconnects a user from the server (requires KICK_USER). */
+    KICK_USER: (
+        payload: { userId: string; reason?: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /**
+     * Moderator bans a user and disconnects them (requires BAN_USER).
+     * Omit `durationMinutes` for a permanent ban.
+     */
+    BAN_USER: (
+        payload: { userId: string; reason?: string; durationMinutes?: number | null },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Moderator lifts a ban (requires BAN_USER). */
+    UNBAN_USER: (
+        payload: { userId: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Moderator requests the active bans on their server (requires BAN_USER). */
+    GET_BANS: (
+        payload: Record<string, never>,
+        ack: (response: { success: boolean; bans?: IBan[]; error?: string }) => void,
+    ) => void;
+
+    /**
+     * Moderator server-mutes (or unmutes) a user: their producer is paused
+     * on the server until lifted, across channel moves and reconnects.
+     */
+    SERVER_MUTE_USER: (
+        payload: { userId: string; muted: boolean },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Moderator server-deafens (or undeafens) a user: their consumers are paused. */
+    SERVER_DEAFEN_USER: (
+        payload: { userId: string; deafened: boolean },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Moderator moves a user who is in voice into another voice channel. */
+    MOVE_USER: (
+        payload: { userId: string; channelId: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    // ── Direct Messages ─────────────────────────────────────────────────────
+
+    /** Client requests their conversations, most recently active first. */
+    GET_CONVERSATIONS: (
+        payload: Record<string, never>,
+        ack: (response: { success: boolean; conversations?: IConversation[]; error?: string }) => void,
+    ) => void;
+
+    /**
+     * Client sends a direct message, either to an existing conversation or
+     * to a set of recipients (the conversation with exactly those members is
+     * reused, or created). Rejected with code `BLOCKED` when a recipient has
+     * blocked the sender, or the sender has blocked a recipient.
+     */
+    SEND_DIRECT_MESSAGE: (
+        payload: { conversationId?: string; recipientIds?: string[]; content: string },
+        ack: (response: {
+            success: boolean;
+            conversation?: IConversation;
+            message?: IDirectMessage;
+            error?: string;
+            code?: string;
+        }) => void,
+    ) => void;
+
+    /** Client requests paginated history of a conversation they belong to. */
+    FETCH_DIRECT_MESSAGES: (
+        payload: { conversationId: string; before?: string; limit?: number },
+        ack: (response: { success: boolean; messages?: IDirectMessage[]; error?: string }) => void,
+    ) => void;
+
+    /** Client blocks a user: their direct messages are rejected from now on. */
+    BLOCK_USER: (
+        payload: { userId: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    UNBLOCK_USER: (
+        payload: { userId: string },
+        ack: (response: { success: boolean; error?: string }) => void,
+    ) => void;
+
+    /** Client requests the users they have blocked. */
+    GET_BLOCKED_USERS: (
+        payload: Record<string, never>,
+        ack: (response: {
+            success: boolean;
+            users?: Array<{ userId: string; nickname: string }>;
+            error?: string;
+        }) => void,
+    ) => void;
+
     // ── WebRTC / Voice signaling (mediasoup) ────────────────────────────────
 
-    /** Request the Router's RTP capabilities for a voice channel. */
+    /**
+     * Request the Router's RTP capabilities for a voice channel, along with
+     * the channel's Opus settings to produce with.
+     */
     GET_ROUTER_CAPABILITIES: (
         payload: { channelId: string },
         ack: (response: {
             success: boolean;
             rtpCapabilities?: any;
+            audio?: IChannelAudioSettings;
             error?: string;
         }) => void,
     ) => void;
@@ -149,6 +484,8 @@ export interface ClientToServerEvents {
             success: boolean;
             producerId?: string;
             error?: string;
+            /** `NO_SPEAK_PERMISSION` when the user may not speak in the channel, `BITRATE_TOO_HIGH` over its bitrate cap. */
+            code?: string;
         }) => void,
     ) => void;
 
@@ -189,10 +526,40 @@ export interface ServerToClientEvents {
     /** Broadcasts that a user has left the server. */
     USER_LEFT: (payload: { userId: string; serverId: string }) => void;
 
-    /** Sends the full channel tree structure to the client. */
+    /**
+     * Sends the full channel tree structure to the client, as of tree
+     * revision `revision`. Changes after that arrive as CHANNEL_ADDED,
+     * CHANNEL_UPDATED and CHANNEL_REMOVED patches.
+     */
     CHANNEL_TREE_UPDATE: (payload: {
         serverId: string;
         tree: IChannelTreeNode[];
+        revision: number;
+    }) => void;
+
+    /**
+     * Tree patches. Each carries the server's next tree revision; a client
+     * that sees a revision more than one ahead of its own has missed a
+     * patch and should resync with GET_CHANNEL_TREE. Channels are sent
+     * whole, so applying a patch twice is harmless.
+     */
+    CHANNEL_ADDED: (payload: {
+        serverId: string;
+        revision: number;
+        channel: IChannel;
+    }) => void;
+
+    /** Channels whose properties or place in the tree changed (a move renumbers siblings too). */
+    CHANNEL_UPDATED: (payload: {
+        serverId: string;
+        revision: number;
+        channels: IChannel[];
+    }) => void;
+
+    CHANNEL_REMOVED: (payload: {
+        serverId: string;
+        revision: number;
+        channelId: string;
     }) => void;
 
     /** Notifies clients about presence changes in a channel. */
@@ -204,21 +571,90 @@ export interface ServerToClientEvents {
     /** Delivers a new text message to channel subscribers. */
     MESSAGE_RECEIVED: (payload: IMessage) => void;
 
-    /** Broadcasts that a new channel was created. */
-    CHANNEL_CREATED: (payload: {
-        serverId: string;
-        channel: IChannel;
+    /** Delivers an edited message to channel subscribers. */
+    MESSAGE_UPDATED: (payload: IMessage) => void;
+
+    /** Tells channel subscribers that a message was deleted. */
+    MESSAGE_DELETED: (payload: { channelId: string; messageId: string }) => void;
+
+    /** Delivers a message's updated reaction summary to channel subscribers. */
+    REACTIONS_UPDATED: (payload: {
+        channelId: string;
+        messageId: string;
+        reactions: IReactionSummary[];
     }) => void;
 
-    /** Broadcasts that a channel was deleted. */
-    CHANNEL_DELETED: (payload: {
-        serverId: string;
+    /**
+     * Tells clients that can read a channel, but aren't subscribed to it,
+     * that a new message arrived there. `mentioned` is true when the message
+     * @-mentions the receiving user.
+     */
+    MESSAGE_NOTIFICATION: (payload: {
+        channelId: string;
+        messageId: string;
+        userId: string;
+        nickname: string;
+        mentioned: boolean;
+    }) => void;
+
+    /**
+     * Sent to a channel's occupants when its Opus settings change, so voice
+     * clients can produce again with them.
+     */
+    CHANNEL_AUDIO_UPDATED: (payload: {
         channelId: string;
+        audio: IChannelAudioSettings;
+    }) => void;
+
+    /** Sent only to a user entering a channel that has a join message. */
+    CHANNEL_JOIN_MESSAGE: (payload: {
+        channelId: string;
+        message: string;
+    }) => void;
+
+    /** Broadcasts the server's full role list after a role is created, edited or deleted. */
+    ROLES_UPDATED: (payload: {
+        serverId: string;
+        roles: IRole[];
     }) => void;
 
     /** Reports an error condition to the client. */
     ERROR: (payload: { code: string; message: string }) => void;
 
+    /**
+     * Broadcasts that a user was kicked or banned. The target's socket is
+     * disconnected by the server right after receiving this.
+     */
+    USER_KICKED: (payload: {
+        userId: string;
+        nickname: string;
+        serverId: string;
+        reason: string | null;
+        banned: boolean;
+        expiresAt: string | null;
+    }) => void;
+
+    /**
+     * Tells a user that a moderator moved them to another voice channel.
+     * Their channel membership has already changed on the server; the
+     * client only redoes the mediasoup handshake for the new channel.
+     */
+    VOICE_MOVED: (payload: {
+        channelId: string;
+        /** `false` when the user may listen but not SPEAK in the new channel. */
+        canSpeak: boolean;
+        movedBy: string;
+    }) => void;
+
+    /**
+     * Delivers a direct message to every socket of every conversation
+     * member (the sender's other sockets included).
+     */
+    DIRECT_MESSAGE_RECEIVED: (payload: {
+        conversation: IConversation;
+        message: IDirectMessage;
+    }) => void;
+
     // ── WebRTC / Voice events ──────────────────────────────────────────────
 
     /** Notifies the channel that a new audio producer is available. */
@@ -246,6 +682,15 @@ export interface ServerToClientEvents {
             producerId: string;
         }>;
     }) => void;
+
+    /**
+     * Users currently speaking in a voice channel, from the Router's audio
+     * level observer. Sent to the channel room only when the set changes.
+     */
+    ACTIVE_SPEAKERS: (payload: {
+        channelId: string;
+        userIds: string[];
+    }) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -255,13 +700,26 @@ export interface ServerToClientEvents {
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export interface InterServerEvents { }
 
+// ---------------------------------------------------------------------------
+// Handshake auth (sent as `io(url, { auth })`)
+// ---------------------------------------------------------------------------
+
+export interface SocketAuth {
+    /** Session token issued by `/auth/login` or `/auth/register`. */
+    token?: string;
+    /** Persistent client instance ID — only honoured when guest access is enabled. */
+    instanceId?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Socket Data (attached to each socket instance)
 // ---------------------------------------------------------------------------
 
 export interface SocketData {
-    /** Database user ID, set after authentication. */
+    /** Database user ID, set by the auth middleware during the handshake. */
     userId: string;
+    /** True when the socket authenticated with an instance ID instead of an account. */
+    isGuest: boolean;
     /** Display name for this session. */
     nickname: string;
     /** The server instance the socket is connected to. */
@@ -270,4 +728,12 @@ export interface SocketData {
     currentChannelId: string | null;
     /** Lock to prevent concurrent channel join attempts */
     joiningChannel?: boolean;
+    /** Self-mute/deafen state reported with SET_VOICE_STATE. */
+    isMuted?: boolean;
+    isDeafened?: boolean;
+    /** Moderator-imposed voice restrictions (SERVER_MUTE_USER / SERVER_DEAFEN_USER). */
+    isServerMuted?: boolean;
+    isServerDeafened?: boolean;
+    /** Away state reported with SET_AWAY. */
+    isAway?: boolean;
 }